@@ -1,12 +1,16 @@
 import { defineBackend } from '@aws-amplify/backend';
-import { CfnApi } from 'aws-cdk-lib/aws-appsync';
-import { PolicyStatement, Effect, Role } from 'aws-cdk-lib/aws-iam';
+import { RemovalPolicy, Stack } from 'aws-cdk-lib';
+import { CfnApi, CfnChannelNamespace, CfnDataSource } from 'aws-cdk-lib/aws-appsync';
+import { AttributeType, BillingMode, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { PolicyStatement, Effect, Role, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
 import { auth } from './auth/resource';
 import { data } from './data/resource';
+import { gameEngine } from './functions/game-engine/resource';
 
 export const backend = defineBackend({
   auth,
   data,
+  gameEngine,
 });
 
 // Create AppSync Events API for real-time game communication
@@ -43,6 +47,71 @@ unauthRole.addToPolicy(new PolicyStatement({
   ]
 }));
 
+// Route every publish on the default namespace through the authoritative game engine.
+// These resources live in the function's stack so the events stack never depends on it.
+const gameEngineLambda = backend.gameEngine.resources.lambda;
+const gameEngineStack = Stack.of(gameEngineLambda);
+
+const gameRoomStateTable = new Table(gameEngineStack, 'GameRoomStateTable', {
+  partitionKey: { name: 'roomCode', type: AttributeType.STRING },
+  billingMode: BillingMode.PAY_PER_REQUEST,
+  timeToLiveAttribute: 'expiresAt',
+  removalPolicy: RemovalPolicy.DESTROY,
+});
+gameRoomStateTable.grantReadWriteData(gameEngineLambda);
+
+backend.gameEngine.addEnvironment('GAME_ROOM_STATE_TABLE', gameRoomStateTable.tableName);
+
+// Guests cannot delete Player records, so the engine removes those of players who leave or are kicked
+const playerTable = backend.data.resources.tables['Player'];
+playerTable.grantWriteData(gameEngineLambda);
+backend.gameEngine.addEnvironment('PLAYER_TABLE', playerTable.tableName);
+backend.gameEngine.addEnvironment('GAME_EVENTS_HTTP_DOMAIN', gameEventsApi.attrDnsHttp);
+
+// The engine publishes outcomes (and relays accepted client events) itself
+gameEngineLambda.addToRolePolicy(new PolicyStatement({
+  effect: Effect.ALLOW,
+  actions: [
+    'appsync:EventConnect',
+    'appsync:EventPublish'
+  ],
+  resources: [
+    `arn:aws:appsync:${gameEventsStack.region}:${gameEventsStack.account}:apis/${gameEventsApi.attrApiId}/*`
+  ]
+}));
+
+const gameEngineDataSourceRole = new Role(gameEngineStack, 'GameEngineDataSourceRole', {
+  assumedBy: new ServicePrincipal('appsync.amazonaws.com')
+});
+gameEngineLambda.grantInvoke(gameEngineDataSourceRole);
+
+const gameEngineDataSource = new CfnDataSource(gameEngineStack, 'GameEngineDataSource', {
+  apiId: gameEventsApi.attrApiId,
+  name: 'GameEngineDataSource',
+  type: 'AWS_LAMBDA',
+  lambdaConfig: {
+    lambdaFunctionArn: gameEngineLambda.functionArn
+  },
+  serviceRoleArn: gameEngineDataSourceRole.roleArn
+});
+
+const defaultChannelNamespace = new CfnChannelNamespace(gameEngineStack, 'DefaultChannelNamespace', {
+  apiId: gameEventsApi.attrApiId,
+  name: 'default',
+  handlerConfigs: {
+    onPublish: {
+      behavior: 'DIRECT',
+      integration: {
+        dataSourceName: gameEngineDataSource.name,
+        lambdaConfig: {
+          invokeType: 'REQUEST_RESPONSE'
+        }
+      }
+    }
+  }
+});
+defaultChannelNamespace.addDependency(gameEngineDataSource);
+
 // Export the Events API configuration for frontend use
 backend.addOutput({
   custom: {
@@ -1,5 +1,6 @@
 import { type ClientSchema, a, defineData } from '@aws-amplify/backend';
 
+// A Game's id is its room code, and a Player's id is the in-game player id
 const schema = a.schema({
   Game: a
     .model({
@@ -26,6 +27,7 @@ const schema = a.schema({
       updatedAt: a.datetime(),
     })
     .authorization((allow) => [
+      // Records of players who leave or are kicked are removed by the game engine
       allow.guest().to(['read', 'create', 'update'])
     ]),
 });
@@ -0,0 +1,1577 @@
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { CHAT_RATE_LIMIT_MESSAGES, CHAT_RATE_LIMIT_WINDOW_MS, DEFAULT_PHASE_TIMERS, DEFAULT_ROOM_SETTINGS, GameEvent, GameEventType, HEARTBEAT_INTERVAL_MS, PRESENCE_TIMEOUT_MS } from '../../../../src/types/game';
+import { createGameEvent, getVisibleRoles } from '../../../../src/utils/gameLogic';
+import { generateSessionKey, openPayload, signEvent } from '../../../../src/utils/sessionCrypto';
+import { getRoleTeam } from '../../../../src/utils/specialRoles';
+import { createWordFilter, setProfanityFilter } from '../../../../src/utils/chat';
+import { createBotView, createRandomStrategy, planBotAction } from '../../../../src/utils/bots';
+import { GameRoomAuthority, StaleRoomStateError } from '../authority';
+import { RoomState, SERVER_PLAYER_ID, applyEvent, createRoomState } from '../../../../src/utils/gameEngine';
+import { InMemoryGameEventChannel, InMemoryPlayerRecordStore, InMemoryRoomStateStore } from '../inMemory';
+
+const ROOM_CODE = 'ABC123';
+const PLAYER_NAMES = ['Alice', 'Bob', 'Carol', 'Dave', 'Eve'];
+
+describe('Game Engine', () => {
+  let store: InMemoryRoomStateStore;
+  let channel: InMemoryGameEventChannel;
+  let playerRecords: InMemoryPlayerRecordStore;
+  let authority: GameRoomAuthority;
+  let sessionKeys: Record<string, string>;
+  let clock: number;
+
+  // Joins are signed with the key being handed over; everything else with the key the sender
+  // (or the spectator named in the event) joined with. Pass `null` to send the event unsigned.
+  const send = async (
+    type: GameEventType,
+    playerId: string,
+    data: Record<string, any> = {},
+    signWith: string | null = type === 'room-created' || type === 'player-joined' || type === 'spectator-joined'
+      ? data.sessionKey
+      : sessionKeys[playerId || data.spectatorId]
+  ) => {
+    const event = createGameEvent(type, ROOM_CODE, playerId, data);
+    return authority.handleEvent(signWith ? await signEvent(signWith, event) : event);
+  };
+
+  const createRoom = (hostId: string) => {
+    sessionKeys[hostId] = generateSessionKey();
+    return send('room-created', '', { hostId, sessionKey: sessionKeys[hostId] });
+  };
+
+  // The first player a test seats creates the room, so they hold its host seat
+  const join = async (playerId: string, playerName: string) => {
+    if (await store.load(ROOM_CODE)) {
+      sessionKeys[playerId] = generateSessionKey();
+    } else {
+      await createRoom(playerId);
+    }
+    return send('player-joined', '', { playerId, playerName, sessionKey: sessionKeys[playerId] });
+  };
+
+  const loadRoom = async (): Promise<RoomState> => (await store.load(ROOM_CODE))!;
+
+  const publishedTypes = () => channel.getEvents(ROOM_CODE).map(e => e.type);
+
+  // Join five players and ready them up
+  const joinFivePlayers = async () => {
+    for (const name of PLAYER_NAMES) {
+      await join(name.toLowerCase(), name);
+      await send('player-ready', name.toLowerCase(), { playerId: name.toLowerCase(), isReady: true });
+    }
+  };
+
+  // Send the default house rules with some changes. Seats stay in join order unless a test
+  // asks otherwise, so Alice leads the first mission.
+  const updateSettings = (playerId: string, changes: Record<string, any>) =>
+    send('settings-updated', playerId, {
+      settings: { ...DEFAULT_ROOM_SETTINGS, seating: 'host-arranged', ...changes },
+    });
+
+  // Join five players, ready them up and start the game
+  const startFivePlayerGame = async () => {
+    await joinFivePlayers();
+    await updateSettings('alice', {});
+    await send('game-started', 'alice');
+  };
+
+  // Have the leader propose a team and every other player vote
+  const proposeAndVote = async (team: string[], vote: boolean) => {
+    const { game } = await loadRoom();
+    await send('team-selected', game.currentLeader, { selectedTeam: team });
+    for (const player of game.players) {
+      if (player.id !== game.currentLeader) {
+        await send('vote-cast', player.id, { vote });
+      }
+    }
+  };
+
+  beforeEach(() => {
+    store = new InMemoryRoomStateStore();
+    channel = new InMemoryGameEventChannel();
+    playerRecords = new InMemoryPlayerRecordStore();
+    clock = Date.now();
+    authority = new GameRoomAuthority(store, channel, playerRecords, () => clock);
+    sessionKeys = {};
+  });
+
+  describe('lobby', () => {
+    it('adds joining players and broadcasts the join', async () => {
+      const result = await join('alice', 'Alice');
+
+      expect(result.isValid).toBe(true);
+      expect((await loadRoom()).game.players.map(p => p.name)).toEqual(['Alice']);
+      expect(publishedTypes()).toEqual(['room-created', 'player-joined']);
+    });
+
+    it('keeps session keys out of the broadcast join', async () => {
+      await join('alice', 'Alice');
+
+      const [created, joined] = channel.getEvents(ROOM_CODE);
+      expect(created.data).toEqual({ hostId: 'alice' });
+      expect(joined.data).toEqual({ playerId: 'alice', playerName: 'Alice' });
+      expect((await loadRoom()).sessionKeys.alice).toBe(sessionKeys.alice);
+    });
+
+    it('rejects joins without a valid session key', async () => {
+      await createRoom('host');
+      const result = await send('player-joined', '', { playerId: 'alice', playerName: 'Alice', sessionKey: 'abc' }, generateSessionKey());
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('rejects duplicate player names', async () => {
+      await join('alice', 'Alice');
+      const result = await join('alice-2', 'alice');
+
+      expect(result.isValid).toBe(false);
+      expect((await loadRoom()).game.players).toHaveLength(1);
+    });
+
+    it('rejects players acting on behalf of someone else', async () => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+
+      const result = await send('player-ready', 'bob', { playerId: 'alice', isReady: true });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('only lets the host start the game', async () => {
+      for (const name of PLAYER_NAMES) {
+        await join(name.toLowerCase(), name);
+        await send('player-ready', name.toLowerCase(), { playerId: name.toLowerCase(), isReady: true });
+      }
+
+      const result = await send('game-started', 'bob');
+
+      expect(result.isValid).toBe(false);
+      expect((await loadRoom()).game.phase).toBe('lobby');
+    });
+
+    it('assigns roles and the first leader when the game starts', async () => {
+      await startFivePlayerGame();
+      const { game } = await loadRoom();
+
+      expect(game.phase).toBe('team-building');
+      expect(game.currentLeader).toBe('alice');
+      expect(game.players.filter(p => p.role === 'spy')).toHaveLength(2);
+
+      const rolesAssigned = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!;
+      expect(rolesAssigned.playerId).toBe(SERVER_PLAYER_ID);
+      expect(rolesAssigned.data.firstLeader).toBe('alice');
+    });
+
+    it('never publishes roles in the clear', async () => {
+      await startFivePlayerGame();
+
+      // The house rules name the teams (a tie goes to the spies), so leave them out
+      const published = JSON.stringify(channel.getEvents(ROOM_CODE).filter(e => e.type !== 'settings-updated'));
+      expect(published).not.toContain('"spy"');
+      expect(published).not.toContain('"resistance"');
+    });
+
+    it('seals to each player only the roles they may see', async () => {
+      await startFivePlayerGame();
+      const { game } = await loadRoom();
+      const { sealedRoles } = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!.data;
+
+      for (const player of game.players) {
+        const visibleRoles = await openPayload<Record<string, string | null>>(sessionKeys[player.id], sealedRoles[player.id]);
+
+        expect(visibleRoles[player.id]).toBe(player.role);
+        game.players
+          .filter(other => other.id !== player.id)
+          .forEach(other => {
+            expect(visibleRoles[other.id]).toBe(player.role === 'spy' && other.role === 'spy' ? 'spy' : null);
+          });
+      }
+    });
+
+    it("cannot open another player's sealed roles", async () => {
+      await startFivePlayerGame();
+      const { sealedRoles } = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!.data;
+
+      await expect(openPayload(sessionKeys.bob, sealedRoles.alice)).rejects.toThrow();
+    });
+  });
+
+  describe('forged outcomes', () => {
+    const outcomeTypes: GameEventType[] = ['roles-assigned', 'voting-completed', 'mission-completed', 'game-ended', 'state-sync', 'assassination-started'];
+
+    outcomeTypes.forEach(type => {
+      it(`rejects ${type} events from clients`, async () => {
+        await startFivePlayerGame();
+        const before = await loadRoom();
+
+        const result = await send(type, 'alice', {});
+
+        expect(result.isValid).toBe(false);
+        expect(await loadRoom()).toEqual(before);
+      });
+    });
+
+    it('rejects events for another room', () => {
+      const event = createGameEvent('player-joined', 'OTHER1', '', {
+        playerId: 'alice',
+        playerName: 'Alice',
+        sessionKey: generateSessionKey(),
+      });
+
+      expect(applyEvent(createRoomState(ROOM_CODE, 1), event, clock).accepted).toBe(false);
+    });
+  });
+
+  describe('signatures', () => {
+    it('rejects intents that are not signed', async () => {
+      await join('alice', 'Alice');
+
+      const result = await send('player-ready', 'alice', { playerId: 'alice', isReady: true }, null);
+
+      expect(result.isValid).toBe(false);
+      expect((await loadRoom()).game.players[0].isReady).toBe(false);
+    });
+
+    it('rejects intents signed with another player\'s key', async () => {
+      await startFivePlayerGame();
+
+      const result = await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob'] }, sessionKeys.bob);
+
+      expect(result.isValid).toBe(false);
+      expect((await loadRoom()).game.phase).toBe('team-building');
+    });
+
+    it('rejects intents changed after they were signed', async () => {
+      await join('alice', 'Alice');
+      const signed = await signEvent(sessionKeys.alice, createGameEvent('player-ready', ROOM_CODE, 'alice', { playerId: 'alice', isReady: true }));
+
+      const result = await authority.handleEvent({ ...signed, data: { playerId: 'alice', isReady: false } });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('answers unsigned state sync requests', async () => {
+      await join('alice', 'Alice');
+
+      expect((await send('state-sync-requested', '', { requestId: 'sync-1' }, null)).isValid).toBe(true);
+      expect(publishedTypes().pop()).toBe('state-sync');
+    });
+  });
+
+  describe('team voting', () => {
+    beforeEach(startFivePlayerGame);
+
+    it('only accepts team proposals from the leader', async () => {
+      const result = await send('team-selected', 'bob', { selectedTeam: ['bob', 'carol'] });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('rejects teams of the wrong size', async () => {
+      const result = await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob', 'carol'] });
+
+      expect(result.isValid).toBe(false);
+      expect((await loadRoom()).game.phase).toBe('team-building');
+    });
+
+    it('records the leader vote as yes', async () => {
+      await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob'] });
+      const { game } = await loadRoom();
+
+      expect(game.phase).toBe('voting');
+      expect(game.currentVotes).toEqual({ alice: true });
+      expect(channel.getEvents(ROOM_CODE).find(e => e.type === 'team-selected')!.data).toEqual({
+        selectedTeam: ['alice', 'bob'],
+        currentVotes: { alice: true },
+      });
+    });
+
+    it('rejects a second vote from the same player', async () => {
+      await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob'] });
+      await send('vote-cast', 'bob', { vote: true });
+
+      const result = await send('vote-cast', 'bob', { vote: false });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('starts the mission once the team is approved', async () => {
+      await proposeAndVote(['alice', 'bob'], true);
+      const { game } = await loadRoom();
+
+      expect(game.phase).toBe('mission');
+      expect(publishedTypes().slice(-4)).toEqual(['vote-cast', 'voting-completed', 'mission-started', 'phase-timer-started']);
+    });
+
+    it('passes leadership and advances the vote track when the team is rejected', async () => {
+      await proposeAndVote(['alice', 'bob'], false);
+      const { game } = await loadRoom();
+
+      expect(game.phase).toBe('team-building');
+      expect(game.currentLeader).toBe('bob');
+      expect(game.voteTrack).toBe(1);
+      expect(game.selectedTeam).toEqual([]);
+      expect(publishedTypes().slice(-3)).toEqual(['voting-completed', 'leadership-changed', 'phase-timer-started']);
+    });
+
+    it('records rejected and approved proposals for the mission', async () => {
+      await proposeAndVote(['alice', 'bob'], false);
+      await proposeAndVote(['bob', 'carol'], true);
+      const { game } = await loadRoom();
+
+      expect(game.proposals[1]).toEqual([
+        {
+          missionNumber: 1,
+          attempt: 1,
+          leader: 'alice',
+          team: ['alice', 'bob'],
+          votes: { alice: true, bob: false, carol: false, dave: false, eve: false },
+          approved: false,
+        },
+        {
+          missionNumber: 1,
+          attempt: 2,
+          leader: 'bob',
+          team: ['bob', 'carol'],
+          votes: { alice: true, bob: true, carol: true, dave: true, eve: true },
+          approved: true,
+        },
+      ]);
+
+      const completed = channel.getEvents(ROOM_CODE).filter(e => e.type === 'voting-completed');
+      expect(completed.map(e => e.data.proposal)).toEqual(game.proposals[1]);
+    });
+
+    it('ends the game on the fifth rejected team', async () => {
+      for (let i = 0; i < 5; i++) {
+        const { game } = await loadRoom();
+        await proposeAndVote([game.currentLeader, game.players.find(p => p.id !== game.currentLeader)!.id], false);
+      }
+      const { game } = await loadRoom();
+
+      expect(game.phase).toBe('game-end');
+      const gameEnded = channel.getEvents(ROOM_CODE).find(e => e.type === 'game-ended')!;
+      expect(gameEnded.data).toMatchObject({ winner: 'spy', reason: 'vote-track' });
+    });
+
+    it('reveals every role once the game is over', async () => {
+      for (let i = 0; i < 5; i++) {
+        const { game } = await loadRoom();
+        await proposeAndVote([game.currentLeader, game.players.find(p => p.id !== game.currentLeader)!.id], false);
+      }
+      const { game } = await loadRoom();
+
+      const gameEnded = channel.getEvents(ROOM_CODE).find(e => e.type === 'game-ended')!;
+      expect(gameEnded.data.roles).toEqual(Object.fromEntries(game.players.map(p => [p.id, p.role])));
+    });
+
+    it('resolves the vote when the last missing voter leaves', async () => {
+      await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob'] });
+      await send('vote-cast', 'bob', { vote: true });
+      await send('vote-cast', 'carol', { vote: true });
+      await send('vote-cast', 'dave', { vote: true });
+
+      await send('player-left', 'eve', { playerId: 'eve' });
+      const { game } = await loadRoom();
+
+      expect(game.players.find(p => p.id === 'eve')?.isConnected).toBe(false);
+      expect(game.phase).toBe('mission');
+    });
+  });
+
+  describe('missions', () => {
+    beforeEach(async () => {
+      await startFivePlayerGame();
+    });
+
+    it('only accepts choices from team members', async () => {
+      await proposeAndVote(['alice', 'bob'], true);
+
+      const result = await send('mission-choice-made', 'carol', { choice: true });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('does not let resistance members fail a mission', async () => {
+      const { game } = await loadRoom();
+      const resistance = game.players.find(p => p.role === 'resistance' && p.id !== 'alice')!;
+      await proposeAndVote(['alice', resistance.id], true);
+
+      const result = await send('mission-choice-made', resistance.id, { choice: false });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('scores the mission and rotates leadership once the team has chosen', async () => {
+      const { game } = await loadRoom();
+      const spy = game.players.find(p => p.role === 'spy')!;
+      const teammate = game.players.find(p => p.id !== spy.id)!;
+      await proposeAndVote([spy.id, teammate.id], true);
+
+      await send('mission-choice-made', spy.id, { choice: false });
+      await send('mission-choice-made', teammate.id, { choice: true });
+      const room = await loadRoom();
+
+      expect(room.game.spyScore).toBe(1);
+      expect(room.game.currentMission).toBe(2);
+      expect(room.game.missionHistory[0].outcome).toBe('failure');
+      expect(room.game.phase).toBe('team-building');
+      expect(room.game.currentLeader).toBe('bob');
+      expect(room.missionChoices).toEqual({});
+      expect(publishedTypes().slice(-4)).toEqual(['mission-choice-made', 'mission-completed', 'leadership-changed', 'phase-timer-started']);
+    });
+
+    it('publishes only who has chosen and the shuffled tally', async () => {
+      const { game } = await loadRoom();
+      const spy = game.players.find(p => p.role === 'spy')!;
+      const teammate = game.players.find(p => p.id !== spy.id)!;
+      await proposeAndVote([spy.id, teammate.id], true);
+
+      await send('mission-choice-made', spy.id, { choice: false });
+      expect((await loadRoom()).game.missionSubmissions).toEqual([spy.id]);
+      await send('mission-choice-made', teammate.id, { choice: true });
+
+      const events = channel.getEvents(ROOM_CODE);
+      events
+        .filter(e => e.type === 'mission-choice-made')
+        .forEach(e => expect(e.data).toEqual({}));
+
+      const completed = events.find(e => e.type === 'mission-completed')!;
+      expect(completed.data.choices).toBeUndefined();
+      expect(completed.data.result).toMatchObject({ successChoices: 1, failChoices: 1 });
+      expect([...completed.data.missionResult.missionChoices].sort()).toEqual([false, true]);
+    });
+
+    it('ends the game when the resistance wins three missions', async () => {
+      for (let mission = 0; mission < 3; mission++) {
+        const { game } = await loadRoom();
+        const team = game.players
+          .filter(p => p.role === 'resistance')
+          .slice(0, game.currentMission === 2 ? 3 : 2)
+          .map(p => p.id);
+        await proposeAndVote(team, true);
+        for (const playerId of team) {
+          await send('mission-choice-made', playerId, { choice: true });
+        }
+      }
+      const { game } = await loadRoom();
+
+      expect(game.phase).toBe('game-end');
+      expect(game.resistanceScore).toBe(3);
+      expect(publishedTypes().slice(-2)).toEqual(['mission-completed', 'game-ended']);
+    });
+
+    it('records who led each mission', async () => {
+      await proposeAndVote(['alice', 'bob'], true);
+      await send('mission-choice-made', 'alice', { choice: true });
+      await send('mission-choice-made', 'bob', { choice: true });
+
+      const { game } = await loadRoom();
+      expect(game.missionHistory[0].leader).toBe('alice');
+      expect(game.currentLeader).toBe('bob');
+    });
+  });
+
+  describe('house rules', () => {
+    beforeEach(joinFivePlayers);
+
+    it('only lets the host change the settings', async () => {
+      expect((await updateSettings('bob', { maxVoteTrack: 3 })).isValid).toBe(false);
+
+      const result = await updateSettings('alice', { maxVoteTrack: 3 });
+
+      expect(result.isValid).toBe(true);
+      expect((await loadRoom()).game.settings.maxVoteTrack).toBe(3);
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data.settings.maxVoteTrack).toBe(3);
+    });
+
+    it('rejects invalid settings', async () => {
+      expect((await updateSettings('alice', { maxVoteTrack: 0 })).isValid).toBe(false);
+      expect((await updateSettings('alice', { specialRoles: ['merlin'] })).isValid).toBe(false);
+      expect((await updateSettings('alice', { visibilityRuleset: 'nobody-knows' })).isValid).toBe(false);
+      expect((await loadRoom()).game.settings).toEqual(DEFAULT_ROOM_SETTINGS);
+    });
+
+    it('locks the settings once roles are assigned', async () => {
+      await send('game-started', 'alice');
+
+      expect((await updateSettings('alice', { maxVoteTrack: 3 })).isValid).toBe(false);
+    });
+
+    it('leaves the leader to vote when auto-voting is off', async () => {
+      await updateSettings('alice', { leaderAutoVotesYes: false });
+      await send('game-started', 'alice');
+
+      await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob'] });
+      expect((await loadRoom()).game.currentVotes).toEqual({});
+
+      expect((await send('vote-cast', 'alice', { vote: false })).isValid).toBe(true);
+    });
+
+    it('ends the game on the configured vote track', async () => {
+      await updateSettings('alice', { maxVoteTrack: 2 });
+      await send('game-started', 'alice');
+
+      await proposeAndVote(['alice', 'bob'], false);
+      expect((await loadRoom()).game.phase).toBe('team-building');
+      await proposeAndVote(['bob', 'carol'], false);
+
+      const gameEnded = channel.getEvents(ROOM_CODE).find(e => e.type === 'game-ended')!;
+      expect(gameEnded.data).toMatchObject({ winner: 'spy', reason: 'vote-track' });
+    });
+
+    it('uses the configured team sizes', async () => {
+      await updateSettings('alice', {
+        missionRequirements: { ...DEFAULT_ROOM_SETTINGS.missionRequirements, 5: [3, 3, 2, 3, 3] },
+      });
+      await send('game-started', 'alice');
+
+      expect((await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob'] })).isValid).toBe(false);
+      expect((await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob', 'carol'] })).isValid).toBe(true);
+    });
+  });
+
+  describe('seating', () => {
+    beforeEach(joinFivePlayers);
+
+    const seatOrder = async () => (await loadRoom()).game.players.map(p => p.id);
+
+    it('lets only the host arrange the seats', async () => {
+      const arranged = ['carol', 'alice', 'eve', 'bob', 'dave'];
+      expect((await send('seats-arranged', 'bob', { seatOrder: arranged })).isValid).toBe(false);
+
+      const result = await send('seats-arranged', 'alice', { seatOrder: arranged });
+
+      expect(result.isValid).toBe(true);
+      expect(await seatOrder()).toEqual(arranged);
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data).toEqual({ seatOrder: arranged });
+    });
+
+    it('rejects seating plans that leave players out', async () => {
+      const result = await send('seats-arranged', 'alice', { seatOrder: ['alice', 'bob', 'carol', 'dave'] });
+
+      expect(result.isValid).toBe(false);
+      expect(await seatOrder()).toEqual(['alice', 'bob', 'carol', 'dave', 'eve']);
+    });
+
+    it('keeps the arranged seats and passes leadership clockwise', async () => {
+      await updateSettings('alice', {});
+      await send('seats-arranged', 'alice', { seatOrder: ['carol', 'alice', 'eve', 'bob', 'dave'] });
+      await send('game-started', 'alice');
+
+      expect((await loadRoom()).game.currentLeader).toBe('carol');
+      expect((await send('seats-arranged', 'alice', { seatOrder: ['alice', 'bob', 'carol', 'dave', 'eve'] })).isValid).toBe(false);
+
+      await proposeAndVote(['carol', 'alice'], false);
+      expect((await loadRoom()).game.currentLeader).toBe('alice');
+      await proposeAndVote(['alice', 'eve'], false);
+      expect((await loadRoom()).game.currentLeader).toBe('eve');
+    });
+
+    it('seats players randomly at the start and announces the seats', async () => {
+      await updateSettings('alice', { seating: 'random' });
+      await send('game-started', 'alice');
+      const { game } = await loadRoom();
+
+      const rolesAssigned = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!;
+      expect(rolesAssigned.data.seatOrder).toEqual(game.players.map(p => p.id));
+      expect([...rolesAssigned.data.seatOrder].sort()).toEqual(['alice', 'bob', 'carol', 'dave', 'eve']);
+      expect(game.currentLeader).toBe(rolesAssigned.data.seatOrder[0]);
+    });
+  });
+
+  describe('hosting', () => {
+    it('keeps the host seat for whoever created the room, however many join first', async () => {
+      await createRoom('zoe');
+      await join('aaa', 'AAA');
+      await join('bbb', 'BBB');
+
+      expect((await loadRoom()).game.hostId).toBe('zoe');
+      expect((await send('settings-updated', 'aaa', { settings: DEFAULT_ROOM_SETTINGS })).isValid).toBe(false);
+
+      expect((await send('player-joined', '', { playerId: 'zoe', playerName: 'Zoe', sessionKey: sessionKeys.zoe })).isValid).toBe(true);
+      expect((await loadRoom()).game.hostId).toBe('zoe');
+      expect((await send('settings-updated', 'zoe', { settings: DEFAULT_ROOM_SETTINGS })).isValid).toBe(true);
+    });
+
+    it('hands the host seat on when the creator never takes it', async () => {
+      await createRoom('zoe');
+      await join('aaa', 'AAA');
+
+      clock += PRESENCE_TIMEOUT_MS;
+      await send('player-heartbeat', 'aaa');
+      expect((await loadRoom()).game.hostId).toBe('zoe');
+
+      clock += 1;
+      await send('player-heartbeat', 'aaa');
+      expect((await loadRoom()).game.hostId).toBe('aaa');
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data).toEqual({ hostId: 'aaa', previousHostId: 'zoe' });
+      expect((await send('settings-updated', 'aaa', { settings: DEFAULT_ROOM_SETTINGS })).isValid).toBe(true);
+    });
+
+    it('only lets the creator take the host seat', async () => {
+      await createRoom('zoe');
+      const impostorKey = generateSessionKey();
+
+      const result = await send('player-joined', '', { playerId: 'zoe', playerName: 'Mallory', sessionKey: impostorKey }, impostorKey);
+
+      expect(result.isValid).toBe(false);
+      expect((await loadRoom()).game.players).toEqual([]);
+    });
+
+    it('creates a room only once, and lets nobody into a room that was never created', async () => {
+      const key = generateSessionKey();
+      expect((await send('player-joined', '', { playerId: 'alice', playerName: 'Alice', sessionKey: key })).isValid).toBe(false);
+
+      await createRoom('zoe');
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data).toEqual({ hostId: 'zoe' });
+      expect((await send('room-created', '', { hostId: 'mallory', sessionKey: key })).isValid).toBe(false);
+      expect((await loadRoom()).game.hostId).toBe('zoe');
+    });
+
+    it('lets the host hand over to a connected player', async () => {
+      await joinFivePlayers();
+      expect((await send('host-transferred', 'bob', { hostId: 'bob' })).isValid).toBe(false);
+      expect((await send('host-transferred', 'alice', { hostId: 'stranger' })).isValid).toBe(false);
+
+      const result = await send('host-transferred', 'alice', { hostId: 'carol' });
+
+      expect(result.isValid).toBe(true);
+      expect((await loadRoom()).game.hostId).toBe('carol');
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data).toEqual({ hostId: 'carol', previousHostId: 'alice' });
+      expect((await send('game-started', 'alice')).isValid).toBe(false);
+      expect((await send('game-started', 'carol')).isValid).toBe(true);
+    });
+
+    it('lets the host kick a player and keeps them out', async () => {
+      await joinFivePlayers();
+      expect((await send('player-kicked', 'bob', { playerId: 'carol' })).isValid).toBe(false);
+      expect((await send('player-kicked', 'alice', { playerId: 'alice' })).isValid).toBe(false);
+
+      const result = await send('player-kicked', 'alice', { playerId: 'eve' });
+
+      expect(result.isValid).toBe(true);
+      const room = await loadRoom();
+      expect(room.game.players.map(p => p.id)).not.toContain('eve');
+      expect(room.game.bannedPlayerIds).toEqual(['eve']);
+      expect(room.sessionKeys.eve).toBeUndefined();
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data).toEqual({ playerId: 'eve' });
+      expect(playerRecords.getDeleted()).toEqual(['eve']);
+
+      expect((await join('eve', 'Eve')).isValid).toBe(false);
+      expect((await send('player-reconnected', 'eve', { playerId: 'eve' })).isValid).toBe(false);
+    });
+
+    it('keeps a kicked player\'s sign-in out under any id', async () => {
+      await join('alice', 'Alice');
+      // Published from the same guest identity each time, as a browser does after clearing its session
+      const joinFrom = async (identity: string, playerId: string, playerName: string) => {
+        sessionKeys[playerId] = generateSessionKey();
+        const data = { playerId, playerName, sessionKey: sessionKeys[playerId] };
+        return authority.handleEvent(await signEvent(sessionKeys[playerId], createGameEvent('player-joined', ROOM_CODE, '', data)), identity);
+      };
+
+      expect((await joinFrom('guest-eve', 'eve', 'Eve')).isValid).toBe(true);
+      await send('player-kicked', 'alice', { playerId: 'eve' });
+
+      expect((await joinFrom('guest-eve', 'eve2', 'Eve')).isValid).toBe(false);
+      expect((await joinFrom('guest-bob', 'bob', 'Bob')).isValid).toBe(true);
+      expect((await loadRoom()).bannedIdentities).toEqual(['guest-eve']);
+    });
+
+    it('only allows kicks in the lobby', async () => {
+      await startFivePlayerGame();
+
+      expect((await send('player-kicked', 'alice', { playerId: 'eve' })).isValid).toBe(false);
+    });
+
+    it('passes hosting to the next seat when the host leaves the lobby', async () => {
+      await joinFivePlayers();
+
+      await send('player-left', 'alice', { playerId: 'alice' });
+
+      expect((await loadRoom()).game.hostId).toBe('bob');
+      const transferred = channel.getEvents(ROOM_CODE).at(-1)!;
+      expect(transferred.type).toBe('host-transferred');
+      expect(transferred.playerId).toBe(SERVER_PLAYER_ID);
+      expect(transferred.data).toEqual({ hostId: 'bob', previousHostId: 'alice' });
+    });
+
+    it('passes hosting on when the host stops heartbeating', async () => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+
+      clock += PRESENCE_TIMEOUT_MS + 1;
+      await send('player-heartbeat', 'bob');
+
+      expect((await loadRoom()).game.hostId).toBe('bob');
+      expect(publishedTypes().slice(-2)).toEqual(['player-disconnected', 'host-transferred']);
+    });
+  });
+
+  describe('playing again', () => {
+    // A one-rejection vote track ends the game as soon as a team is turned down
+    const playQuickGame = async () => {
+      await send('game-started', 'alice');
+      await proposeAndVote(['alice', 'bob'], false);
+    };
+
+    beforeEach(async () => {
+      await joinFivePlayers();
+      await updateSettings('alice', { maxVoteTrack: 1 });
+    });
+
+    it('only resets a finished game, at the host\'s request', async () => {
+      await send('game-started', 'alice');
+      expect((await send('game-reset', 'alice', { keepScores: true })).isValid).toBe(false);
+
+      await proposeAndVote(['alice', 'bob'], false);
+      expect((await loadRoom()).game.phase).toBe('game-end');
+      expect((await send('game-reset', 'bob', { keepScores: true })).isValid).toBe(false);
+      expect((await send('game-reset', 'alice', { keepScores: true })).isValid).toBe(true);
+    });
+
+    it('returns everyone to the lobby with the same rules and a running score', async () => {
+      await playQuickGame();
+      await send('game-reset', 'alice', { keepScores: true });
+      const { game } = await loadRoom();
+
+      expect(game.phase).toBe('lobby');
+      expect(game.players).toHaveLength(5);
+      expect(game.players.every(p => !p.isReady && !p.isLeader)).toBe(true);
+      expect(game.settings.maxVoteTrack).toBe(1);
+      expect(game.gameLog).toEqual([]);
+      expect(game.sessionWins).toEqual({ resistance: 0, spy: 1 });
+      expect(publishedTypes().at(-1)).toBe('game-reset');
+
+      for (const player of game.players) {
+        await send('player-ready', player.id, { playerId: player.id, isReady: true });
+      }
+      await playQuickGame();
+      expect((await loadRoom()).game.sessionWins).toEqual({ resistance: 0, spy: 2 });
+    });
+
+    it('clears the running score when asked', async () => {
+      await playQuickGame();
+      await send('game-reset', 'alice', { keepScores: false });
+
+      expect((await loadRoom()).game.sessionWins).toEqual({ resistance: 0, spy: 0 });
+    });
+
+    it('frees the seats of players who dropped off during the game', async () => {
+      await playQuickGame();
+      await send('player-left', 'eve', { playerId: 'eve' });
+
+      await send('game-reset', 'alice', { keepScores: true });
+      const room = await loadRoom();
+
+      expect(room.game.players.map(p => p.id)).toEqual(['alice', 'bob', 'carol', 'dave']);
+      expect(room.sessionKeys.eve).toBeUndefined();
+    });
+
+    it('does not deal a game while a seated player is disconnected', async () => {
+      await join('frank', 'Frank');
+      await send('player-ready', 'frank', { playerId: 'frank', isReady: true });
+      clock += PRESENCE_TIMEOUT_MS;
+      for (const name of PLAYER_NAMES) {
+        await send('player-heartbeat', name.toLowerCase());
+      }
+      clock += 1;
+      await send('player-heartbeat', 'alice');
+
+      const result = await send('game-started', 'alice');
+
+      expect(result).toEqual({ isValid: false, error: 'Frank is not connected' });
+      expect((await loadRoom()).game.phase).toBe('lobby');
+    });
+  });
+
+  describe('special roles', () => {
+    // Win three missions with teams made only of resistance players
+    const winThreeMissions = async () => {
+      for (let mission = 0; mission < 3; mission++) {
+        const { game } = await loadRoom();
+        const team = game.players
+          .filter(p => getRoleTeam(p.role) === 'resistance')
+          .slice(0, game.currentMission === 2 ? 3 : 2)
+          .map(p => p.id);
+        await proposeAndVote(team, true);
+        for (const playerId of team) {
+          await send('mission-choice-made', playerId, { choice: true });
+        }
+      }
+    };
+
+    it('deals the special roles and tells Merlin who the spies are', async () => {
+      await joinFivePlayers();
+      await updateSettings('alice', { specialRoles: ['merlin', 'assassin'] });
+      await send('game-started', 'alice');
+      const { game } = await loadRoom();
+
+      expect(game.players.map(p => p.role).sort()).toEqual(['assassin', 'merlin', 'resistance', 'resistance', 'spy']);
+
+      const merlin = game.players.find(p => p.role === 'merlin')!;
+      const { sealedRoles } = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!.data;
+      const visibleRoles = await openPayload<Record<string, string | null>>(sessionKeys[merlin.id], sealedRoles[merlin.id]);
+      game.players
+        .filter(other => other.id !== merlin.id)
+        .forEach(other => {
+          expect(visibleRoles[other.id]).toBe(getRoleTeam(other.role) === 'spy' ? 'spy' : null);
+        });
+    });
+
+    it('seals roles by the room\'s visibility ruleset', async () => {
+      await joinFivePlayers();
+      await updateSettings('alice', { visibilityRuleset: 'blind-spies' });
+      await send('game-started', 'alice');
+      const { game } = await loadRoom();
+      const { sealedRoles } = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!.data;
+
+      for (const spy of game.players.filter(p => p.role === 'spy')) {
+        const visibleRoles = await openPayload<Record<string, string | null>>(sessionKeys[spy.id], sealedRoles[spy.id]);
+        game.players
+          .filter(other => other.id !== spy.id)
+          .forEach(other => expect(visibleRoles[other.id]).toBeNull());
+      }
+    });
+
+    describe('assassination', () => {
+      beforeEach(async () => {
+        await joinFivePlayers();
+        await updateSettings('alice', { specialRoles: ['merlin', 'assassin'] });
+        await send('game-started', 'alice');
+        await winThreeMissions();
+      });
+
+      const findRole = async (role: string) => (await loadRoom()).game.players.find(p => p.role === role)!;
+
+      it('gives the Assassin a shot at Merlin after the third resistance win', async () => {
+        const { game } = await loadRoom();
+
+        expect(game.phase).toBe('assassination');
+        expect(game.resistanceScore).toBe(3);
+        expect(publishedTypes().slice(-3)).toEqual(['mission-completed', 'assassination-started', 'phase-timer-started']);
+      });
+
+      it('only lets the Assassin name a target', async () => {
+        const merlin = await findRole('merlin');
+        const spy = await findRole('spy');
+
+        const result = await send('assassination-attempted', spy.id, { targetId: merlin.id });
+
+        expect(result.isValid).toBe(false);
+        expect((await loadRoom()).game.phase).toBe('assassination');
+      });
+
+      it('hands the win to the spies when the Assassin finds Merlin', async () => {
+        const assassin = await findRole('assassin');
+        const merlin = await findRole('merlin');
+
+        await send('assassination-attempted', assassin.id, { targetId: merlin.id });
+
+        expect((await loadRoom()).game.phase).toBe('game-end');
+        const gameEnded = channel.getEvents(ROOM_CODE).find(e => e.type === 'game-ended')!;
+        expect(gameEnded.data).toMatchObject({ winner: 'spy', reason: 'assassination' });
+      });
+
+      it('keeps the resistance win when the Assassin misses', async () => {
+        const assassin = await findRole('assassin');
+        const loyal = await findRole('resistance');
+
+        await send('assassination-attempted', assassin.id, { targetId: loyal.id });
+
+        const gameEnded = channel.getEvents(ROOM_CODE).find(e => e.type === 'game-ended')!;
+        expect(gameEnded.data).toMatchObject({ winner: 'resistance', reason: 'assassination' });
+      });
+    });
+  });
+
+  describe('chat', () => {
+    const chat = (playerId: string, text: string, channel = 'room') =>
+      send('chat-message', playerId, { channel, text });
+
+    afterEach(() => {
+      setProfanityFilter(text => text);
+    });
+
+    it('relays room chat from players, after the profanity filter', async () => {
+      await joinFivePlayers();
+      setProfanityFilter(createWordFilter(['darn']));
+
+      expect((await chat('bob', '  darn spies  ')).isValid).toBe(true);
+      expect((await chat('visitor', 'hello')).isValid).toBe(false);
+      expect((await chat('bob', '   ')).isValid).toBe(false);
+
+      const message = channel.getEvents(ROOM_CODE).at(-1)!;
+      expect(message.type).toBe('chat-message');
+      expect(message.playerId).toBe('bob');
+      expect(message.data).toEqual({ channel: 'room', text: '**** spies' });
+    });
+
+    it('limits how quickly a player can send messages', async () => {
+      await joinFivePlayers();
+
+      for (let i = 0; i < CHAT_RATE_LIMIT_MESSAGES; i++) {
+        expect((await chat('bob', `message ${i}`)).isValid).toBe(true);
+      }
+      expect((await chat('bob', 'one too many')).isValid).toBe(false);
+      expect((await chat('carol', 'my turn')).isValid).toBe(true);
+
+      clock += CHAT_RATE_LIMIT_WINDOW_MS;
+      expect((await chat('bob', 'later')).isValid).toBe(true);
+    });
+
+    it('mutes chat during missions when the house rules say so', async () => {
+      await joinFivePlayers();
+      await updateSettings('alice', { muteChatDuringMission: true });
+      await send('game-started', 'alice');
+
+      expect((await chat('bob', 'who do we send?')).isValid).toBe(true);
+      await proposeAndVote(['alice', 'bob'], true);
+      expect((await chat('bob', 'good luck')).isValid).toBe(false);
+    });
+
+    it('seals spy chat to the spies without naming the sender', async () => {
+      await joinFivePlayers();
+      await updateSettings('alice', { spyChat: true });
+      await send('game-started', 'alice');
+      const { game } = await loadRoom();
+      const [sender, partner] = game.players.filter(p => p.role === 'spy');
+      const loyal = game.players.find(p => p.role === 'resistance')!;
+
+      expect((await chat(loyal.id, 'let me in', 'spies')).isValid).toBe(false);
+      expect((await chat(sender.id, 'fail mission two', 'spies')).isValid).toBe(true);
+
+      const message = channel.getEvents(ROOM_CODE).at(-1)!;
+      expect(message.type).toBe('chat-message');
+      expect(message.playerId).toBe(SERVER_PLAYER_ID);
+      const { sealedMessage, ...publicData } = message.data;
+      expect(JSON.stringify({ ...message, data: publicData })).not.toContain(sender.id);
+      // Every seat gets a payload, so the recipients do not give the spies away
+      expect(Object.keys(sealedMessage).sort()).toEqual(game.players.map(p => p.id).sort());
+      expect(await openPayload(sessionKeys[loyal.id], sealedMessage[loyal.id])).toBeNull();
+
+      const opened = await openPayload(sessionKeys[partner.id], message.data.sealedMessage[partner.id]);
+      expect(opened).toEqual({ playerId: sender.id, text: 'fail mission two' });
+      // The sender sees their message once the engine relays it, like everyone else
+      const echoed = await openPayload(sessionKeys[sender.id], message.data.sealedMessage[sender.id]);
+      expect(echoed).toEqual(opened);
+    });
+
+    it('keeps the spy chat closed unless the house rules open it', async () => {
+      await startFivePlayerGame();
+      const spy = (await loadRoom()).game.players.find(p => p.role === 'spy')!;
+
+      expect((await chat(spy.id, 'anyone there?', 'spies')).isValid).toBe(false);
+    });
+  });
+
+  describe('spectators', () => {
+    const watch = (spectatorId: string, spectatorName: string) => {
+      sessionKeys[spectatorId] = generateSessionKey();
+      return send('spectator-joined', '', { spectatorId, spectatorName, sessionKey: sessionKeys[spectatorId] });
+    };
+
+    it('lets anyone watch mid-game without taking a seat', async () => {
+      await startFivePlayerGame();
+
+      expect((await watch('sam', 'Sam')).isValid).toBe(true);
+
+      const { game } = await loadRoom();
+      expect(game.spectators).toEqual([{ id: 'sam', name: 'Sam' }]);
+      expect(game.players.map(p => p.id)).not.toContain('sam');
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data).toEqual({ spectatorId: 'sam', spectatorName: 'Sam' });
+    });
+
+    it('rejects a spectator whose name is taken', async () => {
+      await joinFivePlayers();
+
+      expect((await watch('sam', 'alice')).isValid).toBe(false);
+      expect((await watch('sam', 'Sam')).isValid).toBe(true);
+      expect((await join('sam2', 'Sam')).isValid).toBe(false);
+    });
+
+    it('leaves the leader rotation to the players', async () => {
+      await joinFivePlayers();
+      await watch('sam', 'Sam');
+      await updateSettings('alice', {});
+      await send('game-started', 'alice');
+
+      await proposeAndVote(['alice', 'bob'], false);
+
+      expect((await loadRoom()).game.currentLeader).toBe('bob');
+    });
+
+    it('only seals roles to spectators when the house rules make them omniscient', async () => {
+      await joinFivePlayers();
+      await watch('sam', 'Sam');
+      await updateSettings('alice', {});
+      await send('game-started', 'alice');
+
+      const rolesAssigned = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!;
+      expect(Object.keys(rolesAssigned.data.sealedRoles)).not.toContain('sam');
+    });
+
+    it('seals every role to omniscient spectators once the spectator delay has passed', async () => {
+      await joinFivePlayers();
+      await watch('sam', 'Sam');
+      await updateSettings('alice', { omniscientSpectators: true, spectatorDelayMs: 20_000 });
+      await send('game-started', 'alice');
+      const { game } = await loadRoom();
+      const allRoles = Object.fromEntries(game.players.map(p => [p.id, p.role]));
+
+      const { sealedRoles } = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!.data;
+      expect(sealedRoles.sam).toBeUndefined();
+      await send('state-sync-requested', '', { requestId: 'sync-1', spectatorId: 'sam' });
+      expect(channel.getEvents(ROOM_CODE).find(e => e.type === 'state-sync')!.data.sealedRoles).toBeUndefined();
+
+      clock += 19_999;
+      await send('player-heartbeat', 'alice');
+      expect(publishedTypes()).not.toContain('spectator-feed');
+
+      clock += 1;
+      await send('player-heartbeat', 'alice');
+      // Held at the start and again for the state sync
+      const feed = channel.getEvents(ROOM_CODE).filter(e => e.type === 'spectator-feed');
+      expect(feed).toHaveLength(2);
+      for (const released of feed) {
+        expect(released.playerId).toBe(SERVER_PLAYER_ID);
+        expect(Object.keys(released.data.sealedRoles)).toEqual(['sam']);
+        expect(await openPayload(sessionKeys.sam, released.data.sealedRoles.sam)).toEqual(allRoles);
+      }
+      expect((await loadRoom()).spectatorFeed).toEqual([]);
+    });
+
+    it('holds roles only for an omniscient spectator who signed the request', async () => {
+      await joinFivePlayers();
+      await watch('sam', 'Sam');
+      await updateSettings('alice', { omniscientSpectators: true, spectatorDelayMs: 20_000 });
+      await send('game-started', 'alice');
+      const before = await loadRoom();
+
+      await send('state-sync-requested', '', { requestId: 'sync-1', spectatorId: 'sam' }, null);
+      expect(await loadRoom()).toEqual(before);
+
+      await send('state-sync-requested', '', { requestId: 'sync-2', spectatorId: 'sam' });
+      expect((await loadRoom()).spectatorFeed).toHaveLength(before.spectatorFeed.length + 1);
+    });
+
+    it('holds spy chat back from omniscient spectators until the spectator delay has passed', async () => {
+      await joinFivePlayers();
+      await watch('sam', 'Sam');
+      await updateSettings('alice', { omniscientSpectators: true, spyChat: true, spectatorDelayMs: 20_000 });
+      await send('game-started', 'alice');
+      const spy = (await loadRoom()).game.players.find(p => p.role === 'spy')!;
+      const sentAt = clock;
+
+      await send('chat-message', spy.id, { channel: 'spies', text: 'fail mission two' });
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data.sealedMessage.sam).toBeUndefined();
+
+      clock += 20_000;
+      await send('player-heartbeat', 'alice');
+      const [, message] = channel.getEvents(ROOM_CODE).filter(e => e.type === 'spectator-feed');
+      expect(message.data.sentAt).toBe(sentAt);
+      expect(await openPayload(sessionKeys.sam, message.data.sealedMessage.sam)).toEqual({ playerId: spy.id, text: 'fail mission two' });
+    });
+
+    it('drops what it still holds for spectators when the next game starts', async () => {
+      await joinFivePlayers();
+      await watch('sam', 'Sam');
+      await updateSettings('alice', { omniscientSpectators: true, spectatorDelayMs: 20_000, maxVoteTrack: 1 });
+      await send('game-started', 'alice');
+      await proposeAndVote(['alice', 'bob'], false);
+      const ended = await loadRoom();
+      expect(ended.game.phase).toBe('game-end');
+      expect(ended.spectatorFeed).toHaveLength(1);
+
+      await send('game-reset', 'alice', { keepScores: true });
+
+      expect((await loadRoom()).spectatorFeed).toEqual([]);
+    });
+
+    it('requires the session key to stop watching', async () => {
+      await join('alice', 'Alice');
+      await watch('sam', 'Sam');
+
+      expect((await send('spectator-left', '', { spectatorId: 'sam' }, sessionKeys.alice)).isValid).toBe(false);
+      expect((await send('spectator-left', '', { spectatorId: 'sam' })).isValid).toBe(true);
+
+      const room = await loadRoom();
+      expect(room.game.spectators).toEqual([]);
+      expect(room.sessionKeys.sam).toBeUndefined();
+    });
+  });
+
+  describe('bots', () => {
+    const addBot = (botId: string, botName: string, data: Record<string, any> = {}) =>
+      send('bot-added', 'alice', { botId, botName, botStrategy: 'rule-based', ...data });
+
+    // Alice hosts, Bob sits in, and three bots fill the rest of the table
+    const joinWithBots = async (changes: Record<string, any> = {}) => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+      await send('player-ready', 'alice', { playerId: 'alice', isReady: true });
+      await send('player-ready', 'bob', { playerId: 'bob', isReady: true });
+      await updateSettings('alice', changes);
+      for (const id of ['bot1', 'bot2', 'bot3']) {
+        sessionKeys[id] = generateSessionKey();
+        await addBot(id, id.replace('bot', 'Bot '), { sessionKey: sessionKeys[id] });
+      }
+    };
+
+    // Whether everything the game is waiting on is down to people rather than bots
+    const waitingOnPeople = (game: RoomState['game']) => {
+      const bots = game.players.filter(p => p.isBot).map(p => p.id);
+      switch (game.phase) {
+        case 'team-building':
+          return !bots.includes(game.currentLeader);
+        case 'voting':
+          return bots.every(id => game.currentVotes[id] !== undefined);
+        case 'mission':
+          return game.selectedTeam.filter(id => bots.includes(id)).every(id => game.missionSubmissions.includes(id));
+        default:
+          return true;
+      }
+    };
+
+    it('lets the host add ready bots in the lobby', async () => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+
+      expect((await send('bot-added', 'bob', { botId: 'bot1', botName: 'Bot 1', botStrategy: 'random' })).isValid).toBe(false);
+      expect((await addBot('bot1', 'Bot 1', { botStrategy: 'clever' })).isValid).toBe(false);
+      expect((await addBot('bot1', 'bob')).isValid).toBe(false);
+      expect((await addBot('bot1', 'Bot 1')).isValid).toBe(true);
+
+      const room = await loadRoom();
+      expect(room.game.players.find(p => p.id === 'bot1')).toMatchObject({ isBot: true, isReady: true, botStrategy: 'rule-based' });
+      expect(room.sessionKeys.bot1).toBeUndefined();
+      expect(channel.getEvents(ROOM_CODE).at(-1)!.data).toEqual({ botId: 'bot1', botName: 'Bot 1', botStrategy: 'rule-based' });
+    });
+
+    it('lets two people start a game with bots in the other seats', async () => {
+      await joinWithBots();
+
+      expect((await send('game-started', 'alice')).isValid).toBe(true);
+      expect((await loadRoom()).game.phase).not.toBe('lobby');
+    });
+
+    it('never seals a bot\'s roles to anyone, the host included', async () => {
+      await joinWithBots();
+      await send('game-started', 'alice');
+
+      const { sealedRoles } = channel.getEvents(ROOM_CODE).find(e => e.type === 'roles-assigned')!.data;
+      expect(Object.keys(sealedRoles).sort()).toEqual(['alice', 'bob']);
+    });
+
+    it('has bots move as soon as the game waits on them', async () => {
+      await joinWithBots();
+      await send('game-started', 'alice');
+
+      let { game } = await loadRoom();
+      expect(waitingOnPeople(game)).toBe(true);
+
+      await send('team-selected', 'alice', { selectedTeam: ['alice', 'bot1'] });
+      ({ game } = await loadRoom());
+      expect(waitingOnPeople(game)).toBe(true);
+      expect(publishedTypes().filter(type => type === 'vote-cast').length).toBeGreaterThanOrEqual(3);
+    });
+
+    it('plays whole games with people and bots at the table', async () => {
+      await joinWithBots({ specialRoles: ['merlin', 'assassin'] });
+      await send('game-started', 'alice');
+
+      // The people play at random, through the same planning the bots use
+      const randomPlay = createRandomStrategy();
+      for (let move = 0; move < 200; move++) {
+        const { game } = await loadRoom();
+        if (game.phase === 'game-end') break;
+
+        const person = game.players.find(p => !p.isBot && planBotAction(
+          createBotView(game, p.id, getVisibleRoles(p, game.players)),
+          randomPlay
+        ))!;
+        const action = planBotAction(createBotView(game, person.id, getVisibleRoles(person, game.players)), randomPlay)!;
+        expect((await send(action.type, person.id, action.data)).isValid).toBe(true);
+      }
+
+      expect((await loadRoom()).game.phase).toBe('game-end');
+    });
+
+    it('keeps bots connected without heartbeats', async () => {
+      await joinWithBots();
+
+      clock += PRESENCE_TIMEOUT_MS + 1;
+      await send('player-heartbeat', 'alice');
+
+      const { game } = await loadRoom();
+      expect(game.players.filter(p => !p.isConnected).map(p => p.id)).toEqual(['bob']);
+    });
+
+    it('never hands hosting to a bot', async () => {
+      await join('alice', 'Alice');
+      await addBot('bot1', 'Bot 1');
+      await join('bob', 'Bob');
+
+      expect((await send('host-transferred', 'alice', { hostId: 'bot1' })).isValid).toBe(false);
+
+      await send('player-left', 'alice', { playerId: 'alice' });
+      expect((await loadRoom()).game.hostId).toBe('bob');
+    });
+  });
+
+  describe('reconnecting', () => {
+    it('restores a player who left mid-game when they sign with their session key', async () => {
+      await startFivePlayerGame();
+      await send('player-left', 'bob', { playerId: 'bob' });
+
+      const result = await send('player-reconnected', 'bob', { playerId: 'bob' });
+
+      expect(result.isValid).toBe(true);
+      expect((await loadRoom()).game.players.find(p => p.id === 'bob')!.isConnected).toBe(true);
+    });
+
+    it('keeps the signature out of the broadcast', async () => {
+      await join('alice', 'Alice');
+
+      await send('player-reconnected', 'alice', { playerId: 'alice' });
+
+      const reconnected = channel.getEvents(ROOM_CODE).pop()!;
+      expect(reconnected.data).toEqual({ playerId: 'alice' });
+      expect(reconnected.signature).toBeUndefined();
+    });
+
+    it('rejects a reconnect with the wrong session key', async () => {
+      await startFivePlayerGame();
+      await send('player-left', 'bob', { playerId: 'bob' });
+
+      const result = await send('player-reconnected', 'bob', { playerId: 'bob' }, sessionKeys.alice);
+
+      expect(result.isValid).toBe(false);
+      expect((await loadRoom()).game.players.find(p => p.id === 'bob')!.isConnected).toBe(false);
+    });
+
+    it('rejects a reconnect for a player who left the lobby', async () => {
+      await join('alice', 'Alice');
+      await send('player-left', 'alice', { playerId: 'alice' });
+
+      const result = await send('player-reconnected', 'alice', { playerId: 'alice' });
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe('presence', () => {
+    const heartbeat = (playerId: string) => send('player-heartbeat', playerId);
+
+    it('does not rebroadcast heartbeats', async () => {
+      await join('alice', 'Alice');
+
+      const result = await heartbeat('alice');
+
+      expect(result.isValid).toBe(true);
+      expect(publishedTypes()).toEqual(['room-created', 'player-joined']);
+    });
+
+    it('does not write the room for heartbeats that change nothing', async () => {
+      await join('alice', 'Alice');
+      const { version } = await loadRoom();
+
+      clock += HEARTBEAT_INTERVAL_MS;
+      await heartbeat('alice');
+      expect((await loadRoom()).version).toBe(version);
+
+      // Once the last sighting is getting old, a heartbeat refreshes it
+      clock += HEARTBEAT_INTERVAL_MS;
+      await heartbeat('alice');
+      const room = await loadRoom();
+      expect(room.version).toBe(version + 1);
+      expect(room.lastSeen.alice).toBe(clock);
+    });
+
+    it('rejects heartbeats from players who are not in the room', async () => {
+      const result = await heartbeat('stranger');
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('marks players who stop heartbeating as disconnected', async () => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+
+      clock += PRESENCE_TIMEOUT_MS;
+      await heartbeat('alice');
+      expect(publishedTypes()).not.toContain('player-disconnected');
+
+      clock += 1;
+      await heartbeat('alice');
+
+      const [disconnected] = channel.getEvents(ROOM_CODE).filter(e => e.type === 'player-disconnected');
+      expect(disconnected.data).toEqual({ playerId: 'bob' });
+      expect((await loadRoom()).game.players.find(p => p.id === 'bob')!.isConnected).toBe(false);
+    });
+
+    it('brings a disconnected player back when they heartbeat again', async () => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+      clock += PRESENCE_TIMEOUT_MS + 1;
+      await heartbeat('alice');
+
+      await heartbeat('bob');
+
+      expect(publishedTypes().pop()).toBe('player-reconnected');
+      expect((await loadRoom()).game.players.every(p => p.isConnected)).toBe(true);
+    });
+
+    it('only lets a player bring themselves back', async () => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+      clock += PRESENCE_TIMEOUT_MS + 1;
+      await heartbeat('alice');
+
+      expect((await send('player-heartbeat', 'bob', {}, sessionKeys.alice)).isValid).toBe(false);
+      expect((await loadRoom()).game.players.find(p => p.id === 'bob')!.isConnected).toBe(false);
+    });
+
+    it('resolves the vote once the last missing voter times out', async () => {
+      await startFivePlayerGame();
+      const { game } = await loadRoom();
+      await send('team-selected', game.currentLeader, { selectedTeam: ['alice', 'bob'] });
+      for (const player of game.players) {
+        if (player.id !== game.currentLeader && player.id !== 'eve') {
+          await send('vote-cast', player.id, { vote: true });
+        }
+      }
+      expect((await loadRoom()).game.phase).toBe('voting');
+
+      clock += PRESENCE_TIMEOUT_MS;
+      for (const player of game.players.filter(p => p.id !== 'eve')) {
+        await heartbeat(player.id);
+      }
+      clock += 1;
+      await heartbeat('alice');
+
+      expect((await loadRoom()).game.phase).toBe('mission');
+      expect(publishedTypes().slice(-4)).toEqual(['player-disconnected', 'voting-completed', 'mission-started', 'phase-timer-started']);
+    });
+  });
+
+  describe('phase timers', () => {
+    const { 'team-building': TEAM_BUILDING_MS, voting: VOTING_MS, mission: MISSION_MS } = DEFAULT_PHASE_TIMERS;
+
+    // Move the clock forward in heartbeat-sized steps, so nobody times out along the way
+    const advanceClock = async (ms: number) => {
+      const target = clock + ms;
+      while (clock < target) {
+        clock = Math.min(clock + HEARTBEAT_INTERVAL_MS, target);
+        for (const player of (await loadRoom()).game.players) {
+          await send('player-heartbeat', player.id);
+        }
+      }
+    };
+
+    it('starts the team-building clock when the game starts', async () => {
+      await startFivePlayerGame();
+
+      const { game } = await loadRoom();
+      expect(game.phaseDeadline).toBe(clock + TEAM_BUILDING_MS);
+      const timerStarted = channel.getEvents(ROOM_CODE).find(e => e.type === 'phase-timer-started')!;
+      expect(timerStarted.data).toEqual({ phase: 'team-building', deadline: clock + TEAM_BUILDING_MS });
+    });
+
+    it('does not time the lobby', async () => {
+      await join('alice', 'Alice');
+
+      expect((await loadRoom()).game.phaseDeadline).toBeNull();
+    });
+
+    it('picks a random team of the required size when the leader runs out of time', async () => {
+      await startFivePlayerGame();
+
+      await advanceClock(TEAM_BUILDING_MS);
+
+      const { game } = await loadRoom();
+      expect(game.phase).toBe('voting');
+      expect(game.selectedTeam).toHaveLength(2);
+      expect(game.currentVotes).toEqual({ [game.currentLeader]: true });
+      expect(game.phaseDeadline).toBe(clock + VOTING_MS);
+      expect(game.gameLog.at(-1)!.type).toBe('phase-timeout');
+      expect(publishedTypes()).toContain('phase-timed-out');
+      expect(channel.getEvents(ROOM_CODE).find(e => e.type === 'team-selected')!.data.selectedTeam).toEqual(game.selectedTeam);
+    });
+
+    it('waits for enough connected players before picking a team when the leader runs out of time', async () => {
+      await startFivePlayerGame();
+
+      // Everyone but Alice drops out, and the timer runs out with one player left for a team of two
+      clock += TEAM_BUILDING_MS;
+      const result = await send('player-heartbeat', 'alice');
+
+      expect(result.isValid).toBe(true);
+      expect((await loadRoom()).game.phase).toBe('team-building');
+      expect(publishedTypes()).not.toContain('phase-timed-out');
+
+      await send('player-heartbeat', 'bob');
+
+      const { game } = await loadRoom();
+      expect(game.phase).toBe('voting');
+      expect([...game.selectedTeam].sort()).toEqual(['alice', 'bob']);
+    });
+
+    it('counts missing votes as rejections when voting runs out of time', async () => {
+      await startFivePlayerGame();
+      await send('team-selected', 'alice', { selectedTeam: ['alice', 'bob'] });
+      await send('vote-cast', 'bob', { vote: true });
+
+      await advanceClock(VOTING_MS);
+
+      const { game } = await loadRoom();
+      expect(game.phase).toBe('team-building');
+      expect(game.voteTrack).toBe(1);
+      const completed = channel.getEvents(ROOM_CODE).find(e => e.type === 'voting-completed')!;
+      expect(completed.data.votes).toEqual({ alice: true, bob: true, carol: false, dave: false, eve: false });
+    });
+
+    it('counts missing mission cards as Success when the mission runs out of time', async () => {
+      await startFivePlayerGame();
+      await proposeAndVote(['alice', 'bob'], true);
+
+      await advanceClock(MISSION_MS);
+
+      const { game } = await loadRoom();
+      expect(game.missionHistory).toHaveLength(1);
+      expect(game.missionHistory[0].outcome).toBe('success');
+      expect(game.gameLog.map(entry => entry.type)).toContain('phase-timeout');
+    });
+
+    it('does not fire before the deadline', async () => {
+      await startFivePlayerGame();
+
+      await advanceClock(TEAM_BUILDING_MS - 1);
+
+      expect((await loadRoom()).game.phase).toBe('team-building');
+    });
+  });
+
+  describe('state sync', () => {
+    const findSync = (requestId: string) =>
+      channel.getEvents(ROOM_CODE).find(e => e.type === 'state-sync' && e.data.requestId === requestId)!;
+
+    it('answers a request with a snapshot of the lobby', async () => {
+      await join('alice', 'Alice');
+      await join('bob', 'Bob');
+
+      const result = await send('state-sync-requested', '', { requestId: 'sync-1' });
+
+      expect(result.isValid).toBe(true);
+      const { snapshot, sealedRoles } = findSync('sync-1').data;
+      expect(snapshot.players.map((p: { id: string }) => p.id)).toEqual(['alice', 'bob']);
+      expect(sealedRoles).toBeUndefined();
+    });
+
+    it('requires a request id', async () => {
+      const result = await send('state-sync-requested', '', {});
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('does not change the stored room', async () => {
+      await join('alice', 'Alice');
+      const before = await loadRoom();
+
+      await send('state-sync-requested', 'alice', { requestId: 'sync-1' });
+
+      expect(await loadRoom()).toEqual(before);
+    });
+
+    it('hides roles in the snapshot but seals them to the requesting player', async () => {
+      await startFivePlayerGame();
+      const { game } = await loadRoom();
+      const spy = game.players.find(p => p.role === 'spy')!;
+
+      await send('state-sync-requested', spy.id, { requestId: 'sync-1' });
+
+      const { snapshot, sealedRoles } = findSync('sync-1').data;
+      expect(JSON.stringify(snapshot.players)).not.toContain('"spy"');
+      expect(Object.keys(sealedRoles)).toEqual([spy.id]);
+
+      const visibleRoles = await openPayload<Record<string, string | null>>(sessionKeys[spy.id], sealedRoles[spy.id]);
+      expect(visibleRoles[spy.id]).toBe('spy');
+    });
+
+    it('shows every role in the snapshot once the game is over', async () => {
+      await joinFivePlayers();
+      await updateSettings('alice', { maxVoteTrack: 1 });
+      await send('game-started', 'alice');
+      await proposeAndVote(['alice', 'bob'], false);
+
+      await send('state-sync-requested', 'alice', { requestId: 'sync-1' });
+
+      const { game } = await loadRoom();
+      expect(findSync('sync-1').data.snapshot.players).toEqual(game.players);
+    });
+
+    it('seals nothing for someone who is not playing', async () => {
+      await startFivePlayerGame();
+
+      await send('state-sync-requested', 'visitor', { requestId: 'sync-1' });
+
+      expect(findSync('sync-1').data.sealedRoles).toBeUndefined();
+    });
+
+    it('answers an unsigned request without saving the room or running the clock', async () => {
+      await startFivePlayerGame();
+      const before = await loadRoom();
+      const published = channel.getEvents(ROOM_CODE).length;
+      clock = before.game.phaseDeadline! + 1;
+
+      const result = await send('state-sync-requested', 'alice', { requestId: 'sync-1' }, null);
+
+      expect(result.isValid).toBe(true);
+      expect(await loadRoom()).toEqual(before);
+      expect(channel.getEvents(ROOM_CODE).slice(published).map(e => e.type)).toEqual(['state-sync']);
+    });
+  });
+
+  describe('GameRoomAuthority', () => {
+    it('re-applies the event when the room changed concurrently', async () => {
+      await join('alice', 'Alice');
+
+      // Simulate another writer saving between our load and save
+      let conflicts = 1;
+      const save = store.save.bind(store);
+      store.save = async (room: RoomState, expectedVersion: number) => {
+        if (conflicts-- > 0) {
+          throw new StaleRoomStateError(room.game.roomCode);
+        }
+        return save(room, expectedVersion);
+      };
+
+      const result = await join('bob', 'Bob');
+
+      expect(result.isValid).toBe(true);
+      expect((await loadRoom()).game.players).toHaveLength(2);
+    });
+
+    it('removes the records of players who leave the lobby, but not of those who drop out of a game', async () => {
+      await joinFivePlayers();
+      await send('player-left', 'eve', { playerId: 'eve' });
+      expect(playerRecords.getDeleted()).toEqual(['eve']);
+
+      await join('eve', 'Eve');
+      await send('player-ready', 'eve', { playerId: 'eve', isReady: true });
+      await send('game-started', 'alice');
+      await send('player-left', 'eve', { playerId: 'eve' });
+      expect(playerRecords.getDeleted()).toEqual(['eve']);
+    });
+
+    it('does not publish rejected events', async () => {
+      const published: GameEvent[] = [];
+      channel.subscribe(ROOM_CODE, event => published.push(event));
+
+      await send('vote-cast', 'alice', { vote: true });
+
+      expect(published).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Sha256 } from '@aws-crypto/sha256-js';
+import { SignatureV4 } from '@smithy/signature-v4';
+import { GameEvent } from '../../../src/types/game';
+import { GameEventChannel } from './authority';
+
+// AppSync Events accepts at most five events per publish request
+const MAX_EVENTS_PER_REQUEST = 5;
+
+// Channel a room's events flow through (matches AppSyncEventsManager on the client)
+export function getRoomChannelPath(roomCode: string): string {
+  return `/default/game-room-${roomCode}`;
+}
+
+// Clients publish `{ event: <serialized GameEvent> }`, so the engine does the same
+export function encodeEventPayload(event: GameEvent): { event: string } {
+  return { event: JSON.stringify(event) };
+}
+
+// Parse a published payload back into a GameEvent, or null if it is not one
+export function decodeEventPayload(payload: unknown): GameEvent | null {
+  try {
+    const raw = typeof payload === 'string' ? JSON.parse(payload) : payload;
+    const candidate = typeof raw?.event === 'string' ? JSON.parse(raw.event) : raw?.event ?? raw;
+
+    if (
+      typeof candidate?.type !== 'string' ||
+      typeof candidate.roomCode !== 'string' ||
+      typeof candidate.playerId !== 'string' ||
+      typeof candidate.timestamp !== 'number' ||
+      typeof candidate.data !== 'object' ||
+      candidate.data === null
+    ) {
+      return null;
+    }
+
+    return candidate as GameEvent;
+  } catch {
+    return null;
+  }
+}
+
+interface AppSyncHttpEventChannelConfig {
+  httpDomain: string;
+  region: string;
+  credentials: {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+  };
+}
+
+// Publishes engine events through the AppSync Events HTTP endpoint, signed with the function's role
+export class AppSyncHttpEventChannel implements GameEventChannel {
+  private readonly signer: SignatureV4;
+
+  constructor(private readonly config: AppSyncHttpEventChannelConfig) {
+    this.signer = new SignatureV4({
+      service: 'appsync',
+      region: config.region,
+      credentials: config.credentials,
+      sha256: Sha256,
+    });
+  }
+
+  async publish(roomCode: string, events: GameEvent[]): Promise<void> {
+    for (let start = 0; start < events.length; start += MAX_EVENTS_PER_REQUEST) {
+      const batch = events.slice(start, start + MAX_EVENTS_PER_REQUEST);
+      await this.publishBatch(roomCode, batch);
+    }
+  }
+
+  private async publishBatch(roomCode: string, events: GameEvent[]): Promise<void> {
+    const body = JSON.stringify({
+      channel: getRoomChannelPath(roomCode),
+      events: events.map(event => JSON.stringify(encodeEventPayload(event))),
+    });
+
+    const signed = await this.signer.sign({
+      method: 'POST',
+      protocol: 'https:',
+      hostname: this.config.httpDomain,
+      path: '/event',
+      headers: {
+        'content-type': 'application/json',
+        host: this.config.httpDomain,
+      },
+      body,
+    });
+
+    // fetch sets the host header itself
+    const { host: _host, ...headers } = signed.headers;
+    const response = await fetch(`https://${this.config.httpDomain}/event`, {
+      method: 'POST',
+      headers,
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to publish to ${roomCode}: ${response.status} ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    if (Array.isArray(result.failed) && result.failed.length > 0) {
+      throw new Error(`Failed to publish ${result.failed.length} event(s) to ${roomCode}`);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { GameEvent } from '../../../src/types/game';
+import { generateSeed } from '../../../src/utils/gameLogic';
+import { ValidationResult } from '../../../src/utils/gameValidation';
+import { SealedPayload, sealPayload, verifyEventSignature } from '../../../src/utils/sessionCrypto';
+import {
+  EngineEffects,
+  RoomState,
+  UNSIGNED_EVENT_TYPES,
+  answerUnsignedEvent,
+  applyEvent,
+  createRoomState,
+  getSigningKey,
+} from '../../../src/utils/gameEngine';
+
+// Persistence for engine room state
+export interface RoomStateStore {
+  load(roomCode: string): Promise<RoomState | null>;
+  // Must fail with StaleRoomStateError if the stored version is no longer `expectedVersion`
+  save(room: RoomState, expectedVersion: number): Promise<void>;
+}
+
+// Outbound side of a room's event channel
+export interface GameEventChannel {
+  publish(roomCode: string, events: GameEvent[]): Promise<void>;
+}
+
+// The Player records clients keep for each room. Guests may not delete them, so the
+// engine removes the record of every player it takes out of a room.
+export interface PlayerRecordStore {
+  delete(playerId: string): Promise<void>;
+}
+
+// Raised when another event for the same room was accepted concurrently
+export class StaleRoomStateError extends Error {
+  constructor(roomCode: string) {
+    super(`Room ${roomCode} was modified concurrently`);
+    this.name = 'StaleRoomStateError';
+  }
+}
+
+// Single writer for room state: validates each event, persists the result and broadcasts it
+export class GameRoomAuthority {
+  private static readonly MAX_ATTEMPTS = 3;
+
+  constructor(
+    private readonly store: RoomStateStore,
+    private readonly channel: GameEventChannel,
+    private readonly playerRecords: PlayerRecordStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // `senderIdentity` is the sign-in the event was published with, when the channel reports one
+  async handleEvent(event: GameEvent, senderIdentity?: string): Promise<ValidationResult> {
+    for (let attempt = 1; ; attempt++) {
+      const room = (await this.store.load(event.roomCode)) ?? createRoomState(event.roomCode, generateSeed());
+      const signed = await this.isSignedBySender(room, event);
+      if (!signed && !UNSIGNED_EVENT_TYPES.includes(event.type)) {
+        return { isValid: false, error: 'Event is not signed by its sender' };
+      }
+
+      // The signature never goes back out, so nobody can replay it
+      const { signature, ...intent } = event;
+      const result = signed
+        ? applyEvent(room, intent, this.now(), senderIdentity)
+        : answerUnsignedEvent(room, intent, this.now());
+
+      if (!result.accepted) {
+        return { isValid: false, error: result.error };
+      }
+
+      try {
+        if (result.state !== room) {
+          await this.store.save(result.state, room.version);
+        }
+      } catch (error) {
+        if (error instanceof StaleRoomStateError && attempt < GameRoomAuthority.MAX_ATTEMPTS) {
+          continue; // Re-apply the event on top of the newer state
+        }
+        throw error;
+      }
+
+      result.effects.warnings.forEach(warning => console.error(`game-engine: ${warning}`));
+      await this.channel.publish(event.roomCode, await this.sealDeliveries(result.state, result.effects));
+      await this.removePlayerRecords(room, result.state);
+      return { isValid: true };
+    }
+  }
+
+  // Players who left or were kicked (bots have no record). The event already stands,
+  // so a record that cannot be removed is only logged.
+  private async removePlayerRecords(before: RoomState, after: RoomState): Promise<void> {
+    const remaining = new Set(after.game.players.map(p => p.id));
+    const removed = before.game.players.filter(p => !p.isBot && !remaining.has(p.id));
+
+    for (const player of removed) {
+      try {
+        await this.playerRecords.delete(player.id);
+      } catch (error) {
+        console.error(`game-engine: Failed to remove the record of player ${player.id}:`, error);
+      }
+    }
+  }
+
+  // Every intent must carry a signature made with the session key of whoever it claims to come from
+  private async isSignedBySender(room: RoomState, event: GameEvent): Promise<boolean> {
+    const sessionKey = getSigningKey(room, event);
+    return sessionKey !== undefined && verifyEventSignature(sessionKey, event);
+  }
+
+  // Replace each event that carries private data with a copy holding one sealed payload per player
+  private async sealDeliveries(room: RoomState, { events, deliveries }: EngineEffects): Promise<GameEvent[]> {
+    const sealedEvents = new Map<GameEvent, GameEvent>();
+
+    for (const { event, field, payloads } of deliveries) {
+      const sealed: Record<string, SealedPayload> = {};
+      for (const [playerId, payload] of Object.entries(payloads)) {
+        const sessionKey = room.sessionKeys[playerId];
+        if (sessionKey) {
+          sealed[playerId] = await sealPayload(sessionKey, payload);
+        }
+      }
+      sealedEvents.set(event, { ...event, data: { ...event.data, [field]: sealed } });
+    }
+
+    return events.map(event => sealedEvents.get(event) ?? event);
+  }
+}
@@ -0,0 +1,18 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { PlayerRecordStore } from './authority';
+
+// The data API's Player table, keyed by player id
+export class DynamoDbPlayerRecordStore implements PlayerRecordStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly client: DynamoDBDocumentClient = DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  ) {}
+
+  async delete(playerId: string): Promise<void> {
+    await this.client.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { id: playerId },
+    }));
+  }
+}
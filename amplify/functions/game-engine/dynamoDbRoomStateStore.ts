@@ -0,0 +1,47 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { RoomState } from '../../../src/utils/gameEngine';
+import { RoomStateStore, StaleRoomStateError } from './authority';
+
+// Abandoned rooms expire after a day
+const ROOM_TTL_SECONDS = 24 * 60 * 60;
+
+// Room state table keyed by room code, guarded by a version condition
+export class DynamoDbRoomStateStore implements RoomStateStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly client: DynamoDBDocumentClient = DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  ) {}
+
+  async load(roomCode: string): Promise<RoomState | null> {
+    const { Item } = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { roomCode },
+    }));
+
+    return Item ? JSON.parse(Item.state) : null;
+  }
+
+  async save(room: RoomState, expectedVersion: number): Promise<void> {
+    const isNewRoom = expectedVersion === 0;
+
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          roomCode: room.game.roomCode,
+          version: room.version,
+          state: JSON.stringify(room),
+          expiresAt: Math.floor(Date.now() / 1000) + ROOM_TTL_SECONDS,
+        },
+        ConditionExpression: isNewRoom ? 'attribute_not_exists(roomCode)' : 'version = :expectedVersion',
+        ExpressionAttributeValues: isNewRoom ? undefined : { ':expectedVersion': expectedVersion },
+      }));
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new StaleRoomStateError(room.game.roomCode);
+      }
+      throw error;
+    }
+  }
+}
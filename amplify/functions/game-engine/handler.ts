@@ -0,0 +1,76 @@
+import { env } from '$amplify/env/game-engine';
+import { GameRoomAuthority } from './authority';
+import { AppSyncHttpEventChannel, decodeEventPayload, getRoomChannelPath } from './appSyncEventChannel';
+import { DynamoDbPlayerRecordStore } from './dynamoDbPlayerRecordStore';
+import { DynamoDbRoomStateStore } from './dynamoDbRoomStateStore';
+
+// Shape of an AppSync Events onPublish request for a direct Lambda integration
+interface PublishRequest {
+  identity?: { userArn?: string; cognitoIdentityId?: string } | null;
+  info: {
+    channel: { path: string };
+  };
+  events: { id: string; payload: unknown }[];
+}
+
+// Events left out of the response are dropped; events with an error are rejected
+interface PublishResponse {
+  events: { id: string; payload?: unknown; error?: string }[];
+}
+
+const authority = new GameRoomAuthority(
+  new DynamoDbRoomStateStore(env.GAME_ROOM_STATE_TABLE),
+  new AppSyncHttpEventChannel({
+    httpDomain: env.GAME_EVENTS_HTTP_DOMAIN,
+    region: env.AWS_REGION,
+    credentials: {
+      accessKeyId: env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+      sessionToken: env.AWS_SESSION_TOKEN,
+    },
+  }),
+  new DynamoDbPlayerRecordStore(env.PLAYER_TABLE)
+);
+
+// Lambda sessions are named after the function, so this only matches the engine's own publishes
+function isEngineIdentity(identity: PublishRequest['identity']): boolean {
+  return Boolean(identity?.userArn?.endsWith(`/${env.AWS_LAMBDA_FUNCTION_NAME}`));
+}
+
+export const handler = async (request: PublishRequest): Promise<PublishResponse> => {
+  // The engine's own broadcasts have already been validated
+  if (isEngineIdentity(request.identity)) {
+    return { events: request.events.map(({ id, payload }) => ({ id, payload })) };
+  }
+
+  const events: PublishResponse['events'] = [];
+
+  // Client events are processed in order; accepted ones are re-published by the engine
+  // together with their outcomes so every client sees them in the same sequence
+  for (const { id, payload } of request.events) {
+    const gameEvent = decodeEventPayload(payload);
+
+    if (!gameEvent) {
+      events.push({ id, error: 'Malformed game event' });
+      continue;
+    }
+
+    if (getRoomChannelPath(gameEvent.roomCode) !== request.info.channel.path) {
+      events.push({ id, error: 'Event does not belong to this channel' });
+      continue;
+    }
+
+    try {
+      // Guests publish with their identity pool identity, which outlasts any one player id
+      const result = await authority.handleEvent(gameEvent, request.identity?.cognitoIdentityId);
+      if (!result.isValid) {
+        events.push({ id, error: result.error });
+      }
+    } catch (error) {
+      console.error('game-engine: Failed to process event:', gameEvent.type, error);
+      events.push({ id, error: 'Game engine failed to process the event' });
+    }
+  }
+
+  return { events };
+};
@@ -0,0 +1,64 @@
+import { GameEvent } from '../../../src/types/game';
+import { RoomState } from '../../../src/utils/gameEngine';
+import { GameEventChannel, PlayerRecordStore, RoomStateStore, StaleRoomStateError } from './authority';
+
+// In-memory stand-ins for the room store, event channel and player records, for tests and local runs
+
+export class InMemoryRoomStateStore implements RoomStateStore {
+  private rooms: Map<string, string> = new Map(); // roomCode -> serialized RoomState
+
+  async load(roomCode: string): Promise<RoomState | null> {
+    const serialized = this.rooms.get(roomCode);
+    return serialized ? JSON.parse(serialized) : null;
+  }
+
+  async save(room: RoomState, expectedVersion: number): Promise<void> {
+    const current = await this.load(room.game.roomCode);
+    if ((current?.version ?? 0) !== expectedVersion) {
+      throw new StaleRoomStateError(room.game.roomCode);
+    }
+    this.rooms.set(room.game.roomCode, JSON.stringify(room));
+  }
+}
+
+export class InMemoryGameEventChannel implements GameEventChannel {
+  private published: Map<string, GameEvent[]> = new Map(); // roomCode -> events in publish order
+  private subscribers: Map<string, Set<(event: GameEvent) => void>> = new Map();
+
+  async publish(roomCode: string, events: GameEvent[]): Promise<void> {
+    const roomEvents = this.published.get(roomCode) ?? [];
+    this.published.set(roomCode, roomEvents);
+
+    for (const event of events) {
+      roomEvents.push(event);
+      this.subscribers.get(roomCode)?.forEach(callback => callback(event));
+    }
+  }
+
+  subscribe(roomCode: string, callback: (event: GameEvent) => void): () => void {
+    if (!this.subscribers.has(roomCode)) {
+      this.subscribers.set(roomCode, new Set());
+    }
+    this.subscribers.get(roomCode)!.add(callback);
+
+    return () => {
+      this.subscribers.get(roomCode)?.delete(callback);
+    };
+  }
+
+  getEvents(roomCode: string): GameEvent[] {
+    return [...(this.published.get(roomCode) ?? [])];
+  }
+}
+
+export class InMemoryPlayerRecordStore implements PlayerRecordStore {
+  private deleted: string[] = []; // playerIds in the order their records were removed
+
+  async delete(playerId: string): Promise<void> {
+    this.deleted.push(playerId);
+  }
+
+  getDeleted(): string[] {
+    return [...this.deleted];
+  }
+}
@@ -0,0 +1,8 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+// Authoritative game engine behind the AppSync Events channel namespace
+export const gameEngine = defineFunction({
+  name: 'game-engine',
+  entry: './handler.ts',
+  timeoutSeconds: 10,
+});
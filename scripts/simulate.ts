@@ -0,0 +1,79 @@
+// Plays bot-only games through the game engine and prints how they went, to help tune house rules.
+//
+//   npm run simulate -- --games 2000 --players 5,7 --tie resistance --special merlin,assassin
+//
+// Options:
+//   --games <n>        Games per player count (default 1000)
+//   --players <list>   Player counts, comma separated (default 5-10)
+//   --resistance <s>   Strategy the resistance plays: rule-based or random (default rule-based)
+//   --spies <s>        Strategy the spies play: rule-based or random (default rule-based)
+//   --tie <team>       Who wins a tie after five missions: spy or resistance (default spy)
+//   --vote-track <n>   Rejected teams in a row before the spies win (default 5)
+//   --special <list>   Special roles in play, comma separated (default none)
+//
+// Type-checked with: npx tsc -p scripts/tsconfig.json --noEmit
+
+import { parseArgs } from 'node:util';
+import { DEFAULT_ROOM_SETTINGS, RoomSettings } from '../src/types/game';
+import { isBotStrategyName } from '../src/utils/bots';
+import { validateRoomSettings } from '../src/utils/gameValidation';
+import { SPECIAL_ROLE_ORDER, isSpecialRole } from '../src/utils/specialRoles';
+import { createTeamPolicy, formatReport, simulateGames } from '../src/utils/simulation';
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '1000' },
+    players: { type: 'string', default: '5,6,7,8,9,10' },
+    resistance: { type: 'string', default: 'rule-based' },
+    spies: { type: 'string', default: 'rule-based' },
+    tie: { type: 'string', default: DEFAULT_ROOM_SETTINGS.tieWinner },
+    'vote-track': { type: 'string', default: String(DEFAULT_ROOM_SETTINGS.maxVoteTrack) },
+    special: { type: 'string', default: '' },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`simulate: ${message}`);
+  process.exit(1);
+}
+
+const games = Number(values.games);
+if (!Number.isInteger(games) || games < 1) {
+  fail('--games must be a positive whole number');
+}
+
+const playerCounts = values.players.split(',').map(Number);
+if (playerCounts.some(count => !Number.isInteger(count) || count < 5 || count > 10)) {
+  fail('--players must list player counts from 5 to 10');
+}
+
+if (!isBotStrategyName(values.resistance) || !isBotStrategyName(values.spies)) {
+  fail('--resistance and --spies must be rule-based or random');
+}
+
+const tieWinner = values.tie;
+if (tieWinner !== 'spy' && tieWinner !== 'resistance') {
+  fail('--tie must be spy or resistance');
+}
+
+const specialRoles = values.special ? values.special.split(',') : [];
+const unknownRole = specialRoles.find(role => !isSpecialRole(role));
+if (unknownRole !== undefined) {
+  fail(`Unknown special role "${unknownRole}"; choose from ${SPECIAL_ROLE_ORDER.join(', ')}`);
+}
+
+const settings: Partial<RoomSettings> = {
+  tieWinner,
+  maxVoteTrack: Number(values['vote-track']),
+  specialRoles: specialRoles.filter(isSpecialRole),
+};
+const validation = validateRoomSettings({ ...DEFAULT_ROOM_SETTINGS, ...settings });
+if (!validation.isValid) {
+  fail(validation.error || 'Invalid house rules');
+}
+
+const policy = createTeamPolicy(values.resistance, values.spies);
+playerCounts.forEach(playerCount => {
+  console.log(formatReport(simulateGames(games, { playerCount, settings, policy })));
+  console.log();
+});
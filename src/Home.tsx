@@ -1,21 +1,33 @@
 import { useState, useEffect } from 'react';
 import { testBackendConnectivity } from './test-backend';
 import { useGame } from './context/GameContext';
-import { generateRoomCode } from './utils/gameLogic';
-import { validateRoomCode } from './utils/gameValidation';
+import { generateId, generateRoomCode } from './utils/gameLogic';
+import { generateSessionKey } from './utils/sessionCrypto';
+import { validateRoomCode, validateRoomJoinable } from './utils/gameValidation';
+import { createGameRecord, fetchGameRecord } from './utils/gamePersistence';
+import { clearHostSession, clearPlayerSession, loadHostSession, loadPlayerSession, saveHostSession } from './utils/playerSession';
 import { GameRoom } from './components/GameRoom';
+import { PlayerSession } from './types/game';
 
 function Home() {
   const [backendStatus, setBackendStatus] = useState<'testing' | 'connected' | 'failed'>('testing');
   const [currentView, setCurrentView] = useState<'home' | 'room'>('home');
   const [joinRoomCode, setJoinRoomCode] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // The host seat reserved for this browser when it creates a room (see GameRoom)
+  const [hostSession, setHostSession] = useState<PlayerSession | null>(null);
   const { state, dispatch } = useGame();
 
   useEffect(() => {
     // Generate room code on load
     const roomCode = generateRoomCode();
     dispatch({ type: 'SET_ROOM_CODE', payload: roomCode });
+
+    // Go straight back to the room this browser was playing in (or created) before a refresh
+    const session = loadPlayerSession() ?? loadHostSession();
+    if (session) {
+      resumeRoom(session.roomCode);
+    }
     
     // Test backend connectivity
     testBackendConnectivity()
@@ -27,17 +39,60 @@ function Home() {
       });
   }, [dispatch]);
 
-  const handleNewGame = () => {
+  // Re-enter a room we hold a session for; GameRoom then reclaims the seat. Started games are
+  // fine here since the player already has a seat, but a finished or deleted room is not.
+  const resumeRoom = async (roomCode: string) => {
+    try {
+      const game = await fetchGameRecord(roomCode);
+      if (!game || game.status === 'completed') {
+        clearPlayerSession();
+        clearHostSession();
+        return;
+      }
+
+      // A room this browser created but never sat down in still holds its host seat for us
+      const reserved = loadHostSession();
+
+      dispatch({ type: 'SET_ROOM_CODE', payload: roomCode });
+      dispatch({ type: 'SET_PHASE', payload: 'lobby' }); // Corrected by the room's state-sync snapshot
+      dispatch({ type: 'SET_PLAYERS', payload: [] });
+      dispatch({ type: 'SET_HOST', payload: null });
+      setHostSession(
+        reserved?.roomCode === roomCode ? { playerId: reserved.playerId, sessionKey: reserved.sessionKey } : null
+      );
+      setCurrentView('room');
+    } catch (error) {
+      console.error('Failed to resume room:', error);
+    }
+  };
+
+  const handleNewGame = async () => {
     setError(null);
     const newRoomCode = generateRoomCode();
+
+    // Persist the room so it survives every tab being refreshed
+    try {
+      await createGameRecord(newRoomCode);
+    } catch (error) {
+      console.error('Failed to create game record:', error);
+      setError('Failed to create game. Please try again.');
+      return;
+    }
+
     dispatch({ type: 'SET_ROOM_CODE', payload: newRoomCode });
     dispatch({ type: 'SET_PHASE', payload: 'lobby' });
     dispatch({ type: 'SET_PLAYERS', payload: [] }); // Clear any existing players
+    dispatch({ type: 'SET_HOST', payload: null }); // Set once the game engine has the room
+    // Whoever creates the room hosts it: the engine holds the host seat for this id and key,
+    // which are kept so a refresh before taking the seat can still claim it
+    const reserved: PlayerSession = { playerId: generateId(), sessionKey: generateSessionKey() };
+    saveHostSession(newRoomCode, reserved);
+    setHostSession(reserved);
     setCurrentView('room');
     console.log('New game created with room code:', newRoomCode);
   };
 
-  const handleJoinGame = () => {
+  const handleJoinGame = async () => {
     setError(null);
     
     // Validate room code format
@@ -47,26 +102,30 @@ function Home() {
       return;
     }
 
-    // In a real implementation, we would check if the room exists on the server
-    // For now, we'll simulate room existence validation
     const normalizedCode = joinRoomCode.toUpperCase();
     
-    // Simple validation: room code should be different from current generated code
-    // In real implementation, this would be a server call
-    if (normalizedCode === state.roomCode) {
-      // Allow joining own room for testing
+    // The room must exist and still be open; its players come from the room's state-sync snapshot
+    try {
+      const game = await fetchGameRecord(normalizedCode);
+
+      const joinable = validateRoomJoinable(normalizedCode, game?.status ?? null);
+      if (!joinable.isValid) {
+        setError(joinable.error || 'Cannot join this room');
+        return;
+      }
+
       dispatch({ type: 'SET_ROOM_CODE', payload: normalizedCode });
       dispatch({ type: 'SET_PHASE', payload: 'lobby' });
-      setCurrentView('room');
-      setJoinRoomCode('');
+      dispatch({ type: 'SET_PLAYERS', payload: [] });
+      dispatch({ type: 'SET_HOST', payload: null }); // Learned from the room's state-sync snapshot
+      clearHostSession();
+      setHostSession(null);
+    } catch (error) {
+      console.error('Failed to load game record:', error);
+      setError('Failed to join game. Please try again.');
       return;
     }
 
-    // For demo purposes, accept any valid format room code
-    // In production, this would validate against server
-    dispatch({ type: 'SET_ROOM_CODE', payload: normalizedCode });
-    dispatch({ type: 'SET_PHASE', payload: 'lobby' });
-    dispatch({ type: 'SET_PLAYERS', payload: [] }); // Start with empty player list
     setCurrentView('room');
     setJoinRoomCode('');
   };
@@ -74,13 +133,16 @@ function Home() {
   const handleLeaveRoom = () => {
     setCurrentView('home');
     setError(null);
+    clearHostSession();
+    setHostSession(null);
     // Reset game state but keep the original room code
     dispatch({ type: 'SET_PHASE', payload: 'lobby' });
     dispatch({ type: 'SET_PLAYERS', payload: [] });
+    dispatch({ type: 'SET_HOST', payload: null });
   };
 
   if (currentView === 'room') {
-    return <GameRoom onLeaveRoom={handleLeaveRoom} />;
+    return <GameRoom onLeaveRoom={handleLeaveRoom} hostSession={hostSession} />;
   }
 
   return (
@@ -216,7 +278,7 @@ function Home() {
           <li style={{ marginBottom: '8px' }}>Create a new game to get a room code</li>
           <li style={{ marginBottom: '8px' }}>Share the room code with 4-9 friends</li>
           <li style={{ marginBottom: '8px' }}>Everyone joins using the same room code</li>
-          <li style={{ marginBottom: '8px' }}>When ready, the room creator starts the game</li>
+          <li style={{ marginBottom: '8px' }}>When ready, the host starts the game</li>
           <li>Work together as Resistance or secretly sabotage as Spies!</li>
         </ul>
       </div>
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import Home from '../Home';
+import { loadHostSession, loadPlayerSession, saveHostSession, savePlayerSession } from '../utils/playerSession';
+import { generateSessionKey } from '../utils/sessionCrypto';
 
 // Mock the useGame hook
 const mockDispatch = vi.fn();
@@ -32,11 +34,20 @@ vi.mock('../test-backend', () => ({
   testBackendConnectivity: () => Promise.resolve(true),
 }));
 
+// Mock the persisted Game records
+const mockCreateGameRecord = vi.fn();
+const mockFetchGameRecord = vi.fn();
+vi.mock('../utils/gamePersistence', () => ({
+  createGameRecord: (...args: unknown[]) => mockCreateGameRecord(...args),
+  fetchGameRecord: (...args: unknown[]) => mockFetchGameRecord(...args),
+}));
+
 // Mock the GameRoom component
 vi.mock('../components/GameRoom', () => ({
-  GameRoom: ({ onLeaveRoom }: { onLeaveRoom: () => void }) => (
+  GameRoom: ({ onLeaveRoom, hostSession }: { onLeaveRoom: () => void; hostSession: { playerId: string } | null }) => (
     <div>
       <h2>Mock Game Room</h2>
+      <p>{hostSession ? 'Hosting' : 'Not hosting'}</p>
       <button onClick={onLeaveRoom}>Leave Room</button>
     </div>
   ),
@@ -45,6 +56,9 @@ vi.mock('../components/GameRoom', () => ({
 describe('Home', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
+    mockCreateGameRecord.mockResolvedValue(undefined);
+    mockFetchGameRecord.mockResolvedValue({ roomCode: 'XYZ789', status: 'waiting' });
   });
 
   it('should render home page with room management options', () => {
@@ -63,15 +77,104 @@ describe('Home', () => {
     expect(screen.getByText(/Your room code:/)).toBeInTheDocument();
   });
 
-  it('should handle new game creation', () => {
+  it('should handle new game creation', async () => {
     render(<Home />);
     
     const newGameButton = screen.getByRole('button', { name: 'Create New Game' });
     fireEvent.click(newGameButton);
     
+    await waitFor(() => {
+      expect(screen.getByText('Mock Game Room')).toBeInTheDocument();
+    });
+    expect(mockCreateGameRecord).toHaveBeenCalledWith(expect.stringMatching(/^[A-Z0-9]{6}$/));
     expect(mockDispatch).toHaveBeenCalledWith(
       expect.objectContaining({ type: 'SET_ROOM_CODE' })
     );
+    // The creator enters the room holding the host seat they reserve
+    expect(screen.getByText('Hosting')).toBeInTheDocument();
+    expect(loadHostSession()?.roomCode).toBe(mockCreateGameRecord.mock.calls[0][0]);
+  });
+
+  it('should return to a created room still holding the host seat after a refresh', async () => {
+    saveHostSession('XYZ789', { playerId: 'host', sessionKey: generateSessionKey() });
+    render(<Home />);
+
+    expect(await screen.findByText('Hosting')).toBeInTheDocument();
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_ROOM_CODE', payload: 'XYZ789' });
+  });
+
+  it('should give up the reserved host seat when leaving the room', async () => {
+    render(<Home />);
+    fireEvent.click(screen.getByRole('button', { name: 'Create New Game' }));
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Leave Room' }));
+
+    expect(loadHostSession()).toBeNull();
+  });
+
+  it('should stay on the home page if the game record cannot be created', async () => {
+    mockCreateGameRecord.mockRejectedValue(new Error('Network error'));
+    render(<Home />);
+    
+    fireEvent.click(screen.getByRole('button', { name: 'Create New Game' }));
+    
+    expect(await screen.findByText('Failed to create game. Please try again.')).toBeInTheDocument();
+    expect(screen.queryByText('Mock Game Room')).not.toBeInTheDocument();
+  });
+
+  it('should enter an existing room and leave its roster to the room', async () => {
+    render(<Home />);
+    
+    fireEvent.change(screen.getByPlaceholderText('ABC123'), { target: { value: 'xyz789' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Join Game' }));
+    
+    await waitFor(() => {
+      expect(screen.getByText('Mock Game Room')).toBeInTheDocument();
+    });
+    expect(mockFetchGameRecord).toHaveBeenCalledWith('XYZ789');
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_PLAYERS', payload: [] });
+    expect(screen.getByText('Not hosting')).toBeInTheDocument();
+  });
+
+  it('should not join a room that does not exist', async () => {
+    mockFetchGameRecord.mockResolvedValue(null);
+    render(<Home />);
+    
+    fireEvent.change(screen.getByPlaceholderText('ABC123'), { target: { value: 'XYZ789' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Join Game' }));
+    
+    expect(await screen.findByText('Room XYZ789 does not exist')).toBeInTheDocument();
+    expect(screen.queryByText('Mock Game Room')).not.toBeInTheDocument();
+  });
+
+  it('should not join a game that has already started', async () => {
+    mockFetchGameRecord.mockResolvedValue({ roomCode: 'XYZ789', status: 'in_progress' });
+    render(<Home />);
+    
+    fireEvent.change(screen.getByPlaceholderText('ABC123'), { target: { value: 'XYZ789' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Join Game' }));
+    
+    expect(await screen.findByText('The game in room XYZ789 has already started')).toBeInTheDocument();
+  });
+
+  it('should return to the room of a saved session, even mid-game', async () => {
+    savePlayerSession('XYZ789', { playerId: 'p1', sessionKey: generateSessionKey() });
+    mockFetchGameRecord.mockResolvedValue({ roomCode: 'XYZ789', status: 'in_progress' });
+    render(<Home />);
+
+    expect(await screen.findByText('Mock Game Room')).toBeInTheDocument();
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_ROOM_CODE', payload: 'XYZ789' });
+  });
+
+  it('should forget a saved session once its game has finished', async () => {
+    savePlayerSession('XYZ789', { playerId: 'p1', sessionKey: generateSessionKey() });
+    mockFetchGameRecord.mockResolvedValue({ roomCode: 'XYZ789', status: 'completed' });
+    render(<Home />);
+
+    await waitFor(() => {
+      expect(loadPlayerSession()).toBeNull();
+    });
+    expect(screen.queryByText('Mock Game Room')).not.toBeInTheDocument();
   });
 
   it('should validate room code input', () => {
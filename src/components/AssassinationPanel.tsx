@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { useGame } from '../context/GameContext';
+import { createGameEvent } from '../utils/gameLogic';
+
+interface AssassinationPanelProps {
+  currentPlayerId: string;
+  isConnected: boolean;
+  publishEvent?: (event: any) => Promise<void>;
+  onError?: (error: string) => void;
+}
+
+// After the resistance wins three missions, the Assassin gets one guess at Merlin
+export function AssassinationPanel({
+  currentPlayerId,
+  isConnected,
+  publishEvent,
+  onError
+}: AssassinationPanelProps) {
+  const { state } = useGame();
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [hasSubmitted, setHasSubmitted] = useState(false);
+
+  const currentPlayer = state.players.find(p => p.id === currentPlayerId);
+  const isAssassin = currentPlayer?.role === 'assassin';
+
+  // The engine decides the outcome and broadcasts game-ended to everyone, including us
+  const handleAssassinate = async () => {
+    if (!isAssassin || !targetId || !publishEvent || hasSubmitted) return;
+
+    setHasSubmitted(true);
+    try {
+      await publishEvent(createGameEvent(
+        'assassination-attempted',
+        state.roomCode,
+        currentPlayerId,
+        { targetId }
+      ));
+    } catch (error) {
+      console.error('Failed to submit assassination target:', error);
+      onError?.('Failed to submit your target. Please try again.');
+      setHasSubmitted(false);
+    }
+  };
+
+  if (state.phase !== 'assassination') {
+    return null;
+  }
+
+  const canSubmit = isAssassin && isConnected && !!targetId && !hasSubmitted;
+
+  return (
+    <div style={{
+      backgroundColor: '#f8f9fa',
+      padding: '20px',
+      borderRadius: '8px',
+      border: '2px solid #dc3545',
+      marginTop: '20px'
+    }}>
+      <h3 style={{ margin: '0 0 15px 0', color: '#495057' }}>Assassination</h3>
+
+      {!isAssassin ? (
+        <p style={{ margin: 0, color: '#6c757d' }}>
+          The resistance completed three missions. Waiting for the Assassin to name Merlin...
+        </p>
+      ) : hasSubmitted ? (
+        <p style={{ margin: 0, color: '#6c757d' }}>Target submitted. Waiting for the result...</p>
+      ) : (
+        <>
+          <p style={{ margin: '0 0 15px 0' }}>
+            Name the player you believe is Merlin. Find them and the spies win.
+          </p>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))',
+            gap: '10px',
+            marginBottom: '15px'
+          }}>
+            {state.players
+              .filter(p => p.id !== currentPlayerId)
+              .map(player => (
+                <button
+                  key={player.id}
+                  onClick={() => setTargetId(player.id)}
+                  style={{
+                    padding: '10px',
+                    borderRadius: '6px',
+                    border: `2px solid ${targetId === player.id ? '#dc3545' : '#dee2e6'}`,
+                    backgroundColor: targetId === player.id ? '#f8d7da' : '#ffffff',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {player.name}
+                </button>
+              ))}
+          </div>
+          <button
+            onClick={handleAssassinate}
+            disabled={!canSubmit}
+            style={{
+              width: '100%',
+              padding: '12px',
+              backgroundColor: canSubmit ? '#dc3545' : '#ccc',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: canSubmit ? 'pointer' : 'not-allowed',
+              fontSize: '16px',
+              fontWeight: 'bold'
+            }}
+          >
+            Assassinate
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
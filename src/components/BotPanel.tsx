@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useGame } from '../context/GameContext';
+import { generateId } from '../utils/gameLogic';
+import { BOT_STRATEGIES, BOT_STRATEGY_ORDER } from '../utils/bots';
+import { BotStrategyName, GameEvent } from '../types/game';
+
+type PublishEvent = (event: Omit<GameEvent, 'roomCode' | 'playerId' | 'timestamp'>) => Promise<void>;
+
+interface BotPanelProps {
+  isConnected: boolean;
+  publishEvent?: PublishEvent;
+  onError: (error: string) => void;
+}
+
+// The host fills empty lobby seats with bots
+export function BotPanel({ isConnected, publishEvent, onError }: BotPanelProps) {
+  const { state } = useGame();
+  const [strategy, setStrategy] = useState<BotStrategyName>('rule-based');
+  const isFull = state.players.length >= 10;
+  const canAdd = isConnected && !!publishEvent && !isFull;
+
+  // The first of "Bot 1", "Bot 2", ... nobody in the room is called yet
+  const nextBotName = () => {
+    const taken = new Set([...state.players, ...state.spectators].map(p => p.name.toLowerCase()));
+    let number = 1;
+    while (taken.has(`bot ${number}`)) {
+      number++;
+    }
+    return `Bot ${number}`;
+  };
+
+  const handleAddBot = async () => {
+    if (!canAdd || !publishEvent) return;
+
+    const data = { botId: generateId(), botName: nextBotName(), botStrategy: strategy };
+
+    try {
+      await publishEvent({ type: 'bot-added', data });
+    } catch (error) {
+      console.error('Failed to publish bot-added event:', error);
+      onError('Failed to add a bot');
+    }
+  };
+
+  return (
+    <div style={{
+      backgroundColor: '#f8f9fa',
+      padding: '15px',
+      borderRadius: '8px',
+      border: '1px solid #dee2e6',
+      marginBottom: '20px'
+    }}>
+      <h3 style={{ margin: '0 0 10px 0', color: '#495057' }}>Bots</h3>
+      <p style={{ margin: '0 0 10px 0', fontSize: '13px', color: '#6c757d' }}>
+        {BOT_STRATEGIES[strategy].description}
+      </p>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <select
+          aria-label="Bot strategy"
+          value={strategy}
+          onChange={e => setStrategy(e.target.value as BotStrategyName)}
+        >
+          {BOT_STRATEGY_ORDER.map(name => (
+            <option key={name} value={name}>{BOT_STRATEGIES[name].name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAddBot}
+          disabled={!canAdd}
+          style={{
+            padding: '8px 16px',
+            backgroundColor: canAdd ? '#607d8b' : '#ccc',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: canAdd ? 'pointer' : 'not-allowed'
+          }}
+        >
+          Add Bot
+        </button>
+      </div>
+    </div>
+  );
+}
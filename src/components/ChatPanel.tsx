@@ -0,0 +1,164 @@
+import { useRef, useState } from 'react';
+import { useGame } from '../context/GameContext';
+import { createGameEvent } from '../utils/gameLogic';
+import { validateChatMessage } from '../utils/gameValidation';
+import { getSpyChatMembers, isChatMuted, isChatRateLimited, prepareChatText } from '../utils/chat';
+import { ChatChannel, MAX_CHAT_MESSAGE_LENGTH } from '../types/game';
+
+interface ChatPanelProps {
+  currentPlayerId: string;
+  isConnected: boolean;
+  publishEvent?: (event: any) => Promise<void>;
+  onError?: (error: string) => void;
+}
+
+// Room chat, plus the spies' private channel when the house rules allow it
+export function ChatPanel({
+  currentPlayerId,
+  isConnected,
+  publishEvent,
+  onError
+}: ChatPanelProps) {
+  const { state } = useGame();
+  const [text, setText] = useState('');
+  const [channel, setChannel] = useState<ChatChannel>('room');
+  const [authorFilter, setAuthorFilter] = useState('');
+  const sentAtRef = useRef<number[]>([]); // When we sent our recent messages, to hold back before the engine refuses
+
+  const canUseSpyChat = getSpyChatMembers(state.players, state.settings).some(p => p.id === currentPlayerId);
+  const activeChannel: ChatChannel = canUseSpyChat ? channel : 'room';
+  const isMuted = isChatMuted(state.phase, state.settings);
+  const canSend = isConnected && !!publishEvent && !isMuted;
+
+  const playerName = (playerId: string) => state.players.find(p => p.id === playerId)?.name ?? 'Unknown';
+  const messages = authorFilter
+    ? state.chatMessages.filter(message => message.playerId === authorFilter)
+    : state.chatMessages;
+
+  const handleSend = async () => {
+    if (!canSend || !publishEvent) return;
+
+    const validation = validateChatMessage(text, activeChannel);
+    if (!validation.isValid) {
+      onError?.(validation.error || 'Invalid chat message');
+      return;
+    }
+
+    const now = Date.now();
+    if (isChatRateLimited(sentAtRef.current, now)) {
+      onError?.('You are sending messages too quickly');
+      return;
+    }
+
+    const event = createGameEvent('chat-message', state.roomCode, currentPlayerId, {
+      channel: activeChannel,
+      text: prepareChatText(text),
+    });
+
+    try {
+      await publishEvent(event);
+      sentAtRef.current = [...sentAtRef.current, now];
+      setText(''); // The message shows up once the game engine relays it
+    } catch (error) {
+      console.error('Failed to publish chat-message event:', error);
+      onError?.('Failed to send your message. Please try again.');
+    }
+  };
+
+  return (
+    <div style={{
+      backgroundColor: '#f8f9fa',
+      padding: '15px',
+      borderRadius: '8px',
+      border: '1px solid #dee2e6',
+      marginTop: '20px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <h3 style={{ margin: 0, color: '#495057' }}>Chat</h3>
+        <label style={{ fontSize: '12px', color: '#6c757d' }}>
+          Show messages from:{' '}
+          <select value={authorFilter} onChange={e => setAuthorFilter(e.target.value)}>
+            <option value="">Everyone</option>
+            {state.players.map(player => (
+              <option key={player.id} value={player.id}>{player.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div
+        data-testid="chat-messages"
+        style={{
+          maxHeight: '200px',
+          overflowY: 'auto',
+          backgroundColor: '#ffffff',
+          border: '1px solid #dee2e6',
+          borderRadius: '4px',
+          padding: '8px',
+          marginBottom: '10px',
+          fontSize: '14px'
+        }}
+      >
+        {messages.length === 0 ? (
+          <div style={{ color: '#6c757d' }}>No messages yet.</div>
+        ) : (
+          messages.map((message, index) => (
+            <div key={`${message.playerId}-${message.timestamp}-${index}`} style={{ marginBottom: '4px' }}>
+              {message.channel === 'spies' && (
+                <span style={{ color: '#f44336', fontWeight: 'bold' }}>[Spies] </span>
+              )}
+              <strong>{playerName(message.playerId)}:</strong> {message.text}
+            </div>
+          ))
+        )}
+      </div>
+
+      {isMuted ? (
+        <p style={{ margin: 0, fontSize: '13px', color: '#6c757d' }}>
+          Chat is muted while the mission is underway.
+        </p>
+      ) : (
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {canUseSpyChat && (
+            <select
+              aria-label="Chat channel"
+              value={activeChannel}
+              onChange={e => setChannel(e.target.value as ChatChannel)}
+            >
+              <option value="room">Everyone</option>
+              <option value="spies">Spies only</option>
+            </select>
+          )}
+          <input
+            type="text"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                handleSend();
+              }
+            }}
+            placeholder={activeChannel === 'spies' ? 'Message the other spies...' : 'Message the room...'}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            disabled={!canSend}
+            style={{ flex: 1, padding: '8px', border: '1px solid #ccc', borderRadius: '4px' }}
+          />
+          <button
+            onClick={handleSend}
+            disabled={!canSend || text.trim().length === 0}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: canSend && text.trim().length > 0 ? '#2196F3' : '#ccc',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: canSend && text.trim().length > 0 ? 'pointer' : 'not-allowed'
+            }}
+          >
+            Send
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
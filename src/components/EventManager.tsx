@@ -1,7 +1,8 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { Amplify } from 'aws-amplify';
 import { events } from 'aws-amplify/data';
-import { GameEvent } from '../types/game';
+import { GameEvent, HEARTBEAT_INTERVAL_MS } from '../types/game';
+import { signEvent } from '../utils/sessionCrypto';
 import outputs from '../../amplify_outputs.json';
 
 // Configure Amplify with outputs
@@ -123,6 +124,17 @@ class AppSyncEventsManager {
     }
   }
 
+  // Tell the game engine this player's tab is still open
+  async sendHeartbeat(roomCode: string, playerId: string, sessionKey: string): Promise<void> {
+    await this.publish(roomCode, await signEvent(sessionKey, {
+      type: 'player-heartbeat',
+      roomCode,
+      playerId,
+      timestamp: Date.now(),
+      data: {},
+    }));
+  }
+
   disconnect(roomCode: string): void {
     const channelPath = `/default/game-room-${roomCode}`;
     const connection = this.connections.get(channelPath);
@@ -136,17 +148,24 @@ class AppSyncEventsManager {
   }
 }
 
-// Hook for using EventManager in components
+// Hook for using EventManager in components. Events are signed with `sessionKey`, the key of the
+// seat (or spectator session) this client holds; the game engine rejects what is not signed.
 export function useEventManager(
   roomCode: string,
   playerId: string,
-  onEvent: (event: GameEvent) => void
+  onEvent: (event: GameEvent) => void,
+  sessionKey?: string
 ) {
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
   const unsubscribeRef = useRef<(() => void) | null>(null);
   const reconnectTimeoutRef = useRef<number | null>(null);
+  // Latest handler and session key, so neither a new callback nor joining forces a reconnect
+  const onEventRef = useRef(onEvent);
+  const sessionKeyRef = useRef(sessionKey);
+  onEventRef.current = onEvent;
+  sessionKeyRef.current = sessionKey;
   const eventsManager = AppSyncEventsManager.getInstance();
   const maxReconnectAttempts = 5;
   const baseReconnectDelay = 1000; // 1 second
@@ -156,12 +175,10 @@ export function useEventManager(
     try {
       console.log('EventManager: Attempting to connect to AWS AppSync Events...');
       
-      // Subscribe to events for this room
+      // Subscribe to events for this room. Everything on the channel comes from the game engine,
+      // our own intents included once it has accepted them, so state only changes from here.
       const unsubscribe = await eventsManager.subscribe(roomCode, (event) => {
-        // Don't process events from the same player to avoid loops
-        if (event.playerId !== playerId) {
-          onEvent(event);
-        }
+        onEventRef.current(event);
       });
       
       unsubscribeRef.current = unsubscribe;
@@ -188,10 +205,13 @@ export function useEventManager(
         setError('Maximum reconnection attempts reached. Please refresh the page.');
       }
     }
-  }, [roomCode, playerId, onEvent, reconnectAttempts, eventsManager]);
+  }, [roomCode, reconnectAttempts, eventsManager]);
 
-  // Publish an event
-  const publishEvent = useCallback(async (event: Omit<GameEvent, 'roomCode' | 'playerId' | 'timestamp'>) => {
+  // Publish an event. Joining hands the engine a new session key, which must sign the join itself.
+  const publishEvent = useCallback(async (
+    event: Omit<GameEvent, 'roomCode' | 'playerId' | 'timestamp'>,
+    signingKey: string | undefined = sessionKeyRef.current
+  ) => {
     if (!isConnected) {
       throw new Error('Not connected to event system');
     }
@@ -204,7 +224,8 @@ export function useEventManager(
     };
 
     try {
-      await eventsManager.publish(roomCode, fullEvent);
+      // Only asking for the state may go unsigned, before this client holds a session
+      await eventsManager.publish(roomCode, signingKey ? await signEvent(signingKey, fullEvent) : fullEvent);
       console.log('EventManager: Published event to AWS AppSync Events:', fullEvent.type);
     } catch (error) {
       console.error('EventManager: Failed to publish event:', error);
@@ -237,16 +258,30 @@ export function useEventManager(
     setError(null);
   }, [roomCode, eventsManager]);
 
-  // Connect on mount and when roomCode/playerId changes
+  // Heartbeat while connected as a player, so the engine notices when this tab goes away
+  useEffect(() => {
+    if (!isConnected || !roomCode || !playerId || !sessionKey) return;
+
+    const interval = window.setInterval(() => {
+      eventsManager.sendHeartbeat(roomCode, playerId, sessionKey).catch(error => {
+        console.error('EventManager: Failed to send heartbeat:', error);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isConnected, roomCode, playerId, sessionKey, eventsManager]);
+
+  // Connect on mount and when roomCode changes; players who have not joined yet
+  // still connect so they can follow the lobby
   useEffect(() => {
-    if (roomCode && playerId) {
+    if (roomCode) {
       connect();
     }
     
     return () => {
       disconnect();
     };
-  }, [roomCode, playerId, connect, disconnect]);
+  }, [roomCode, connect, disconnect]);
 
   return {
     isConnected,
@@ -261,11 +296,12 @@ export function EventManager(props: {
   roomCode: string;
   playerId: string;
   onEvent: (event: GameEvent) => void;
+  sessionKey?: string;
   onConnectionChange: (connected: boolean) => void;
   onError: (error: string) => void;
 }) {
   // This is just a wrapper that uses the hook
-  const result = useEventManager(props.roomCode, props.playerId, props.onEvent);
+  const result = useEventManager(props.roomCode, props.playerId, props.onEvent, props.sessionKey);
   
   // Update connection and error callbacks
   useEffect(() => {
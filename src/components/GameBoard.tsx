@@ -1,20 +1,60 @@
+import { useState } from 'react';
 import { useGame } from '../context/GameContext';
 import { Player } from '../types/game';
+import { createGameEvent } from '../utils/gameLogic';
+import { SPECIAL_ROLES, isSpyRole } from '../utils/specialRoles';
+import { getPossibleRoles, isRoleKnown } from '../utils/roleVisibility';
 
 interface GameBoardProps {
   currentPlayerId: string;
+  isHost?: boolean;
+  isConnected?: boolean;
+  publishEvent?: (event: any) => Promise<void>;
+  onError?: (error: string) => void;
+  showAllRoles?: boolean; // Omniscient spectators see every role
 }
 
-export function GameBoard({ currentPlayerId }: GameBoardProps) {
+export function GameBoard({
+  currentPlayerId,
+  isHost = false,
+  isConnected = false,
+  publishEvent,
+  onError,
+  showAllRoles = false
+}: GameBoardProps) {
   const { state } = useGame();
+  const [draggedPlayerId, setDraggedPlayerId] = useState<string | null>(null);
+
+  // With host-arranged seating, the host drags players between seats before the game starts
+  const canArrangeSeats = state.phase === 'lobby' && state.settings.seating === 'host-arranged' &&
+    isHost && isConnected && !!publishEvent;
+  
+  // Swap the dragged player into the seat they were dropped on
+  const handleDrop = async (targetId: string) => {
+    const draggedId = draggedPlayerId;
+    setDraggedPlayerId(null);
+    if (!canArrangeSeats || !publishEvent || !draggedId || draggedId === targetId) return;
+
+    const seatOrder = state.players.map(p =>
+      p.id === draggedId ? targetId : p.id === targetId ? draggedId : p.id
+    );
+    const event = createGameEvent('seats-arranged', state.roomCode, currentPlayerId, { seatOrder });
+
+    try {
+      await publishEvent(event);
+    } catch (error) {
+      console.error('Failed to arrange seats:', error);
+      onError?.('Failed to arrange seats. Please try again.');
+    }
+  };
   
   // Get current player to determine role visibility
   const currentPlayer = state.players.find(p => p.id === currentPlayerId);
-  const isCurrentPlayerSpy = currentPlayer?.role === 'spy';
+  const currentRole = currentPlayer?.role;
   
-  // Calculate positions for oval layout
-  const getPlayerPosition = (index: number, total: number) => {
-    const angle = (index / total) * 2 * Math.PI - Math.PI / 2; // Start from top
+  // Calculate positions for oval layout; seats run clockwise from the top
+  const getPlayerPosition = (seat: number, total: number) => {
+    const angle = (seat / total) * 2 * Math.PI - Math.PI / 2; // Start from top
     const radiusX = 200; // Horizontal radius
     const radiusY = 120; // Vertical radius
     const centerX = 250; // Center X of the oval
@@ -26,14 +66,17 @@ export function GameBoard({ currentPlayerId }: GameBoardProps) {
     return { x, y };
   };
 
-  // Determine if a player's role should be visible
+  // Determine if a player's role should be visible. Roles we were not told stay at their
+  // redacted default, so a role only counts as known if the room's visibility rules could
+  // have shown it to us (see roleVisibility).
   const shouldShowRole = (player: Player): boolean => {
-    // Spies can see all roles (requirement 5.4)
-    if (isCurrentPlayerSpy) {
+    if (showAllRoles || player.id === currentPlayerId) {
       return true;
     }
-    // Resistance members can only see their own role (requirement 5.5)
-    return player.id === currentPlayerId;
+    if (!currentRole) {
+      return false;
+    }
+    return isRoleKnown(currentRole, player.role, state.settings.visibilityRuleset, state.settings.specialRoles);
   };
 
   // Get role color based on visibility rules
@@ -43,7 +86,7 @@ export function GameBoard({ currentPlayerId }: GameBoardProps) {
     }
     
     // Blue for resistance (requirement 5.2), red for spies (requirement 5.3)
-    return player.role === 'resistance' ? '#2196F3' : '#f44336';
+    return isSpyRole(player.role) ? '#f44336' : '#2196F3';
   };
 
   // Get role text based on visibility rules
@@ -51,7 +94,13 @@ export function GameBoard({ currentPlayerId }: GameBoardProps) {
     if (!shouldShowRole(player)) {
       return '?';
     }
-    return player.role === 'resistance' ? 'R' : 'S';
+    if (player.role === 'resistance' || player.role === 'spy') {
+      return player.role === 'resistance' ? 'R' : 'S';
+    }
+    // Mark roles that more than one role in play is shown as, such as Merlin and Morgana to Percival
+    const ambiguous = player.id !== currentPlayerId && !!currentRole &&
+      getPossibleRoles(currentRole, player.role, state.settings.visibilityRuleset, state.settings.specialRoles).length > 1;
+    return SPECIAL_ROLES[player.role].symbol + (ambiguous ? '?' : '');
   };
 
   return (
@@ -89,9 +138,22 @@ export function GameBoard({ currentPlayerId }: GameBoardProps) {
         backgroundColor: '#ffffff'
       }} />
 
-      {/* Players positioned around the oval */}
-      {state.players.map((player, index) => {
-        const position = getPlayerPosition(index, state.players.length);
+      {/* Seating hint for the host */}
+      {canArrangeSeats && (
+        <div style={{
+          position: 'absolute',
+          top: '10px',
+          left: '10px',
+          fontSize: '12px',
+          color: '#6c757d'
+        }}>
+          Drag players to swap seats
+        </div>
+      )}
+
+      {/* Players positioned around the oval by seat */}
+      {state.players.map((player, seat) => {
+        const position = getPlayerPosition(seat, state.players.length);
         const isLeader = player.id === state.currentLeader;
         const roleColor = getRoleColor(player);
         const roleText = getRoleText(player);
@@ -99,6 +161,11 @@ export function GameBoard({ currentPlayerId }: GameBoardProps) {
         return (
           <div
             key={player.id}
+            data-testid={`seat-${seat}`}
+            draggable={canArrangeSeats}
+            onDragStart={() => setDraggedPlayerId(player.id)}
+            onDragOver={e => canArrangeSeats && e.preventDefault()}
+            onDrop={() => handleDrop(player.id)}
             style={{
               position: 'absolute',
               left: `${position.x - 30}px`,
@@ -116,7 +183,7 @@ export function GameBoard({ currentPlayerId }: GameBoardProps) {
               fontSize: '12px',
               fontWeight: 'bold',
               textAlign: 'center',
-              cursor: 'default'
+              cursor: canArrangeSeats ? 'grab' : 'default'
             }}
           >
             {/* Leader Crown Icon */}
@@ -144,21 +211,23 @@ export function GameBoard({ currentPlayerId }: GameBoardProps) {
               {player.name}
             </div>
             
-            {/* Role Indicator */}
-            <div style={{
-              width: '20px',
-              height: '20px',
-              borderRadius: '50%',
-              backgroundColor: roleColor,
-              color: 'white',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              fontSize: '12px',
-              fontWeight: 'bold'
-            }}>
-              {roleText}
-            </div>
+            {/* Role Indicator - roles are dealt when the game starts */}
+            {state.phase !== 'lobby' && (
+              <div style={{
+                width: '20px',
+                height: '20px',
+                borderRadius: '50%',
+                backgroundColor: roleColor,
+                color: 'white',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '12px',
+                fontWeight: 'bold'
+              }}>
+                {roleText}
+              </div>
+            )}
           </div>
         );
       })}
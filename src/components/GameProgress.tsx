@@ -1,5 +1,28 @@
+import { useState, useEffect } from 'react';
 import { useGame } from '../context/GameContext';
-import { checkGameEnd, validateMissionProgression } from '../utils/gameLogic';
+import {
+  checkGameEnd,
+  getProposalHistory,
+  isTimedPhase,
+  sortProposalsByPlayer,
+  validateMissionProgression
+} from '../utils/gameLogic';
+import { TimedPhase } from '../types/game';
+
+const TIMED_PHASE_LABELS: Record<TimedPhase, string> = {
+  'team-building': 'Team selection',
+  voting: 'Voting',
+  mission: 'Mission',
+  assassination: 'Assassination',
+};
+
+// Format remaining milliseconds as m:ss
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(Math.max(0, ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
 
 interface GameProgressProps {
   currentPlayerId: string;
@@ -7,9 +30,31 @@ interface GameProgressProps {
 
 export function GameProgress({ }: GameProgressProps) {
   const { state } = useGame();
+  const [now, setNow] = useState(() => Date.now());
+  const [sortPlayerId, setSortPlayerId] = useState('');
+
+  // Tick once a second while a phase deadline is running
+  useEffect(() => {
+    if (state.phaseDeadline === null) return;
 
-  // Check game end conditions
-  const gameEndCheck = checkGameEnd(state.resistanceScore, state.spyScore, state.currentMission);
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.phaseDeadline]);
+
+  const remainingMs = state.phaseDeadline !== null ? state.phaseDeadline - now : null;
+
+  // Check game end conditions; once the engine has ended the game its verdict wins,
+  // since a successful assassination overturns the score
+  const gameEndEntry = state.gameLog.find(entry => entry.type === 'game-end');
+  const gameEndCheck: ReturnType<typeof checkGameEnd> = gameEndEntry
+    ? { gameEnded: true, winner: gameEndEntry.data?.winner, reason: gameEndEntry.data?.reason }
+    : state.phase === 'assassination'
+      ? { gameEnded: false }
+      : checkGameEnd(state.resistanceScore, state.spyScore, state.currentMission, state.voteTrack, state.settings);
+  
+  // Fail cards needed to sabotage the current mission
+  const currentRequiredFails = state.settings.missionFailThresholds[state.players.length]?.[state.currentMission - 1] ?? 1;
   
   // Validate mission progression
   const progressionValidation = validateMissionProgression(
@@ -18,6 +63,11 @@ export function GameProgress({ }: GameProgressProps) {
     state.spyScore
   );
 
+  // Every team put to a vote so far, optionally ordered around one player
+  const proposalHistory = getProposalHistory(state.proposals);
+  const sortedProposals = sortPlayerId ? sortProposalsByPlayer(proposalHistory, sortPlayerId) : proposalHistory;
+  const playerName = (playerId: string) => state.players.find(p => p.id === playerId)?.name ?? 'Unknown';
+
   // Don't show during lobby or role assignment
   if (state.phase === 'lobby' || state.phase === 'role-assignment') {
     return null;
@@ -46,6 +96,22 @@ export function GameProgress({ }: GameProgressProps) {
         </div>
       </div>
 
+      {/* Phase Countdown - the game engine resolves the phase when it reaches zero */}
+      {isTimedPhase(state.phase) && remainingMs !== null && (
+        <div style={{ 
+          textAlign: 'center',
+          padding: '8px',
+          marginBottom: '15px',
+          borderRadius: '4px',
+          backgroundColor: remainingMs <= 10_000 ? '#ffebee' : '#f8f9fa',
+          color: remainingMs <= 10_000 ? '#c62828' : '#495057',
+          fontSize: '14px',
+          fontWeight: 'bold'
+        }}>
+          ⏱ {TIMED_PHASE_LABELS[state.phase]} time left: {formatCountdown(remainingMs)}
+        </div>
+      )}
+
       {/* Score Display */}
       <div style={{ 
         display: 'flex', 
@@ -114,6 +180,7 @@ export function GameProgress({ }: GameProgressProps) {
             const missionResult = state.missionHistory.find(m => m.missionNumber === missionNum);
             const isCurrent = missionNum === state.currentMission;
             const isCompleted = missionResult !== undefined;
+            const requiredFails = state.settings.missionFailThresholds[state.players.length]?.[missionNum - 1] ?? 1;
             
             let backgroundColor = '#e9ecef';
             let borderColor = '#dee2e6';
@@ -136,6 +203,7 @@ export function GameProgress({ }: GameProgressProps) {
               <div
                 key={missionNum}
                 style={{
+                  position: 'relative',
                   width: '40px',
                   height: '40px',
                   borderRadius: '50%',
@@ -149,14 +217,29 @@ export function GameProgress({ }: GameProgressProps) {
                   color: textColor
                 }}
                 title={
-                  isCompleted 
+                  (isCompleted 
                     ? `Mission ${missionNum}: ${missionResult?.outcome}`
                     : isCurrent 
                       ? `Current Mission: ${missionNum}`
-                      : `Upcoming Mission: ${missionNum}`
+                      : `Upcoming Mission: ${missionNum}`) +
+                  (requiredFails > 1 ? ` (${requiredFails} fails required)` : '')
                 }
               >
                 {icon}
+                {requiredFails > 1 && (
+                  <div style={{
+                    position: 'absolute',
+                    bottom: '-8px',
+                    right: '-8px',
+                    backgroundColor: '#c62828',
+                    color: 'white',
+                    borderRadius: '8px',
+                    padding: '1px 4px',
+                    fontSize: '9px'
+                  }}>
+                    {requiredFails}F
+                  </div>
+                )}
               </div>
             );
           })}
@@ -171,9 +254,141 @@ export function GameProgress({ }: GameProgressProps) {
             ? `Mission ${state.currentMission} of 5 maximum`
             : 'All missions completed'
           }
+          {currentRequiredFails > 1 && ` - ${currentRequiredFails} fails required`}
         </div>
       </div>
 
+      {/* Vote Track - consecutive rejected proposals for this mission */}
+      <div style={{ marginBottom: '15px' }}>
+        <div style={{ 
+          fontSize: '14px', 
+          fontWeight: 'bold', 
+          marginBottom: '8px',
+          textAlign: 'center'
+        }}>
+          Vote Track ({state.voteTrack} / {state.settings.maxVoteTrack} rejected)
+        </div>
+        <div style={{ 
+          display: 'flex', 
+          gap: '5px', 
+          justifyContent: 'center',
+          alignItems: 'center'
+        }}>
+          {Array.from({ length: state.settings.maxVoteTrack }, (_, index) => index + 1).map(trackNum => {
+            const isFilled = trackNum <= state.voteTrack;
+            const isFinal = trackNum === state.settings.maxVoteTrack;
+            
+            return (
+              <div
+                key={trackNum}
+                style={{
+                  width: '28px',
+                  height: '28px',
+                  borderRadius: '4px',
+                  backgroundColor: isFilled ? '#ffebee' : '#e9ecef',
+                  border: `2px solid ${isFilled ? '#f44336' : isFinal ? '#c62828' : '#dee2e6'}`,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: '12px',
+                  fontWeight: 'bold',
+                  color: isFilled ? '#c62828' : '#6c757d'
+                }}
+                title={isFinal ? `Rejection ${trackNum}: Spies win` : `Rejection ${trackNum}`}
+              >
+                {isFilled ? '✗' : trackNum}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Proposal History - who proposed which team and how everyone voted */}
+      {proposalHistory.length > 0 && (
+        <div style={{ marginBottom: '15px' }}>
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: '8px'
+          }}>
+            <div style={{ fontSize: '14px', fontWeight: 'bold' }}>
+              Proposal History
+            </div>
+            <label style={{ fontSize: '12px', color: '#6c757d' }}>
+              Sort by player:{' '}
+              <select value={sortPlayerId} onChange={e => setSortPlayerId(e.target.value)}>
+                <option value="">In order proposed</option>
+                {state.players.map(player => (
+                  <option key={player.id} value={player.id}>{player.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse', textAlign: 'center' }}>
+              <thead>
+                <tr>
+                  <th style={{ padding: '4px' }}>Mission</th>
+                  <th style={{ padding: '4px' }}>Leader</th>
+                  <th style={{ padding: '4px', textAlign: 'left' }}>Team</th>
+                  {state.players.map(player => (
+                    <th
+                      key={player.id}
+                      style={{ padding: '4px', backgroundColor: player.id === sortPlayerId ? '#fff3e0' : undefined }}
+                    >
+                      {player.name}
+                    </th>
+                  ))}
+                  <th style={{ padding: '4px' }}>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedProposals.map(proposal => (
+                  <tr
+                    key={`${proposal.missionNumber}-${proposal.attempt}`}
+                    data-testid={`proposal-${proposal.missionNumber}-${proposal.attempt}`}
+                    style={{ borderTop: '1px solid #dee2e6' }}
+                  >
+                    <td style={{ padding: '4px' }}>{proposal.missionNumber}.{proposal.attempt}</td>
+                    <td style={{ padding: '4px' }}>{playerName(proposal.leader)}</td>
+                    <td style={{ padding: '4px', textAlign: 'left' }}>{proposal.team.map(playerName).join(', ')}</td>
+                    {state.players.map(player => {
+                      const vote = proposal.votes[player.id];
+                      return (
+                        <td
+                          key={player.id}
+                          title={proposal.team.includes(player.id) ? 'On the team' : undefined}
+                          style={{
+                            padding: '4px',
+                            color: vote === undefined ? '#6c757d' : vote ? '#2e7d32' : '#c62828',
+                            fontWeight: proposal.team.includes(player.id) ? 'bold' : 'normal',
+                            backgroundColor: player.id === sortPlayerId ? '#fff3e0' : undefined
+                          }}
+                        >
+                          {vote === undefined ? '–' : vote ? '✓' : '✗'}
+                        </td>
+                      );
+                    })}
+                    <td style={{
+                      padding: '4px',
+                      fontWeight: 'bold',
+                      color: proposal.approved ? '#2e7d32' : '#c62828'
+                    }}>
+                      {proposal.approved ? 'Approved' : 'Rejected'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div style={{ fontSize: '11px', color: '#6c757d', marginTop: '4px' }}>
+            Bold votes are from players on the proposed team. Sorting by a player lists the teams
+            they proposed first, then the teams they were on, then the ones they approved.
+          </div>
+        </div>
+      )}
+
       {/* Current Phase Status */}
       <div style={{ 
         backgroundColor: '#f8f9fa', 
@@ -204,6 +419,8 @@ export function GameProgress({ }: GameProgressProps) {
           }}>
             🎉 {gameEndCheck.winner === 'resistance' ? 'Resistance' : 'Spies'} Win! 
             {gameEndCheck.reason === 'mission-limit' && ' (5 missions completed)'}
+            {gameEndCheck.reason === 'vote-track' && ` (${state.settings.maxVoteTrack} teams rejected in a row)`}
+            {gameEndCheck.reason === 'assassination' && (gameEndCheck.winner === 'spy' ? ' (Merlin was assassinated)' : ' (Merlin survived)')}
           </div>
         )}
         
@@ -249,6 +466,7 @@ function getPhaseDisplayName(phase: string): string {
     case 'voting': return 'Voting on Team';
     case 'mission': return 'Executing Mission';
     case 'mission-result': return 'Mission Results';
+    case 'assassination': return 'Assassin Choosing a Target';
     case 'game-end': return 'Game Complete';
     default: return phase;
   }
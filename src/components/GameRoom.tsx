@@ -1,8 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useGame } from '../context/GameContext';
-import { validateGameStart } from '../utils/gameValidation';
-import { assignRoles, sortPlayersAlphabetically } from '../utils/gameLogic';
-import { GameEvent } from '../types/game';
+import { validateGameStart, validateRoomSettings } from '../utils/gameValidation';
+import { generateId, getGameStatus } from '../utils/gameLogic';
+import { updateGameStatus } from '../utils/gamePersistence';
+import { GameEvent, GameStatus, PlayerRole, PlayerSession } from '../types/game';
+import { openPayload } from '../utils/sessionCrypto';
+import { clearHostSession, clearPlayerSession, loadPlayerSession, recordRoomBan, savePlayerSession } from '../utils/playerSession';
 import { useEventManager } from './EventManager';
 import { PlayerManager } from './PlayerManager';
 import { GameBoard } from './GameBoard';
@@ -10,28 +13,188 @@ import { GameProgress } from './GameProgress';
 import { MissionController } from './MissionController';
 import { VotingController } from './VotingController';
 import { MissionExecution } from './MissionExecution';
+import { RoomSettingsPanel } from './RoomSettingsPanel';
+import { AssassinationPanel } from './AssassinationPanel';
+import { GameSummary } from './GameSummary';
+import { PlayAgainPanel } from './PlayAgainPanel';
+import { RoleCard } from './RoleCard';
+import { ChatPanel } from './ChatPanel';
+import { SpectatorPanel } from './SpectatorPanel';
+import { BotPanel } from './BotPanel';
 
 interface GameRoomProps {
   onLeaveRoom: () => void;
+  hostSession?: PlayerSession | null; // Set when this browser created the room: the host seat it reserves
 }
 
-export function GameRoom({ onLeaveRoom }: GameRoomProps) {
+export function GameRoom({ onLeaveRoom, hostSession = null }: GameRoomProps) {
   const { state, dispatch } = useGame();
   const [error, setError] = useState<string | null>(null);
-  const [currentPlayerId, setCurrentPlayerId] = useState<string | null>(null);
-  const [isRoomCreator, setIsRoomCreator] = useState(false);
+  // A session saved for this room means the tab was refreshed and resumes the same seat
+  const [session, setSession] = useState<PlayerSession | null>(() => {
+    const stored = loadPlayerSession();
+    return stored?.roomCode === state.roomCode ? { playerId: stored.playerId, sessionKey: stored.sessionKey } : null;
+  });
+  const sessionRef = useRef<PlayerSession | null>(session);
+  // Set while watching as a spectator; the id is the spectator's, never a seat at the table
+  const [spectatorSession, setSpectatorSession] = useState<PlayerSession | null>(null);
+  const spectatorRef = useRef<PlayerSession | null>(null);
+  const delayedEventsRef = useRef<number[]>([]); // Timers holding back events for an omniscient spectator
+  const delayedUntilRef = useRef(0); // When the last event held back for an omniscient spectator is shown
+  const persistedStatusRef = useRef<GameStatus>('waiting');
+  const pendingSyncRef = useRef<string | null>(null); // Request id of our outstanding state-sync-requested
+  const resumingRef = useRef(false); // Sent player-reconnected and waiting for the snapshot to confirm it
+  const roomCreatedRef = useRef(false); // Published room-created for the room this browser created
+  const currentPlayerId = session?.playerId ?? null;
+  const isHost = !!currentPlayerId && state.hostId === currentPlayerId;
+  const spectatorId = spectatorSession?.playerId ?? null;
+  const isOmniscientSpectator = !!spectatorId && state.settings.omniscientSpectators;
+
+  const handleJoin = (newSession: PlayerSession | null) => {
+    sessionRef.current = newSession;
+    setSession(newSession);
+
+    if (newSession) {
+      savePlayerSession(state.roomCode, newSession);
+      clearHostSession(); // Seated now, so there is no reserved host seat left to come back for
+    } else {
+      clearPlayerSession();
+    }
+  };
+
+  // Start or stop watching; an omniscient spectator asks for a snapshot with every role sealed for them
+  const handleWatch = (newSession: PlayerSession | null) => {
+    spectatorRef.current = newSession;
+    setSpectatorSession(newSession);
+
+    if (newSession && state.settings.omniscientSpectators && publishEvent) {
+      const requestId = generateId();
+      pendingSyncRef.current = requestId;
+      // Signed with the new spectator's key, or the engine answers without holding any roles for them
+      publishEvent(
+        { type: 'state-sync-requested', data: { requestId, spectatorId: newSession.playerId } },
+        newSession.sessionKey
+      ).catch(error => {
+        console.error('Failed to request state sync:', error);
+      });
+    }
+  };
+
+  // Open the roles sealed for this player (Requirements 5.4, 5.5), or for an omniscient spectator
+  const revealRoles = async (event: GameEvent) => {
+    const session = sessionRef.current ?? spectatorRef.current;
+    if (!session) return; // Not playing in or watching this room
+
+    const sealed = event.data.sealedRoles?.[session.playerId];
+    if (!sealed) {
+      // Spectators only get roles when the room makes them omniscient
+      if (session === sessionRef.current) {
+        setError('Your role could not be delivered');
+      }
+      return;
+    }
+
+    try {
+      const visibleRoles = await openPayload<Record<string, PlayerRole | null>>(session.sessionKey, sealed);
+      dispatch({ type: 'REVEAL_ROLES', payload: visibleRoles });
+    } catch (error) {
+      console.error('Failed to open sealed roles:', error);
+      setError('Your role could not be delivered');
+    }
+  };
+
+  // Open a spy chat message sealed for this player; everyone off the channel opens an empty payload
+  const revealSpyChat = async (event: GameEvent) => {
+    const session = sessionRef.current ?? spectatorRef.current;
+    const sealed = session && event.data.sealedMessage?.[session.playerId];
+    if (!session || !sealed) return;
+
+    try {
+      const message = await openPayload<{ playerId: string; text: string } | null>(session.sessionKey, sealed);
+      if (!message) return;
+      dispatch({
+        type: 'ADD_CHAT_MESSAGE',
+        payload: { playerId: message.playerId, channel: 'spies', text: message.text, timestamp: event.timestamp },
+      });
+    } catch (error) {
+      console.error('Failed to open spy chat message:', error);
+    }
+  };
 
   // Handle incoming game events
   const handleGameEvent = (event: GameEvent) => {
     console.log('GameRoom: Received event:', event.type, event);
+
+    // Snapshots answer one client's request; everyone else is already up to date
+    if (event.type === 'state-sync') {
+      if (event.data.requestId !== pendingSyncRef.current) return;
+      pendingSyncRef.current = null;
+
+      // A seat that is gone from the room (e.g. left the lobby in another tab) cannot be resumed
+      const resumed = sessionRef.current;
+      if (resumingRef.current && resumed) {
+        resumingRef.current = false;
+        if (!event.data.snapshot.players.some((p: { id: string }) => p.id === resumed.playerId)) {
+          handleJoin(null);
+          setError('Your previous seat in this room is no longer available');
+        }
+      }
+    }
+
+    // The host kicked us: give up the seat and stay out of the room
+    if (event.type === 'player-kicked' && event.data.playerId === sessionRef.current?.playerId) {
+      recordRoomBan(state.roomCode);
+      handleJoin(null);
+      setError('You were removed from this room by the host');
+    }
+
     dispatch({ type: 'HANDLE_EVENT', payload: event });
-    
-    // Update current player ID when we join
-    if (event.type === 'player-joined' && !currentPlayerId) {
-      setCurrentPlayerId(event.data.playerId);
+
+    if (event.type === 'roles-assigned' || (event.type === 'state-sync' && event.data.sealedRoles)) {
+      revealRoles(event);
+    }
+
+    if (event.type === 'chat-message' && event.data.sealedMessage) {
+      revealSpyChat(event);
     }
+
+    // What the engine held back for omniscient spectators until the spectator delay had passed
+    if (event.type === 'spectator-feed' && spectatorRef.current) {
+      if (event.data.sealedRoles) {
+        revealRoles(event);
+      }
+      if (event.data.sealedMessage) {
+        revealSpyChat({ ...event, timestamp: event.data.sentAt });
+      }
+    }
+  };
+
+  // Omniscient spectators watch on a delay, so a stream of their screen cannot tip off the table.
+  // Their roles and spy chat are held back by the engine itself; the spectator feed only waits
+  // for the events received before it, so it is never shown out of order.
+  const handleRoomEvent = (event: GameEvent) => {
+    const omniscient = !!spectatorRef.current && state.settings.omniscientSpectators;
+    const delay = !omniscient
+      ? 0
+      : event.type === 'spectator-feed'
+        ? delayedUntilRef.current - Date.now()
+        : state.settings.spectatorDelayMs;
+    if (delay <= 0) {
+      handleGameEvent(event);
+      return;
+    }
+
+    delayedUntilRef.current = Math.max(delayedUntilRef.current, Date.now() + delay);
+
+    const timer = window.setTimeout(() => {
+      delayedEventsRef.current = delayedEventsRef.current.filter(t => t !== timer);
+      handleGameEvent(event);
+    }, delay);
+    delayedEventsRef.current.push(timer);
   };
 
+  useEffect(() => () => delayedEventsRef.current.forEach(timer => clearTimeout(timer)), []);
+
   // Set up event manager for real-time communication
   const { 
     isConnected, 
@@ -41,9 +204,53 @@ export function GameRoom({ onLeaveRoom }: GameRoomProps) {
   } = useEventManager(
     state.roomCode, 
     currentPlayerId || '', 
-    handleGameEvent
+    handleRoomEvent,
+    session?.sessionKey ?? spectatorSession?.sessionKey
   );
 
+  // Ask for the current state whenever we (re)connect, so late joiners and refreshed
+  // tabs start from the room's real state rather than an empty lobby
+  useEffect(() => {
+    if (!isConnected || !publishEvent) return;
+
+    const syncWithRoom = async () => {
+      // A new room first reserves its creator's host seat, signed with the key they will join with.
+      // Back after a refresh, the engine refuses it as the room already exists, which is harmless.
+      if (hostSession && !roomCreatedRef.current) {
+        roomCreatedRef.current = true;
+        await publishEvent({
+          type: 'room-created',
+          data: { hostId: hostSession.playerId, sessionKey: hostSession.sessionKey }
+        }, hostSession.sessionKey);
+      }
+
+      // Reclaim our seat first so the snapshot already shows us connected
+      const resumed = sessionRef.current;
+      if (resumed) {
+        resumingRef.current = true;
+        try {
+          await publishEvent({
+            type: 'player-reconnected',
+            data: { playerId: resumed.playerId }
+          });
+        } catch (error) {
+          console.error('Failed to publish player-reconnected event:', error);
+        }
+      }
+
+      const requestId = generateId();
+      pendingSyncRef.current = requestId;
+      await publishEvent({
+        type: 'state-sync-requested',
+        data: { requestId, spectatorId: spectatorRef.current?.playerId }
+      });
+    };
+
+    syncWithRoom().catch(error => {
+      console.error('Failed to request state sync:', error);
+    });
+  }, [isConnected]);
+
   // Update error state when connection error occurs
   useEffect(() => {
     if (connectionError) {
@@ -51,13 +258,16 @@ export function GameRoom({ onLeaveRoom }: GameRoomProps) {
     }
   }, [connectionError]);
 
-  // Check if current player is the room creator (first player)
+  // The host keeps the Game record's status in step with the phase
   useEffect(() => {
-    if (state.players.length > 0 && currentPlayerId) {
-      const sortedPlayers = sortPlayersAlphabetically(state.players);
-      setIsRoomCreator(sortedPlayers[0].id === currentPlayerId);
-    }
-  }, [state.players, currentPlayerId]);
+    const status = getGameStatus(state.phase);
+    if (!isHost || status === persistedStatusRef.current) return;
+
+    persistedStatusRef.current = status;
+    updateGameStatus(state.roomCode, status).catch(error => {
+      console.error('Failed to update game status:', error);
+    });
+  }, [state.phase, state.roomCode, isHost]);
 
   const handleStartGame = async () => {
     setError(null);
@@ -69,42 +279,42 @@ export function GameRoom({ onLeaveRoom }: GameRoomProps) {
       return;
     }
 
-    // Assign roles to players
-    const playersWithRoles = assignRoles(state.players);
-    dispatch({ type: 'SET_PLAYERS', payload: playersWithRoles });
-
-    // Set first leader (alphabetically first player)
-    const sortedPlayers = sortPlayersAlphabetically(playersWithRoles);
-    const firstLeader = sortedPlayers[0].id;
-    dispatch({ type: 'SET_LEADER', payload: firstLeader });
-
-    // Change phase to role assignment
-    dispatch({ type: 'SET_PHASE', payload: 'role-assignment' });
+    const settingsValidation = validateRoomSettings(state.settings, state.players.length);
+    if (!settingsValidation.isValid) {
+      setError(settingsValidation.error || 'Invalid room settings');
+      return;
+    }
 
-    // Publish game started event with role assignments
+    // The game engine seats the players, assigns roles and picks the first leader, then broadcasts roles-assigned
     try {
       if (publishEvent) {
-        const roleAssignments: Record<string, string> = {};
-        playersWithRoles.forEach(player => {
-          roleAssignments[player.id] = player.role;
-        });
-
         await publishEvent({
-          type: 'roles-assigned',
-          data: {
-            roles: roleAssignments,
-            firstLeader
-          }
+          type: 'game-started',
+          data: {}
         });
       }
     } catch (error) {
-      console.error('Failed to publish roles-assigned event:', error);
+      console.error('Failed to publish game-started event:', error);
       setError('Failed to start game');
     }
   };
 
+  // Spectators stop watching on the way out, so they do not linger in the room's list
+  const handleLeaveRoom = () => {
+    const spectator = spectatorRef.current;
+    if (spectator && publishEvent) {
+      publishEvent({
+        type: 'spectator-left',
+        data: { spectatorId: spectator.playerId }
+      }).catch(error => {
+        console.error('Failed to publish spectator-left event:', error);
+      });
+    }
+    onLeaveRoom();
+  };
+
   const readyPlayers = state.players.filter(p => p.isReady);
-  const canStartGame = isRoomCreator && readyPlayers.length >= 5 && readyPlayers.length <= 10;
+  const canStartGame = isHost && readyPlayers.length >= 5 && readyPlayers.length <= 10;
   const isPlayerJoined = state.players.some(p => p.id === currentPlayerId);
 
   return (
@@ -132,7 +342,7 @@ export function GameRoom({ onLeaveRoom }: GameRoomProps) {
             {isConnected ? 'Connected' : reconnectAttempts > 0 ? `Reconnecting... (${reconnectAttempts})` : 'Disconnected'}
           </div>
           <button 
-            onClick={onLeaveRoom}
+            onClick={handleLeaveRoom}
             style={{ 
               padding: '8px 16px',
               backgroundColor: '#f44336',
@@ -164,23 +374,73 @@ export function GameRoom({ onLeaveRoom }: GameRoomProps) {
         </div>
       )}
 
-      {/* Player Management Component - Only show in lobby phase */}
-      {state.phase === 'lobby' && (
+      {/* Player Management Component - Only show in lobby phase, to anyone not already watching */}
+      {state.phase === 'lobby' && !spectatorSession && (
         <PlayerManager 
           isConnected={isConnected}
           publishEvent={publishEvent}
           onError={setError}
+          onJoin={handleJoin}
+          session={session}
+          reservedSession={hostSession}
+        />
+      )}
+
+      {/* Spectators - Anyone not playing can watch the game */}
+      {!isPlayerJoined && (
+        <SpectatorPanel
+          isConnected={isConnected}
+          publishEvent={publishEvent}
+          onError={setError}
+          onWatch={handleWatch}
+          session={spectatorSession}
+        />
+      )}
+
+      {/* Bots - The host can fill empty seats */}
+      {state.phase === 'lobby' && isHost && currentPlayerId && (
+        <BotPanel
+          isConnected={isConnected}
+          publishEvent={publishEvent}
+          onError={setError}
+        />
+      )}
+
+      {/* House Rules - Lobby settings, editable by the host */}
+      {state.phase === 'lobby' && isPlayerJoined && currentPlayerId && (
+        <RoomSettingsPanel
+          currentPlayerId={currentPlayerId}
+          isHost={isHost}
+          isConnected={isConnected}
+          publishEvent={publishEvent}
+          onError={setError}
         />
       )}
 
       {/* Game Progress - Show when game is in progress */}
-      {state.phase !== 'lobby' && currentPlayerId && (
-        <GameProgress currentPlayerId={currentPlayerId} />
+      {state.phase !== 'lobby' && (currentPlayerId || spectatorId) && (
+        <GameProgress currentPlayerId={(currentPlayerId || spectatorId)!} />
       )}
 
-      {/* Game Board - Show when game is in progress */}
+      {/* Role Card - The player's role and what they were told about others */}
       {state.phase !== 'lobby' && currentPlayerId && (
-        <GameBoard currentPlayerId={currentPlayerId} />
+        <RoleCard currentPlayerId={currentPlayerId} />
+      )}
+
+      {/* Game Board - The table; in the lobby the host can arrange the seats */}
+      {(state.phase !== 'lobby' || isPlayerJoined) && currentPlayerId && (
+        <GameBoard
+          currentPlayerId={currentPlayerId}
+          isHost={isHost}
+          isConnected={isConnected}
+          publishEvent={publishEvent}
+          onError={setError}
+        />
+      )}
+
+      {/* Game Board for spectators - roles stay hidden unless the room makes spectators omniscient */}
+      {spectatorId && !currentPlayerId && (
+        <GameBoard currentPlayerId={spectatorId} showAllRoles={isOmniscientSpectator} />
       )}
 
       {/* Mission Controller - Show during team building phase */}
@@ -213,8 +473,42 @@ export function GameRoom({ onLeaveRoom }: GameRoomProps) {
         />
       )}
 
-      {/* Game Start Section - Only show if player is joined and is room creator and in lobby */}
-      {isPlayerJoined && isRoomCreator && state.phase === 'lobby' && (
+      {/* Assassination Panel - Show when the Assassin gets a shot at Merlin */}
+      {state.phase === 'assassination' && currentPlayerId && (
+        <AssassinationPanel
+          currentPlayerId={currentPlayerId}
+          isConnected={isConnected}
+          publishEvent={publishEvent}
+          onError={setError}
+        />
+      )}
+
+      {/* Game Summary - Everyone's role and how each mission went, once the game is over */}
+      {state.phase === 'game-end' && <GameSummary />}
+
+      {/* Play Again - The host deals another game in the same room once this one is over */}
+      {state.phase === 'game-end' && currentPlayerId && (
+        <PlayAgainPanel
+          currentPlayerId={currentPlayerId}
+          isHost={isHost}
+          isConnected={isConnected}
+          publishEvent={publishEvent}
+          onError={setError}
+        />
+      )}
+
+      {/* Chat - Table talk for everyone in the room, and the spies' private channel */}
+      {isPlayerJoined && currentPlayerId && (
+        <ChatPanel
+          currentPlayerId={currentPlayerId}
+          isConnected={isConnected}
+          publishEvent={publishEvent}
+          onError={setError}
+        />
+      )}
+
+      {/* Game Start Section - Only show if player is joined and is the host and in lobby */}
+      {isPlayerJoined && isHost && state.phase === 'lobby' && (
         <div style={{ marginTop: '20px' }}>
           <button 
             onClick={handleStartGame}
@@ -248,7 +542,9 @@ export function GameRoom({ onLeaveRoom }: GameRoomProps) {
         <ul style={{ margin: 0, paddingLeft: '20px' }}>
           <li>5-10 players required to start</li>
           <li>All players must be ready before starting</li>
-          <li>Room creator can start the game</li>
+          <li>The host can start the game</li>
+          <li>The host sets the house rules before the game starts</li>
+          <li>Leadership passes clockwise around the table</li>
           <li>Share the room code with friends to join</li>
         </ul>
       </div>
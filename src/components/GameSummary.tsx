@@ -0,0 +1,136 @@
+import { useGame } from '../context/GameContext';
+import { getMissionFailThreshold } from '../utils/gameLogic';
+import { getRoleName, isSpyRole } from '../utils/specialRoles';
+import { MissionResult, Team } from '../types/game';
+
+const TEAM_NAMES: Record<Team, string> = {
+  resistance: 'Resistance',
+  spy: 'Spies',
+};
+
+const cellStyle = { padding: '6px 8px', borderBottom: '1px solid #dee2e6', verticalAlign: 'top' as const };
+
+// End-of-game screen: who won and why, every player's role, and how each mission went
+export function GameSummary() {
+  const { state } = useGame();
+
+  if (state.phase !== 'game-end') {
+    return null;
+  }
+
+  const gameEndEntry = state.gameLog.find(entry => entry.type === 'game-end');
+  const winner: Team = gameEndEntry?.data?.winner ?? (state.resistanceScore > state.spyScore ? 'resistance' : 'spy');
+  const reason = gameEndEntry?.data?.reason;
+
+  const playerName = (playerId: string) => state.players.find(p => p.id === playerId)?.name ?? 'Unknown';
+  const namesFor = (mission: MissionResult, vote: boolean) =>
+    Object.entries(mission.votes)
+      .filter(([, approved]) => approved === vote)
+      .map(([playerId]) => playerName(playerId))
+      .join(', ') || '—';
+
+  // Why the game ended, in words
+  const explainEnding = (): string => {
+    switch (reason) {
+      case 'score':
+        return winner === 'resistance'
+          ? 'The resistance completed three missions.'
+          : 'The spies sabotaged three missions.';
+      case 'mission-limit':
+        return state.resistanceScore === state.spyScore
+          ? `All five missions were played and the score was tied, so the house rules gave the game to the ${TEAM_NAMES[winner].toLowerCase()}.`
+          : 'All five missions were played.';
+      case 'vote-track':
+        return `${state.settings.maxVoteTrack} teams were rejected in a row.`;
+      case 'assassination':
+        return winner === 'spy'
+          ? 'The resistance completed three missions, but the Assassin found Merlin.'
+          : 'The resistance completed three missions and the Assassin failed to find Merlin.';
+      default:
+        return '';
+    }
+  };
+
+  return (
+    <div style={{
+      backgroundColor: '#ffffff',
+      padding: '20px',
+      borderRadius: '8px',
+      border: `2px solid ${winner === 'spy' ? '#f44336' : '#2196F3'}`,
+      marginBottom: '20px'
+    }}>
+      <h3 style={{ margin: '0 0 5px 0', color: winner === 'spy' ? '#f44336' : '#2196F3' }}>
+        {TEAM_NAMES[winner]} Win!
+      </h3>
+      <p style={{ margin: '0 0 5px 0', fontSize: '14px', color: '#495057' }}>{explainEnding()}</p>
+      <p style={{ margin: '0 0 15px 0', fontSize: '14px', color: '#495057' }}>
+        Final score: Resistance {state.resistanceScore} – Spies {state.spyScore}
+      </p>
+
+      <h4 style={{ margin: '0 0 10px 0' }}>Roles</h4>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))',
+        gap: '8px',
+        marginBottom: '20px'
+      }}>
+        {state.players.map(player => (
+          <div
+            key={player.id}
+            style={{
+              padding: '8px',
+              borderRadius: '6px',
+              border: `2px solid ${isSpyRole(player.role) ? '#f44336' : '#2196F3'}`,
+              fontSize: '14px'
+            }}
+          >
+            <strong>{player.name}</strong>
+            <div style={{ color: isSpyRole(player.role) ? '#f44336' : '#2196F3' }}>{getRoleName(player.role)}</div>
+          </div>
+        ))}
+      </div>
+
+      <h4 style={{ margin: '0 0 10px 0' }}>Missions</h4>
+      {state.missionHistory.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '14px', color: '#6c757d' }}>No missions were played.</p>
+      ) : (
+        <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left' }}>
+              <th style={cellStyle}>Mission</th>
+              <th style={cellStyle}>Leader</th>
+              <th style={cellStyle}>Team</th>
+              <th style={cellStyle}>Approved</th>
+              <th style={cellStyle}>Rejected</th>
+              <th style={cellStyle}>Fails</th>
+              <th style={cellStyle}>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {state.missionHistory.map(mission => {
+              const fails = mission.missionChoices.filter(choice => !choice).length;
+              const failsNeeded = getMissionFailThreshold(state.players.length, mission.missionNumber, state.settings);
+              return (
+                <tr key={mission.missionNumber}>
+                  <td style={cellStyle}>{mission.missionNumber}</td>
+                  <td style={cellStyle}>{mission.leader ? playerName(mission.leader) : '—'}</td>
+                  <td style={cellStyle}>{mission.selectedPlayers.map(playerName).join(', ')}</td>
+                  <td style={cellStyle}>{namesFor(mission, true)}</td>
+                  <td style={cellStyle}>{namesFor(mission, false)}</td>
+                  <td style={cellStyle}>{fails} of {failsNeeded} needed</td>
+                  <td style={{
+                    ...cellStyle,
+                    fontWeight: 'bold',
+                    color: mission.outcome === 'success' ? '#2e7d32' : '#c62828'
+                  }}>
+                    {mission.outcome === 'success' ? 'Success' : 'Failed'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
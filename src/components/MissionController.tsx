@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { useGame } from '../context/GameContext';
 import { validateTeamSelection } from '../utils/gameValidation';
-import { createGameEvent, getMissionRequirements } from '../utils/gameLogic';
+import { createGameEvent, getMissionRequirements, getMissionFailThreshold } from '../utils/gameLogic';
 
 interface MissionControllerProps {
   currentPlayerId: string;
@@ -16,8 +16,10 @@ export function MissionController({
   publishEvent, 
   onError 
 }: MissionControllerProps) {
-  const { state, dispatch } = useGame();
+  const { state } = useGame();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // The leader's picks until they propose the team; nobody else sees them before the engine relays the proposal
+  const [draftTeam, setDraftTeam] = useState<string[]>([]);
 
   // Get current player and check if they are the leader
   const currentPlayer = state.players.find(p => p.id === currentPlayerId);
@@ -25,13 +27,14 @@ export function MissionController({
   
   // Get required team size for current mission
   const playerCount = state.players.length;
-  const requiredPlayers = getMissionRequirements(playerCount, state.currentMission);
+  const requiredPlayers = getMissionRequirements(playerCount, state.currentMission, state.settings);
+  const requiredFails = getMissionFailThreshold(playerCount, state.currentMission, state.settings);
   
   // Handle player selection/deselection
   const handlePlayerToggle = (playerId: string) => {
     if (!isLeader || !isConnected) return;
     
-    const currentTeam = [...state.selectedTeam];
+    const currentTeam = [...draftTeam];
     const playerIndex = currentTeam.indexOf(playerId);
     
     if (playerIndex >= 0) {
@@ -44,8 +47,7 @@ export function MissionController({
       }
     }
     
-    // Update local state
-    dispatch({ type: 'SET_SELECTED_TEAM', payload: currentTeam });
+    setDraftTeam(currentTeam);
   };
 
   // Handle prepare mission button click
@@ -53,7 +55,7 @@ export function MissionController({
     if (!isLeader || !publishEvent || isSubmitting) return;
     
     // Validate team selection
-    const validation = validateTeamSelection(state);
+    const validation = validateTeamSelection({ ...state, selectedTeam: draftTeam });
     if (!validation.isValid) {
       onError?.(validation.error || 'Invalid team selection');
       return;
@@ -68,17 +70,13 @@ export function MissionController({
         state.roomCode,
         currentPlayerId,
         {
-          selectedTeam: state.selectedTeam,
+          selectedTeam: draftTeam,
           missionNumber: state.currentMission,
           requiredPlayers
         }
       );
       
       await publishEvent(event);
-      
-      // Transition to voting phase
-      dispatch({ type: 'SET_PHASE', payload: 'voting' });
-      
     } catch (error) {
       console.error('Failed to prepare mission:', error);
       onError?.('Failed to prepare mission. Please try again.');
@@ -90,7 +88,7 @@ export function MissionController({
   // Check if prepare mission button should be enabled
   const canPrepareMission = isLeader && 
                            isConnected && 
-                           state.selectedTeam.length === requiredPlayers &&
+                           draftTeam.length === requiredPlayers &&
                            !isSubmitting;
 
   // Only show this component during team-building phase
@@ -119,7 +117,12 @@ export function MissionController({
         fontSize: '14px'
       }}>
         <div><strong>Required Team Size:</strong> {requiredPlayers} players</div>
-        <div><strong>Current Selection:</strong> {state.selectedTeam.length} / {requiredPlayers}</div>
+        <div><strong>Current Selection:</strong> {draftTeam.length} / {requiredPlayers}</div>
+        {requiredFails > 1 && (
+          <div style={{ color: '#c62828', fontWeight: 'bold', marginTop: '5px' }}>
+            ⚠️ {requiredFails} fails required - this mission only fails with {requiredFails} Fail cards
+          </div>
+        )}
         {isLeader && (
           <div style={{ color: '#1976d2', fontWeight: 'bold', marginTop: '5px' }}>
             👑 You are the Mission Leader - Select your team!
@@ -138,10 +141,10 @@ export function MissionController({
           {state.players
             .filter(p => p.isConnected)
             .map(player => {
-              const isSelected = state.selectedTeam.includes(player.id);
+              const isSelected = draftTeam.includes(player.id);
               const isCurrentPlayer = player.id === currentPlayerId;
               const canSelect = isLeader && 
-                              (isSelected || state.selectedTeam.length < requiredPlayers);
+                              (isSelected || draftTeam.length < requiredPlayers);
               
               return (
                 <div
@@ -196,7 +199,7 @@ export function MissionController({
       </div>
 
       {/* Selected Team Summary */}
-      {state.selectedTeam.length > 0 && (
+      {draftTeam.length > 0 && (
         <div style={{ 
           backgroundColor: '#fff3e0', 
           padding: '10px', 
@@ -205,7 +208,7 @@ export function MissionController({
         }}>
           <h4 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>Selected Team:</h4>
           <div style={{ fontSize: '14px' }}>
-            {state.selectedTeam.map(playerId => {
+            {draftTeam.map(playerId => {
               const player = state.players.find(p => p.id === playerId);
               return player?.name;
             }).join(', ')}
@@ -253,15 +256,15 @@ export function MissionController({
               )}
             </button>
             
-            {state.selectedTeam.length !== requiredPlayers && (
+            {draftTeam.length !== requiredPlayers && (
               <div style={{ 
                 fontSize: '14px', 
                 color: '#f44336',
                 fontStyle: 'italic'
               }}>
-                {state.selectedTeam.length < requiredPlayers 
-                  ? `Select ${requiredPlayers - state.selectedTeam.length} more player${requiredPlayers - state.selectedTeam.length !== 1 ? 's' : ''}`
-                  : `Remove ${state.selectedTeam.length - requiredPlayers} player${state.selectedTeam.length - requiredPlayers !== 1 ? 's' : ''}`
+                {draftTeam.length < requiredPlayers 
+                  ? `Select ${requiredPlayers - draftTeam.length} more player${requiredPlayers - draftTeam.length !== 1 ? 's' : ''}`
+                  : `Remove ${draftTeam.length - requiredPlayers} player${draftTeam.length - requiredPlayers !== 1 ? 's' : ''}`
                 }
               </div>
             )}
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useGame } from '../context/GameContext';
+import { createGameEvent } from '../utils/gameLogic';
+
+interface PlayAgainPanelProps {
+  currentPlayerId: string;
+  isHost: boolean;
+  isConnected: boolean;
+  publishEvent?: (event: any) => Promise<void>;
+  onError?: (error: string) => void;
+}
+
+// End screen: the running score for the room, and the host's button to deal another game
+export function PlayAgainPanel({
+  currentPlayerId,
+  isHost,
+  isConnected,
+  publishEvent,
+  onError
+}: PlayAgainPanelProps) {
+  const { state } = useGame();
+  const [keepScores, setKeepScores] = useState(true);
+  const [isResetting, setIsResetting] = useState(false);
+
+  const handlePlayAgain = async () => {
+    if (!isHost || !publishEvent || isResetting) return;
+
+    const event = createGameEvent('game-reset', state.roomCode, currentPlayerId, { keepScores });
+
+    setIsResetting(true);
+    try {
+      await publishEvent(event);
+    } catch (error) {
+      console.error('Failed to publish game-reset event:', error);
+      onError?.('Failed to start a new game. Please try again.');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  if (state.phase !== 'game-end') {
+    return null;
+  }
+
+  const canPlayAgain = isHost && isConnected && !isResetting;
+  const gamesPlayed = state.sessionWins.resistance + state.sessionWins.spy;
+
+  return (
+    <div style={{
+      backgroundColor: '#f8f9fa',
+      padding: '20px',
+      borderRadius: '8px',
+      border: '2px solid #2196F3',
+      marginTop: '20px'
+    }}>
+      <h3 style={{ margin: '0 0 10px 0', color: '#495057' }}>Play Again</h3>
+
+      <p style={{ margin: '0 0 15px 0', fontSize: '14px' }}>
+        <strong>Running score</strong> ({gamesPlayed} {gamesPlayed === 1 ? 'game' : 'games'}):{' '}
+        <span style={{ color: '#2196F3' }}>Resistance {state.sessionWins.resistance}</span>
+        {' – '}
+        <span style={{ color: '#f44336' }}>Spies {state.sessionWins.spy}</span>
+      </p>
+
+      {!isHost ? (
+        <p style={{ margin: 0, color: '#6c757d' }}>
+          Waiting for the host to start another game in this room...
+        </p>
+      ) : (
+        <>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '15px', fontSize: '14px' }}>
+            <input
+              type="checkbox"
+              checked={keepScores}
+              onChange={e => setKeepScores(e.target.checked)}
+            />
+            Keep the running score
+          </label>
+          <button
+            onClick={handlePlayAgain}
+            disabled={!canPlayAgain}
+            style={{
+              width: '100%',
+              padding: '12px',
+              backgroundColor: canPlayAgain ? '#2196F3' : '#ccc',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: canPlayAgain ? 'pointer' : 'not-allowed',
+              fontSize: '16px',
+              fontWeight: 'bold'
+            }}
+          >
+            Play Again
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
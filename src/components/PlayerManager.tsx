@@ -2,45 +2,99 @@ import { useState, useEffect } from 'react';
 import { useGame } from '../context/GameContext';
 import { validatePlayerName } from '../utils/gameValidation';
 import { generateId, sortPlayersAlphabetically } from '../utils/gameLogic';
-import { Player, GameEvent } from '../types/game';
+import { generateSessionKey } from '../utils/sessionCrypto';
+import { createPlayerRecord } from '../utils/gamePersistence';
+import { isBannedFromRoom } from '../utils/playerSession';
+import { Player, GameEvent, PlayerSession } from '../types/game';
+
+// How long to wait for the game engine to relay a join before treating it as refused
+const JOIN_TIMEOUT_MS = 10_000;
+
+// A join the game engine has not relayed yet
+interface PendingJoin {
+  session: PlayerSession;
+  player: Player;
+}
 
 interface PlayerManagerProps {
   isConnected: boolean;
-  publishEvent?: (event: Omit<GameEvent, 'roomCode' | 'playerId' | 'timestamp'>) => Promise<void>;
+  publishEvent?: (event: Omit<GameEvent, 'roomCode' | 'playerId' | 'timestamp'>, signingKey?: string) => Promise<void>;
   onError: (error: string) => void;
+  onJoin?: (session: PlayerSession | null) => void; // Called with the new session on join and null on leave
+  session?: PlayerSession | null; // Session the room is playing with, e.g. one resumed after a refresh
+  reservedSession?: PlayerSession | null; // Host seat this browser reserved by creating the room
 }
 
-export function PlayerManager({ isConnected, publishEvent, onError }: PlayerManagerProps) {
-  const { state, dispatch } = useGame();
+export function PlayerManager({ isConnected, publishEvent, onError, onJoin, session, reservedSession }: PlayerManagerProps) {
+  const { state } = useGame();
   const [playerName, setPlayerName] = useState('');
   const [isJoined, setIsJoined] = useState(false);
   const [currentPlayerId, setCurrentPlayerId] = useState<string | null>(null);
-  const [isRoomCreator, setIsRoomCreator] = useState(false);
+  const [pendingJoin, setPendingJoin] = useState<PendingJoin | null>(null);
+  const isHost = !!currentPlayerId && state.hostId === currentPlayerId;
 
-  // Check if current player is the room creator (first player alphabetically)
+  // Follow sessions the room resumes or drops on our behalf
   useEffect(() => {
-    if (state.players.length > 0 && currentPlayerId) {
-      const sortedPlayers = sortPlayersAlphabetically(state.players);
-      setIsRoomCreator(sortedPlayers[0].id === currentPlayerId);
-    }
-  }, [state.players, currentPlayerId]);
+    if (session === undefined) return;
+    setCurrentPlayerId(session?.playerId ?? null);
+    setIsJoined(session !== null);
+  }, [session]);
+
+  // The seat is ours once the game engine relays the join: only then is the session kept
+  // and the player recorded, so a join the engine refuses leaves nothing behind
+  useEffect(() => {
+    if (!pendingJoin || !state.players.some(p => p.id === pendingJoin.session.playerId)) return;
+
+    setPendingJoin(null);
+    setCurrentPlayerId(pendingJoin.session.playerId);
+    setIsJoined(true);
+    onJoin?.(pendingJoin.session);
+
+    // Record the player so the room's roster outlives this tab
+    const recordPlayer = async () => {
+      try {
+        await createPlayerRecord(state.roomCode, pendingJoin.player);
+      } catch (error) {
+        console.error('Failed to create player record:', error);
+      }
+    };
+    recordPlayer();
+  }, [pendingJoin, state.players, state.roomCode, onJoin]);
+
+  // The engine does not answer a join it refuses, so give up on one it never relays
+  useEffect(() => {
+    if (!pendingJoin) return;
+
+    const timeout = window.setTimeout(() => {
+      setPendingJoin(null);
+      onError('The room did not accept your join. It may be full or already playing.');
+    }, JOIN_TIMEOUT_MS);
+    return () => window.clearTimeout(timeout);
+  }, [pendingJoin, onError]);
 
   const handleJoinRoom = async () => {
-    // Validate player name
-    const nameValidation = validatePlayerName(playerName, state.players);
+    if (isBannedFromRoom(state.roomCode)) {
+      onError('You were removed from this room by the host');
+      return;
+    }
+
+    // Validate player name; spectators' names are taken too
+    const nameValidation = validatePlayerName(playerName, [...state.players, ...state.spectators]);
     if (!nameValidation.isValid) {
       onError(nameValidation.error || 'Invalid player name');
       return;
     }
 
-    // Check room capacity (5-10 players as per requirements)
+    // Check room capacity (5-10 players as per requirements) against the engine's roster, bots included
     if (state.players.length >= 10) {
-      onError('Room is full (maximum 10 players)');
+      onError('Room is full (maximum 10 players). You can still watch as a spectator.');
       return;
     }
 
-    // Create new player
-    const playerId = generateId();
+    // Create new player; whoever created the room takes the host seat with the id and key it was reserved with
+    const reserved = reservedSession && !state.players.some(p => p.id === reservedSession.playerId) ? reservedSession : null;
+    const playerId = reserved?.playerId ?? generateId();
+    const sessionKey = reserved?.sessionKey ?? generateSessionKey(); // Only ever sent to the game engine
     const newPlayer: Player = {
       id: playerId,
       name: playerName.trim(),
@@ -50,24 +104,22 @@ export function PlayerManager({ isConnected, publishEvent, onError }: PlayerMana
       isLeader: false,
     };
 
-    // Add player to local game state
-    dispatch({ type: 'ADD_PLAYER', payload: newPlayer });
-    setCurrentPlayerId(playerId);
-    setIsJoined(true);
-
-    // Publish player joined event to other players
+    // Ask the game engine for the seat; it shows up once the engine relays the join
+    setPendingJoin({ session: { playerId, sessionKey }, player: newPlayer });
     try {
       if (publishEvent) {
         await publishEvent({
           type: 'player-joined',
           data: {
             playerId,
-            playerName: playerName.trim()
+            playerName: playerName.trim(),
+            sessionKey
           }
-        });
+        }, sessionKey);
       }
     } catch (error) {
       console.error('Failed to publish player-joined event:', error);
+      setPendingJoin(null);
       onError('Failed to join room');
     }
   };
@@ -80,15 +132,6 @@ export function PlayerManager({ isConnected, publishEvent, onError }: PlayerMana
 
     const newReadyState = !currentPlayer.isReady;
 
-    // Update local state
-    dispatch({
-      type: 'UPDATE_PLAYER',
-      payload: {
-        playerId: currentPlayerId,
-        updates: { isReady: newReadyState }
-      }
-    });
-
     // Publish ready state change event
     try {
       if (publishEvent) {
@@ -108,7 +151,7 @@ export function PlayerManager({ isConnected, publishEvent, onError }: PlayerMana
 
   const handleLeaveRoom = async () => {
     if (currentPlayerId) {
-      // Publish player left event
+      // Publish player left event; the game engine removes our record once it lets us go
       try {
         if (publishEvent) {
           await publishEvent({
@@ -121,14 +164,42 @@ export function PlayerManager({ isConnected, publishEvent, onError }: PlayerMana
       } catch (error) {
         console.error('Failed to publish player-left event:', error);
       }
-
-      // Remove from local state
-      dispatch({ type: 'REMOVE_PLAYER', payload: currentPlayerId });
     }
     
     setIsJoined(false);
     setCurrentPlayerId(null);
     setPlayerName('');
+    onJoin?.(null);
+  };
+
+  // The host hands the lobby controls to another player
+  const handleTransferHost = async (hostId: string) => {
+    if (!isHost || !currentPlayerId || !publishEvent) return;
+
+    try {
+      await publishEvent({
+        type: 'host-transferred',
+        data: { hostId }
+      });
+    } catch (error) {
+      console.error('Failed to publish host-transferred event:', error);
+      onError('Failed to hand over hosting');
+    }
+  };
+
+  // The host removes a player from the lobby; the engine removes their record and keeps them from rejoining
+  const handleKickPlayer = async (playerId: string) => {
+    if (!isHost || !currentPlayerId || !publishEvent) return;
+
+    try {
+      await publishEvent({
+        type: 'player-kicked',
+        data: { playerId }
+      });
+    } catch (error) {
+      console.error('Failed to publish player-kicked event:', error);
+      onError('Failed to kick player');
+    }
   };
 
   const currentPlayer = state.players.find(p => p.id === currentPlayerId);
@@ -165,18 +236,18 @@ export function PlayerManager({ isConnected, publishEvent, onError }: PlayerMana
 
         <button 
           onClick={handleJoinRoom}
-          disabled={!playerName.trim() || !isConnected}
+          disabled={!playerName.trim() || !isConnected || !!pendingJoin}
           style={{ 
             width: '100%',
             padding: '10px',
-            backgroundColor: (playerName.trim() && isConnected) ? '#4CAF50' : '#ccc',
+            backgroundColor: (playerName.trim() && isConnected && !pendingJoin) ? '#4CAF50' : '#ccc',
             color: 'white',
             border: 'none',
             borderRadius: '4px',
-            cursor: (playerName.trim() && isConnected) ? 'pointer' : 'not-allowed'
+            cursor: (playerName.trim() && isConnected && !pendingJoin) ? 'pointer' : 'not-allowed'
           }}
         >
-          {!isConnected ? 'Connecting...' : 'Join Room'}
+          {!isConnected ? 'Connecting...' : pendingJoin ? 'Joining...' : 'Join Room'}
         </button>
       </div>
     );
@@ -212,7 +283,7 @@ export function PlayerManager({ isConnected, publishEvent, onError }: PlayerMana
         }}>
           <p style={{ margin: '0 0 5px 0' }}>
             <strong>Name:</strong> {currentPlayer?.name}
-            {isRoomCreator && ' (Room Creator)'}
+            {isHost && ' (Host)'}
           </p>
           <p style={{ margin: 0 }}>
             <strong>Status:</strong> 
@@ -260,20 +331,57 @@ export function PlayerManager({ isConnected, publishEvent, onError }: PlayerMana
             </p>
           ) : (
             <ul style={{ margin: 0, paddingLeft: '20px' }}>
-              {sortPlayersAlphabetically(state.players).map((player, index) => (
+              {sortPlayersAlphabetically(state.players).map(player => (
                 <li key={player.id} style={{ marginBottom: '8px' }}>
                   <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                     <span style={{ fontWeight: player.id === currentPlayerId ? 'bold' : 'normal' }}>
                       {player.name}
-                      {index === 0 && ' (Creator)'}
+                      {player.id === state.hostId && ' (Host)'}
+                      {player.isBot && ' (Bot)'}
                       {player.id === currentPlayerId && ' (You)'}
                     </span>
-                    <span style={{ 
-                      color: player.isReady ? 'green' : 'orange',
-                      fontWeight: 'bold',
-                      fontSize: '12px'
-                    }}>
-                      {player.isReady ? '✓ Ready' : '⏳ Not Ready'}
+                    <span style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                      {isHost && player.id !== currentPlayerId && player.isConnected && !player.isBot && (
+                        <button
+                          onClick={() => handleTransferHost(player.id)}
+                          disabled={!isConnected}
+                          style={{
+                            padding: '2px 8px',
+                            backgroundColor: 'transparent',
+                            color: '#2196F3',
+                            border: '1px solid #2196F3',
+                            borderRadius: '4px',
+                            cursor: isConnected ? 'pointer' : 'not-allowed',
+                            fontSize: '11px'
+                          }}
+                        >
+                          Make Host
+                        </button>
+                      )}
+                      {isHost && player.id !== currentPlayerId && (
+                        <button
+                          onClick={() => handleKickPlayer(player.id)}
+                          disabled={!isConnected}
+                          style={{
+                            padding: '2px 8px',
+                            backgroundColor: 'transparent',
+                            color: '#f44336',
+                            border: '1px solid #f44336',
+                            borderRadius: '4px',
+                            cursor: isConnected ? 'pointer' : 'not-allowed',
+                            fontSize: '11px'
+                          }}
+                        >
+                          {player.isBot ? 'Remove' : 'Kick'}
+                        </button>
+                      )}
+                      <span style={{ 
+                        color: player.isReady ? 'green' : 'orange',
+                        fontWeight: 'bold',
+                        fontSize: '12px'
+                      }}>
+                        {player.isReady ? '✓ Ready' : '⏳ Not Ready'}
+                      </span>
                     </span>
                   </div>
                 </li>
@@ -0,0 +1,71 @@
+import { useGame } from '../context/GameContext';
+import { SPECIAL_ROLES, getRoleName, getRoleTeam, isSpecialRole, isSpyRole } from '../utils/specialRoles';
+import { VISIBILITY_RULESETS, getPossibleRoles, isRoleKnown } from '../utils/roleVisibility';
+
+interface RoleCardProps {
+  currentPlayerId: string;
+}
+
+// The player's own role and what it taught them about everyone else, per the room's visibility rules
+export function RoleCard({ currentPlayerId }: RoleCardProps) {
+  const { state } = useGame();
+
+  const currentPlayer = state.players.find(p => p.id === currentPlayerId);
+  if (!currentPlayer || state.phase === 'lobby' || state.phase === 'role-assignment') {
+    return null;
+  }
+
+  const role = currentPlayer.role;
+  const description = isSpecialRole(role)
+    ? SPECIAL_ROLES[role].description
+    : role === 'spy'
+      ? 'Sabotage three missions without being discovered.'
+      : 'Complete three missions and keep the spies off your teams.';
+
+  const knownPlayers = state.players
+    .filter(p => p.id !== currentPlayerId)
+    .filter(p => isRoleKnown(role, p.role, state.settings.visibilityRuleset, state.settings.specialRoles))
+    .map(p => ({
+      player: p,
+      // Special roles may be shared by more than one role in play (Merlin and Morgana to Percival)
+      label: isSpecialRole(p.role)
+        ? getPossibleRoles(role, p.role, state.settings.visibilityRuleset, state.settings.specialRoles).map(getRoleName).join(' or ')
+        : getRoleName(p.role),
+    }));
+
+  return (
+    <div style={{
+      backgroundColor: '#ffffff',
+      padding: '15px',
+      borderRadius: '8px',
+      border: `2px solid ${isSpyRole(role) ? '#f44336' : '#2196F3'}`,
+      marginBottom: '20px'
+    }}>
+      <h4 style={{ margin: '0 0 5px 0' }}>
+        Your role: <span style={{ color: isSpyRole(role) ? '#f44336' : '#2196F3' }}>{getRoleName(role)}</span>
+        {isSpecialRole(role) && (
+          <span style={{ fontSize: '13px', color: '#6c757d', fontWeight: 'normal' }}>
+            {' '}({getRoleTeam(role) === 'spy' ? 'Spy' : 'Resistance'})
+          </span>
+        )}
+      </h4>
+      <p style={{ margin: '0 0 10px 0', fontSize: '14px', color: '#495057' }}>{description}</p>
+
+      <div style={{ fontSize: '14px' }}>
+        <strong>What you know</strong>
+        <span style={{ fontSize: '12px', color: '#6c757d' }}>
+          {' '}({VISIBILITY_RULESETS[state.settings.visibilityRuleset].name} rules)
+        </span>
+        {knownPlayers.length === 0 ? (
+          <div style={{ color: '#6c757d', marginTop: '5px' }}>You don't know anyone else's role.</div>
+        ) : (
+          <ul style={{ margin: '5px 0 0 0', paddingLeft: '20px' }}>
+            {knownPlayers.map(({ player, label }) => (
+              <li key={player.id}>{player.name}: {label}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
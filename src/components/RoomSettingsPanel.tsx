@@ -0,0 +1,280 @@
+import { useGame } from '../context/GameContext';
+import { createGameEvent } from '../utils/gameLogic';
+import { validateRoomSettings } from '../utils/gameValidation';
+import { SPECIAL_ROLES, SPECIAL_ROLE_ORDER, toggleSpecialRole } from '../utils/specialRoles';
+import { VISIBILITY_RULESETS, VISIBILITY_RULESET_ORDER } from '../utils/roleVisibility';
+import { DEFAULT_PHASE_TIMERS, RoomSettings, Seating, Team, TimedPhase } from '../types/game';
+
+interface RoomSettingsPanelProps {
+  currentPlayerId: string;
+  isHost: boolean;
+  isConnected: boolean;
+  publishEvent?: (event: any) => Promise<void>;
+  onError?: (error: string) => void;
+}
+
+const PHASE_TIMER_LABELS: Record<TimedPhase, string> = {
+  'team-building': 'Team selection',
+  voting: 'Voting',
+  mission: 'Mission',
+  assassination: 'Assassination',
+};
+
+const sectionHeadingStyle = { margin: '15px 0 10px 0' };
+const rowStyle = { display: 'flex', alignItems: 'flex-start', gap: '8px', marginBottom: '8px', fontSize: '14px' };
+const numberInputStyle = { width: '40px', padding: '2px 4px' };
+
+// Lobby panel for the house rules; everyone can read them, only the host can change them.
+// The game engine locks them once roles are assigned.
+export function RoomSettingsPanel({
+  currentPlayerId,
+  isHost,
+  isConnected,
+  publishEvent,
+  onError
+}: RoomSettingsPanelProps) {
+  const { state } = useGame();
+  const { settings } = state;
+  const canEdit = isHost && isConnected && !!publishEvent;
+  const playerCounts = Object.keys(settings.missionRequirements).map(Number);
+  const timedPhases = Object.keys(DEFAULT_PHASE_TIMERS) as TimedPhase[];
+
+  const updateSettings = async (changes: Partial<RoomSettings>) => {
+    if (!canEdit || !publishEvent) return;
+
+    const next = { ...settings, ...changes };
+    const validation = validateRoomSettings(next);
+    if (!validation.isValid) {
+      onError?.(validation.error || 'Invalid room settings');
+      return;
+    }
+
+    const event = createGameEvent('settings-updated', state.roomCode, currentPlayerId, { settings: next });
+
+    try {
+      await publishEvent(event);
+    } catch (error) {
+      console.error('Failed to update room settings:', error);
+      onError?.('Failed to update room settings. Please try again.');
+    }
+  };
+
+  // Change one mission's value in a per-player-count table
+  const updateMissionTable = (
+    key: 'missionRequirements' | 'missionFailThresholds',
+    playerCount: number,
+    missionIndex: number,
+    value: number
+  ) => {
+    const row = settings[key][playerCount].map((current, index) => (index === missionIndex ? value : current));
+    updateSettings({ [key]: { ...settings[key], [playerCount]: row } });
+  };
+
+  const updateSpyCount = (playerCount: number, spy: number) => {
+    updateSettings({
+      roleDistribution: { ...settings.roleDistribution, [playerCount]: { spy, resistance: playerCount - spy } },
+    });
+  };
+
+  return (
+    <div style={{
+      backgroundColor: '#f8f9fa',
+      padding: '15px',
+      borderRadius: '8px',
+      border: '1px solid #dee2e6',
+      marginTop: '20px'
+    }}>
+      <h3 style={{ margin: '0 0 10px 0', color: '#495057' }}>House Rules</h3>
+      {!isHost && (
+        <p style={{ margin: '0 0 10px 0', fontSize: '13px', color: '#6c757d' }}>
+          Only the host can change the house rules.
+        </p>
+      )}
+
+      <h4 style={{ margin: '0 0 10px 0' }}>Special Roles</h4>
+      {SPECIAL_ROLE_ORDER.map(role => {
+        const info = SPECIAL_ROLES[role];
+        return (
+          <label key={role} style={rowStyle}>
+            <input
+              type="checkbox"
+              checked={settings.specialRoles.includes(role)}
+              disabled={!canEdit}
+              onChange={() => updateSettings({ specialRoles: toggleSpecialRole(settings.specialRoles, role) })}
+            />
+            <span>
+              <strong style={{ color: info.team === 'spy' ? '#dc3545' : '#28a745' }}>{info.name}</strong>
+              {' — '}{info.description}
+            </span>
+          </label>
+        );
+      })}
+
+      <h4 style={sectionHeadingStyle}>Role Knowledge</h4>
+      {VISIBILITY_RULESET_ORDER.map(ruleset => (
+        <label key={ruleset} style={rowStyle}>
+          <input
+            type="radio"
+            name="visibility-ruleset"
+            checked={settings.visibilityRuleset === ruleset}
+            disabled={!canEdit}
+            onChange={() => updateSettings({ visibilityRuleset: ruleset })}
+          />
+          <span>
+            <strong>{VISIBILITY_RULESETS[ruleset].name}</strong>
+            {' — '}{VISIBILITY_RULESETS[ruleset].description}
+          </span>
+        </label>
+      ))}
+
+      <h4 style={sectionHeadingStyle}>Leadership and Voting</h4>
+      <label style={rowStyle}>
+        Seating (leadership passes clockwise):
+        <select
+          value={settings.seating}
+          disabled={!canEdit}
+          onChange={e => updateSettings({ seating: e.target.value as Seating })}
+        >
+          <option value="random">Random seats when the game starts</option>
+          <option value="host-arranged">Arranged by the host on the table</option>
+        </select>
+      </label>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={settings.leaderAutoVotesYes}
+          disabled={!canEdit}
+          onChange={e => updateSettings({ leaderAutoVotesYes: e.target.checked })}
+        />
+        The leader automatically votes "Yes" on their own team
+      </label>
+      <label style={rowStyle}>
+        Rejected teams in a row before the spies win:
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={settings.maxVoteTrack}
+          disabled={!canEdit}
+          onChange={e => updateSettings({ maxVoteTrack: Number(e.target.value) })}
+          style={numberInputStyle}
+        />
+      </label>
+      <label style={rowStyle}>
+        A tie after five missions goes to:
+        <select
+          value={settings.tieWinner}
+          disabled={!canEdit}
+          onChange={e => updateSettings({ tieWinner: e.target.value as Team })}
+        >
+          <option value="spy">Spies</option>
+          <option value="resistance">Resistance</option>
+        </select>
+      </label>
+
+      <h4 style={sectionHeadingStyle}>Chat</h4>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={settings.muteChatDuringMission}
+          disabled={!canEdit}
+          onChange={e => updateSettings({ muteChatDuringMission: e.target.checked })}
+        />
+        Mute the chat while a mission is underway
+      </label>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={settings.spyChat}
+          disabled={!canEdit}
+          onChange={e => updateSettings({ spyChat: e.target.checked })}
+        />
+        Give the spies a private chat (only spies who know each other can use it)
+      </label>
+
+      <h4 style={sectionHeadingStyle}>Spectators</h4>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={settings.omniscientSpectators}
+          disabled={!canEdit}
+          onChange={e => updateSettings({ omniscientSpectators: e.target.checked })}
+        />
+        Spectators see every role
+      </label>
+      <label style={rowStyle}>
+        Seconds spectators who see every role are kept behind the game:
+        <input
+          type="number"
+          min={0}
+          max={600}
+          value={settings.spectatorDelayMs / 1000}
+          disabled={!canEdit || !settings.omniscientSpectators}
+          onChange={e => updateSettings({ spectatorDelayMs: Number(e.target.value) * 1000 })}
+          style={{ ...numberInputStyle, width: '50px' }}
+        />
+      </label>
+
+      <h4 style={sectionHeadingStyle}>Time Limits (seconds)</h4>
+      {timedPhases.map(phase => (
+        <label key={phase} style={rowStyle}>
+          {PHASE_TIMER_LABELS[phase]}:
+          <input
+            type="number"
+            min={10}
+            max={600}
+            value={settings.phaseTimers[phase] / 1000}
+            disabled={!canEdit}
+            onChange={e => updateSettings({
+              phaseTimers: { ...settings.phaseTimers, [phase]: Number(e.target.value) * 1000 },
+            })}
+            style={{ ...numberInputStyle, width: '50px' }}
+          />
+        </label>
+      ))}
+
+      <h4 style={sectionHeadingStyle}>Missions by Player Count</h4>
+      <table style={{ fontSize: '13px', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left', paddingRight: '10px' }}>Players</th>
+            <th style={{ textAlign: 'left', paddingRight: '10px' }}>Spies</th>
+            <th style={{ textAlign: 'left', paddingRight: '10px' }}>Team size (missions 1-5)</th>
+            <th style={{ textAlign: 'left' }}>Fails needed (missions 1-5)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {playerCounts.map(playerCount => (
+            <tr key={playerCount}>
+              <td>{playerCount}</td>
+              <td>
+                <input
+                  type="number"
+                  aria-label={`Spies with ${playerCount} players`}
+                  value={settings.roleDistribution[playerCount].spy}
+                  disabled={!canEdit}
+                  onChange={e => updateSpyCount(playerCount, Number(e.target.value))}
+                  style={numberInputStyle}
+                />
+              </td>
+              {(['missionRequirements', 'missionFailThresholds'] as const).map(key => (
+                <td key={key} style={{ paddingRight: '10px' }}>
+                  {settings[key][playerCount].map((value, missionIndex) => (
+                    <input
+                      key={missionIndex}
+                      type="number"
+                      value={value}
+                      disabled={!canEdit}
+                      onChange={e => updateMissionTable(key, playerCount, missionIndex, Number(e.target.value))}
+                      style={numberInputStyle}
+                    />
+                  ))}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
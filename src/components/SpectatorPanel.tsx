@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { useGame } from '../context/GameContext';
+import { validatePlayerName } from '../utils/gameValidation';
+import { generateId } from '../utils/gameLogic';
+import { generateSessionKey } from '../utils/sessionCrypto';
+import { isBannedFromRoom } from '../utils/playerSession';
+import { GameEvent, PlayerSession } from '../types/game';
+
+interface SpectatorPanelProps {
+  isConnected: boolean;
+  publishEvent?: (event: Omit<GameEvent, 'roomCode' | 'playerId' | 'timestamp'>, signingKey?: string) => Promise<void>;
+  onError: (error: string) => void;
+  onWatch: (session: PlayerSession | null) => void; // Called with the spectator's session when they start watching, null when they stop
+  session: PlayerSession | null; // Set while this client is watching
+}
+
+// Watch the room without playing: spectators never take a seat and only see every role when the
+// house rules make them omniscient
+export function SpectatorPanel({ isConnected, publishEvent, onError, onWatch, session }: SpectatorPanelProps) {
+  const { state } = useGame();
+  const [spectatorName, setSpectatorName] = useState('');
+  const canWatch = isConnected && !!publishEvent && spectatorName.trim().length > 0;
+
+  const handleWatch = async () => {
+    if (!canWatch || !publishEvent) return;
+
+    if (isBannedFromRoom(state.roomCode)) {
+      onError('You were removed from this room by the host');
+      return;
+    }
+
+    const nameValidation = validatePlayerName(spectatorName, [...state.players, ...state.spectators]);
+    if (!nameValidation.isValid) {
+      onError(nameValidation.error || 'Invalid name');
+      return;
+    }
+
+    const spectatorId = generateId();
+    const sessionKey = generateSessionKey(); // Only ever sent to the game engine
+
+    try {
+      await publishEvent({
+        type: 'spectator-joined',
+        data: { spectatorId, spectatorName: spectatorName.trim(), sessionKey }
+      }, sessionKey);
+      onWatch({ playerId: spectatorId, sessionKey });
+    } catch (error) {
+      console.error('Failed to publish spectator-joined event:', error);
+      onError('Failed to start watching');
+    }
+  };
+
+  const handleStopWatching = async () => {
+    if (!session) return;
+
+    try {
+      if (publishEvent) {
+        await publishEvent({
+          type: 'spectator-left',
+          data: { spectatorId: session.playerId }
+        }, session.sessionKey);
+      }
+    } catch (error) {
+      console.error('Failed to publish spectator-left event:', error);
+    }
+
+    setSpectatorName('');
+    onWatch(null);
+  };
+
+  return (
+    <div style={{
+      backgroundColor: '#f8f9fa',
+      padding: '15px',
+      borderRadius: '8px',
+      border: '1px solid #dee2e6',
+      marginBottom: '20px'
+    }}>
+      <h3 style={{ margin: '0 0 10px 0', color: '#495057' }}>
+        Spectators ({state.spectators.length})
+      </h3>
+
+      {state.spectators.length > 0 && (
+        <p style={{ margin: '0 0 10px 0', fontSize: '14px' }}>
+          {state.spectators.map(s => s.name + (s.id === session?.playerId ? ' (You)' : '')).join(', ')}
+        </p>
+      )}
+
+      {state.settings.omniscientSpectators && (
+        <p style={{ margin: '0 0 10px 0', fontSize: '13px', color: '#6c757d' }}>
+          Spectators see every role, {Math.round(state.settings.spectatorDelayMs / 1000)} seconds behind the game.
+        </p>
+      )}
+
+      {session ? (
+        <button
+          onClick={handleStopWatching}
+          style={{
+            padding: '8px 16px',
+            backgroundColor: '#f44336',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          Stop Watching
+        </button>
+      ) : (
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <input
+            type="text"
+            aria-label="Spectator name"
+            value={spectatorName}
+            onChange={(e) => setSpectatorName(e.target.value)}
+            placeholder="Name to watch as"
+            maxLength={20}
+            style={{ flex: 1, padding: '8px', borderRadius: '4px', border: '1px solid #ccc' }}
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                handleWatch();
+              }
+            }}
+          />
+          <button
+            onClick={handleWatch}
+            disabled={!canWatch}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: canWatch ? '#607d8b' : '#ccc',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: canWatch ? 'pointer' : 'not-allowed'
+            }}
+          >
+            Watch as Spectator
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ChatPanel } from '../ChatPanel';
+import { DEFAULT_ROOM_SETTINGS, GameState } from '../../types/game';
+
+const mockDispatch = vi.fn();
+
+// Mock the game context with a game in progress and some chat already seen
+const mockGameState: GameState = {
+  roomCode: 'TEST123',
+  phase: 'team-building',
+  players: [
+    { id: 'player1', name: 'Alice', role: 'spy', isReady: true, isConnected: true, isLeader: true },
+    { id: 'player2', name: 'Bob', role: 'spy', isReady: true, isConnected: true, isLeader: false },
+    { id: 'player3', name: 'Charlie', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+  ],
+  hostId: 'player1',
+  spectators: [],
+  bannedPlayerIds: [],
+  currentLeader: 'player1',
+  currentMission: 1,
+  missionHistory: [],
+  proposals: {},
+  resistanceScore: 0,
+  spyScore: 0,
+  gameLog: [],
+  selectedTeam: [],
+  votingInProgress: false,
+  missionInProgress: false,
+  currentVotes: {},
+  missionSubmissions: [],
+  voteTrack: 0,
+  settings: { ...DEFAULT_ROOM_SETTINGS, spyChat: true },
+  sessionWins: { resistance: 0, spy: 0 },
+  phaseDeadline: null,
+  chatMessages: [
+    { playerId: 'player2', channel: 'room', text: 'I trust Charlie', timestamp: 1 },
+    { playerId: 'player3', channel: 'room', text: 'Send me then', timestamp: 2 },
+    { playerId: 'player2', channel: 'spies', text: 'Put me on the team', timestamp: 3 },
+  ],
+};
+
+// Mock useGame hook
+vi.mock('../../context/GameContext', async () => {
+  const actual = await vi.importActual('../../context/GameContext');
+  return {
+    ...actual,
+    useGame: () => ({
+      state: mockGameState,
+      dispatch: mockDispatch,
+    }),
+  };
+});
+
+describe('ChatPanel', () => {
+  const mockPublishEvent = vi.fn();
+  const mockOnError = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGameState.phase = 'team-building';
+    mockGameState.settings = { ...DEFAULT_ROOM_SETTINGS, spyChat: true };
+  });
+
+  const renderChat = (currentPlayerId = 'player1') =>
+    render(
+      <ChatPanel
+        currentPlayerId={currentPlayerId}
+        isConnected={true}
+        publishEvent={mockPublishEvent}
+        onError={mockOnError}
+      />
+    );
+
+  it('shows the chat history and filters it by player', () => {
+    renderChat();
+
+    expect(screen.getByText('I trust Charlie')).toBeInTheDocument();
+    expect(screen.getByText('Send me then')).toBeInTheDocument();
+    expect(screen.getByText('[Spies]')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/Show messages from/), { target: { value: 'player3' } });
+
+    expect(screen.queryByText('I trust Charlie')).not.toBeInTheDocument();
+    expect(screen.getByText('Send me then')).toBeInTheDocument();
+  });
+
+  it('sends a room message and waits for the engine to relay it', async () => {
+    renderChat();
+
+    fireEvent.change(screen.getByPlaceholderText('Message the room...'), { target: { value: ' Hello ' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => {
+      expect(mockPublishEvent).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'chat-message',
+        playerId: 'player1',
+        data: { channel: 'room', text: 'Hello' },
+      }));
+    });
+    expect(screen.getByPlaceholderText('Message the room...')).toHaveValue('');
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  it('only offers the spy channel to spies who can use it', () => {
+    renderChat('player3');
+    expect(screen.queryByLabelText('Chat channel')).not.toBeInTheDocument();
+  });
+
+  it('sends spy messages on the spy channel without adding them locally', async () => {
+    renderChat();
+
+    fireEvent.change(screen.getByLabelText('Chat channel'), { target: { value: 'spies' } });
+    fireEvent.change(screen.getByPlaceholderText('Message the other spies...'), { target: { value: 'Fail it' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => {
+      expect(mockPublishEvent).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'chat-message',
+        data: { channel: 'spies', text: 'Fail it' },
+      }));
+    });
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  it('hides the message box while chat is muted for the mission', () => {
+    mockGameState.phase = 'mission';
+    mockGameState.settings = { ...DEFAULT_ROOM_SETTINGS, muteChatDuringMission: true };
+    renderChat();
+
+    expect(screen.getByText('Chat is muted while the mission is underway.')).toBeInTheDocument();
+    expect(screen.queryByText('Send')).not.toBeInTheDocument();
+  });
+});
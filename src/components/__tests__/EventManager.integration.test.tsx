@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useEventManager } from '../EventManager';
+import { HEARTBEAT_INTERVAL_MS } from '../../types/game';
+import { generateSessionKey, verifyEventSignature } from '../../utils/sessionCrypto';
 
 // Mock the AWS Amplify events module
 vi.mock('aws-amplify/data', () => ({
@@ -57,8 +59,9 @@ describe('EventManager AWS AppSync Integration', () => {
     expect(result.current.error).toBe(null);
   });
 
-  it('should publish events to AWS AppSync Events', async () => {
+  it('should publish events to AWS AppSync Events, signed with the session key', async () => {
     const { events } = await import('aws-amplify/data');
+    const sessionKey = generateSessionKey();
     
     // Create a mock channel with publish method
     const mockPublish = vi.fn().mockResolvedValue(undefined);
@@ -72,7 +75,7 @@ describe('EventManager AWS AppSync Integration', () => {
     events.connect = vi.fn().mockResolvedValue(mockChannel);
     
     const { result } = renderHook(() => 
-      useEventManager('TEST123', 'player1', mockOnEvent)
+      useEventManager('TEST123', 'player1', mockOnEvent, sessionKey)
     );
 
     // Wait for connection
@@ -84,8 +87,8 @@ describe('EventManager AWS AppSync Integration', () => {
 
     // Publish an event
     const testEvent = {
-      type: 'player-joined' as const,
-      data: { playerId: 'player2', playerName: 'Test Player' }
+      type: 'player-ready' as const,
+      data: { playerId: 'player1', isReady: true }
     };
 
     await act(async () => {
@@ -99,12 +102,74 @@ describe('EventManager AWS AppSync Integration', () => {
     
     const eventData = JSON.parse(publishCall.event);
     expect(eventData).toMatchObject({
-      type: 'player-joined',
-      data: { playerId: 'player2', playerName: 'Test Player' },
+      type: 'player-ready',
+      data: { playerId: 'player1', isReady: true },
       roomCode: 'TEST123',
       playerId: 'player1'
     });
     expect(eventData.timestamp).toBeTypeOf('number');
+    expect(await verifyEventSignature(sessionKey, eventData)).toBe(true);
+  });
+
+  it('should send heartbeats while connected as a player', async () => {
+    const { events } = await import('aws-amplify/data');
+    vi.useFakeTimers();
+
+    try {
+      const mockPublish = vi.fn().mockResolvedValue(undefined);
+      events.connect = vi.fn().mockResolvedValue({
+        subscribe: vi.fn().mockImplementation(() => ({ unsubscribe: vi.fn() })),
+        publish: mockPublish,
+        close: vi.fn()
+      });
+
+      const sessionKey = generateSessionKey();
+      renderHook(() => useEventManager('TEST123', 'player1', () => {}, sessionKey));
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(100);
+      });
+      expect(mockPublish).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL_MS * 2);
+      });
+
+      expect(mockPublish).toHaveBeenCalledTimes(2);
+      const heartbeat = JSON.parse(mockPublish.mock.calls[0][0].event);
+      expect(heartbeat).toMatchObject({
+        type: 'player-heartbeat',
+        roomCode: 'TEST123',
+        playerId: 'player1'
+      });
+      expect(await verifyEventSignature(sessionKey, heartbeat)).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not send heartbeats before joining', async () => {
+    const { events } = await import('aws-amplify/data');
+    vi.useFakeTimers();
+
+    try {
+      const mockPublish = vi.fn().mockResolvedValue(undefined);
+      events.connect = vi.fn().mockResolvedValue({
+        subscribe: vi.fn().mockImplementation(() => ({ unsubscribe: vi.fn() })),
+        publish: mockPublish,
+        close: vi.fn()
+      });
+
+      renderHook(() => useEventManager('TEST123', '', () => {}));
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL_MS * 2);
+      });
+
+      expect(mockPublish).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
   });
 
   it('should handle connection errors gracefully', async () => {
@@ -171,7 +236,7 @@ describe('EventManager AWS AppSync Integration', () => {
     expect(mockOnEvent).toHaveBeenCalledWith(incomingEvent);
   });
 
-  it('should not process events from the same player', async () => {
+  it('should process the engine\'s relay of our own events', async () => {
     const { events } = await import('aws-amplify/data');
     
     let subscriptionCallback: any = null;
@@ -195,7 +260,7 @@ describe('EventManager AWS AppSync Integration', () => {
       await new Promise(resolve => setTimeout(resolve, 100));
     });
 
-    // Simulate receiving an event from the same player
+    // The engine republishes our own intent once it has accepted it
     const ownEvent = {
       type: 'player-ready',
       roomCode: 'TEST123',
@@ -210,7 +275,7 @@ describe('EventManager AWS AppSync Integration', () => {
       }
     });
 
-    // Verify that the event was NOT processed
-    expect(mockOnEvent).not.toHaveBeenCalled();
+    // That relay is the only place our own change shows up
+    expect(mockOnEvent).toHaveBeenCalledWith(ownEvent);
   });
 });
\ No newline at end of file
@@ -1,14 +1,14 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import { GameBoard } from '../GameBoard';
 import { GameProvider } from '../../context/GameContext';
-import { Player } from '../../types/game';
+import { DEFAULT_ROOM_SETTINGS, GamePhase, Player, RoomSettings } from '../../types/game';
 
 // Mock the useGame hook
 const mockDispatch = vi.fn();
 const mockState = {
   roomCode: 'TEST123',
-  phase: 'team-building' as const,
+  phase: 'team-building' as GamePhase,
   players: [] as Player[],
   currentLeader: 'player1',
   currentMission: 1,
@@ -19,6 +19,7 @@ const mockState = {
   selectedTeam: [],
   votingInProgress: false,
   missionInProgress: false,
+  settings: DEFAULT_ROOM_SETTINGS as RoomSettings,
 };
 
 vi.mock('../../context/GameContext', () => ({
@@ -32,7 +33,9 @@ vi.mock('../../context/GameContext', () => ({
 describe('GameBoard', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockState.phase = 'team-building';
     mockState.players = [];
+    mockState.settings = DEFAULT_ROOM_SETTINGS;
   });
 
   it('should render game board with title', () => {
@@ -173,4 +176,95 @@ describe('GameBoard', () => {
     // The component should render role indicators (tested by visual inspection)
     // Spy player sees all roles
   });
-});
\ No newline at end of file
+
+  it('should show Percival both Merlin candidates when Morgana is in play', () => {
+    mockState.settings = { ...DEFAULT_ROOM_SETTINGS, specialRoles: ['merlin', 'percival', 'assassin', 'morgana'] };
+    mockState.players = [
+      { id: 'player1', name: 'Alice', role: 'percival', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player2', name: 'Bob', role: 'merlin', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player3', name: 'Carol', role: 'merlin', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player4', name: 'Dave', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+    ];
+
+    render(<GameBoard currentPlayerId="player1" />);
+
+    expect(screen.getByText('P')).toBeInTheDocument();
+    expect(screen.getAllByText('M?')).toHaveLength(2);
+    expect(screen.getByText('?')).toBeInTheDocument();
+  });
+
+  it('should only reveal spies to Merlin', () => {
+    mockState.settings = { ...DEFAULT_ROOM_SETTINGS, specialRoles: ['merlin', 'assassin'] };
+    mockState.players = [
+      { id: 'player1', name: 'Alice', role: 'merlin', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player2', name: 'Bob', role: 'spy', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player3', name: 'Carol', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+    ];
+
+    render(<GameBoard currentPlayerId="player1" />);
+
+    expect(screen.getByText('M')).toBeInTheDocument();
+    expect(screen.getByText('S')).toBeInTheDocument();
+    expect(screen.getByText('?')).toBeInTheDocument();
+  });
+
+  it('should hide the other spies from a spy when spies are blind', () => {
+    mockState.settings = { ...DEFAULT_ROOM_SETTINGS, visibilityRuleset: 'blind-spies' };
+    mockState.players = [
+      { id: 'player1', name: 'Alice', role: 'spy', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player2', name: 'Bob', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player3', name: 'Carol', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+    ];
+
+    render(<GameBoard currentPlayerId="player1" />);
+
+    expect(screen.getByText('S')).toBeInTheDocument();
+    expect(screen.getAllByText('?')).toHaveLength(2);
+  });
+
+  it('should let the host swap seats in the lobby', async () => {
+    const publishEvent = vi.fn().mockResolvedValue(undefined);
+    mockState.phase = 'lobby';
+    mockState.settings = { ...DEFAULT_ROOM_SETTINGS, seating: 'host-arranged' };
+    mockState.players = [
+      { id: 'player1', name: 'Alice', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player2', name: 'Bob', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player3', name: 'Carol', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+    ];
+
+    render(<GameBoard currentPlayerId="player1" isHost isConnected publishEvent={publishEvent} />);
+
+    expect(screen.getByTestId('seat-0')).toHaveTextContent('Alice');
+    expect(screen.getByText('Drag players to swap seats')).toBeInTheDocument();
+
+    fireEvent.dragStart(screen.getByTestId('seat-0'));
+    fireEvent.drop(screen.getByTestId('seat-2'));
+
+    await waitFor(() => {
+      expect(publishEvent).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'seats-arranged',
+        data: { seatOrder: ['player3', 'player2', 'player1'] },
+      }));
+    });
+    // The seats only move once the engine relays the new order
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  it('should not let other players move seats', () => {
+    const publishEvent = vi.fn().mockResolvedValue(undefined);
+    mockState.phase = 'lobby';
+    mockState.settings = { ...DEFAULT_ROOM_SETTINGS, seating: 'host-arranged' };
+    mockState.players = [
+      { id: 'player1', name: 'Alice', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+      { id: 'player2', name: 'Bob', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+    ];
+
+    render(<GameBoard currentPlayerId="player2" isConnected publishEvent={publishEvent} />);
+
+    fireEvent.dragStart(screen.getByTestId('seat-0'));
+    fireEvent.drop(screen.getByTestId('seat-1'));
+
+    expect(screen.getByTestId('seat-0')).toHaveAttribute('draggable', 'false');
+    expect(publishEvent).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { GameRoom } from '../GameRoom';
+import { DEFAULT_ROOM_SETTINGS } from '../../types/game';
 
 // Mock the useGame hook for testing
 const mockDispatch = vi.fn();
@@ -8,6 +9,7 @@ const mockState = {
   roomCode: 'ABC123',
   phase: 'lobby' as const,
   players: [],
+  spectators: [],
   currentLeader: '',
   currentMission: 1,
   missionHistory: [],
@@ -17,6 +19,7 @@ const mockState = {
   selectedTeam: [],
   votingInProgress: false,
   missionInProgress: false,
+  settings: DEFAULT_ROOM_SETTINGS,
 };
 
 vi.mock('../../context/GameContext', () => ({
@@ -31,6 +34,7 @@ describe('GameRoom', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
   });
 
   it('should render join room form when not joined', () => {
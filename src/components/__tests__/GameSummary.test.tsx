@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { GameSummary } from '../GameSummary';
+import { DEFAULT_ROOM_SETTINGS, GameState } from '../../types/game';
+
+// A five player game the spies won on the vote track, with every role revealed
+const mockGameState: GameState = {
+  roomCode: 'TEST123',
+  phase: 'game-end',
+  players: [
+    { id: 'player1', name: 'Alice', role: 'merlin', isReady: true, isConnected: true, isLeader: false },
+    { id: 'player2', name: 'Bob', role: 'assassin', isReady: true, isConnected: true, isLeader: false },
+    { id: 'player3', name: 'Charlie', role: 'resistance', isReady: true, isConnected: true, isLeader: true },
+    { id: 'player4', name: 'Diana', role: 'spy', isReady: true, isConnected: true, isLeader: false },
+    { id: 'player5', name: 'Eve', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
+  ],
+  hostId: 'player1',
+  spectators: [],
+  bannedPlayerIds: [],
+  currentLeader: 'player3',
+  currentMission: 2,
+  missionHistory: [
+    {
+      missionNumber: 1,
+      requiredPlayers: 2,
+      leader: 'player1',
+      selectedPlayers: ['player1', 'player2'],
+      votes: { player1: true, player2: true, player3: true, player4: false, player5: false },
+      missionChoices: [true, false],
+      outcome: 'failure',
+      resistancePoints: 0,
+      spyPoints: 1,
+    },
+  ],
+  proposals: {},
+  resistanceScore: 0,
+  spyScore: 1,
+  gameLog: [
+    {
+      id: 'log1',
+      timestamp: 1,
+      type: 'game-end',
+      message: 'Game ended! Spies win!',
+      data: { winner: 'spy', reason: 'vote-track', finalScores: { resistance: 0, spy: 1 } },
+    },
+  ],
+  selectedTeam: [],
+  votingInProgress: false,
+  missionInProgress: false,
+  currentVotes: {},
+  missionSubmissions: [],
+  voteTrack: 5,
+  settings: DEFAULT_ROOM_SETTINGS,
+  sessionWins: { resistance: 0, spy: 1 },
+  phaseDeadline: null,
+  chatMessages: [],
+};
+
+// Mock useGame hook
+vi.mock('../../context/GameContext', async () => {
+  const actual = await vi.importActual('../../context/GameContext');
+  return {
+    ...actual,
+    useGame: () => ({
+      state: mockGameState,
+      dispatch: vi.fn(),
+    }),
+  };
+});
+
+describe('GameSummary', () => {
+  it('explains who won and why', () => {
+    render(<GameSummary />);
+
+    expect(screen.getByText('Spies Win!')).toBeInTheDocument();
+    expect(screen.getByText('5 teams were rejected in a row.')).toBeInTheDocument();
+    expect(screen.getByText('Final score: Resistance 0 – Spies 1')).toBeInTheDocument();
+  });
+
+  it('reveals every player\'s role', () => {
+    render(<GameSummary />);
+
+    expect(screen.getByText('Merlin')).toBeInTheDocument();
+    expect(screen.getByText('Assassin')).toBeInTheDocument();
+    expect(screen.getByText('Spy')).toBeInTheDocument();
+    expect(screen.getAllByText('Resistance')).toHaveLength(2);
+  });
+
+  it('breaks down each mission by leader, team, votes and fails', () => {
+    render(<GameSummary />);
+
+    const row = screen.getAllByRole('row')[1];
+    const cells = within(row).getAllByRole('cell').map(cell => cell.textContent);
+    expect(cells).toEqual([
+      '1',
+      'Alice',
+      'Alice, Bob',
+      'Alice, Bob, Charlie',
+      'Diana, Eve',
+      '1 of 1 needed',
+      'Failed',
+    ]);
+  });
+});
@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { MissionExecution } from '../MissionExecution';
 import { GameProvider } from '../../context/GameContext';
-import { GameState } from '../../types/game';
+import { DEFAULT_ROOM_SETTINGS, GameState } from '../../types/game';
 
 // Mock the game context with a mission phase state
 const mockGameState: GameState = {
@@ -13,9 +13,13 @@ const mockGameState: GameState = {
     { id: 'player2', name: 'Bob', role: 'spy', isReady: true, isConnected: true, isLeader: false },
     { id: 'player3', name: 'Charlie', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
   ],
+  hostId: 'player1',
+  spectators: [],
+  bannedPlayerIds: [],
   currentLeader: 'player1',
   currentMission: 1,
   missionHistory: [],
+  proposals: {},
   resistanceScore: 0,
   spyScore: 0,
   gameLog: [],
@@ -23,6 +27,12 @@ const mockGameState: GameState = {
   votingInProgress: false,
   missionInProgress: true,
   currentVotes: {},
+  missionSubmissions: [],
+  voteTrack: 0,
+  settings: DEFAULT_ROOM_SETTINGS,
+  sessionWins: { resistance: 0, spy: 0 },
+  phaseDeadline: null,
+  chatMessages: [],
 };
 
 // Mock useGame hook
@@ -1,13 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { PlayerManager } from '../PlayerManager';
+import { Player } from '../../types/game';
+import { recordRoomBan } from '../../utils/playerSession';
+import { createPlayerRecord } from '../../utils/gamePersistence';
 
 // Mock the useGame hook for testing
 const mockDispatch = vi.fn();
 let mockState = {
   roomCode: 'ABC123',
   phase: 'lobby' as const,
-  players: [],
+  players: [] as Player[],
+  hostId: null as string | null,
+  spectators: [],
   currentLeader: '',
   currentMission: 1,
   missionHistory: [],
@@ -26,6 +31,11 @@ vi.mock('../../context/GameContext', () => ({
   }),
 }));
 
+// Mock the persisted Player records
+vi.mock('../../utils/gamePersistence', () => ({
+  createPlayerRecord: vi.fn().mockResolvedValue(undefined),
+}));
+
 const mockPublishEvent = vi.fn();
 const mockOnError = vi.fn();
 
@@ -40,6 +50,8 @@ describe('PlayerManager', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockState.players = [];
+    mockState.hostId = null;
+    localStorage.clear();
   });
 
   describe('Player Registration', () => {
@@ -84,7 +96,26 @@ describe('PlayerManager', () => {
       const joinButton = screen.getByRole('button', { name: /join room/i });
       fireEvent.click(joinButton);
       
-      expect(mockOnError).toHaveBeenCalledWith('Room is full (maximum 10 players)');
+      expect(mockOnError).toHaveBeenCalledWith('Room is full (maximum 10 players). You can still watch as a spectator.');
+    });
+
+    it('should count bots against the room capacity', () => {
+      mockState.players = Array.from({ length: 10 }, (_, i) => ({
+        id: `player-${i}`,
+        name: `Player ${i}`,
+        role: 'resistance' as const,
+        isReady: false,
+        isConnected: true,
+        isLeader: false,
+        isBot: i >= 5,
+      }));
+
+      render(<PlayerManager {...defaultProps} />);
+      fireEvent.change(screen.getByLabelText(/enter your name/i), { target: { value: 'TestPlayer' } });
+      fireEvent.click(screen.getByRole('button', { name: /join room/i }));
+
+      expect(mockPublishEvent).not.toHaveBeenCalled();
+      expect(mockOnError).toHaveBeenCalledWith('Room is full (maximum 10 players). You can still watch as a spectator.');
     });
   });
 
@@ -98,7 +129,7 @@ describe('PlayerManager', () => {
   });
 
   describe('Core Functionality', () => {
-    it('should call dispatch when joining room', () => {
+    it('should ask the engine for a seat when joining room', () => {
       render(<PlayerManager {...defaultProps} />);
       
       const nameInput = screen.getByLabelText(/enter your name/i);
@@ -107,16 +138,12 @@ describe('PlayerManager', () => {
       const joinButton = screen.getByRole('button', { name: /join room/i });
       fireEvent.click(joinButton);
       
-      expect(mockDispatch).toHaveBeenCalledWith({
-        type: 'ADD_PLAYER',
-        payload: expect.objectContaining({
-          name: 'TestPlayer',
-          role: 'resistance',
-          isReady: false,
-          isConnected: true,
-          isLeader: false,
-        })
-      });
+      expect(mockPublishEvent).toHaveBeenCalledWith({
+        type: 'player-joined',
+        data: expect.objectContaining({ playerName: 'TestPlayer' })
+      }, expect.any(String));
+      // The seat only shows up once the engine relays the join
+      expect(mockDispatch).not.toHaveBeenCalled();
     });
 
     it('should validate duplicate player names', () => {
@@ -140,4 +167,157 @@ describe('PlayerManager', () => {
       expect(mockOnError).toHaveBeenCalledWith('Player name already taken');
     });
   });
-});
\ No newline at end of file
+
+  describe('Joining', () => {
+    const joinAs = (name: string) => {
+      fireEvent.change(screen.getByLabelText(/enter your name/i), { target: { value: name } });
+      fireEvent.click(screen.getByRole('button', { name: /join room/i }));
+    };
+
+    it('should keep the session and record the player only once the engine relays the join', async () => {
+      mockPublishEvent.mockResolvedValue(undefined);
+      const onJoin = vi.fn();
+      const { rerender } = render(<PlayerManager {...defaultProps} onJoin={onJoin} />);
+
+      joinAs('TestPlayer');
+      expect(await screen.findByRole('button', { name: /joining/i })).toBeDisabled();
+      expect(onJoin).not.toHaveBeenCalled();
+      expect(createPlayerRecord).not.toHaveBeenCalled();
+
+      const { playerId, sessionKey } = mockPublishEvent.mock.calls[0][0].data;
+      mockState.players = [
+        { id: playerId, name: 'TestPlayer', role: 'resistance' as const, isReady: false, isConnected: true, isLeader: false },
+      ];
+      rerender(<PlayerManager {...defaultProps} onJoin={onJoin} />);
+
+      await waitFor(() => {
+        expect(onJoin).toHaveBeenCalledWith({ playerId, sessionKey });
+      });
+      expect(createPlayerRecord).toHaveBeenCalledWith('ABC123', expect.objectContaining({ id: playerId, name: 'TestPlayer' }));
+      expect(screen.getByText('Your Status')).toBeInTheDocument();
+    });
+
+    it('should give up on a join the engine never relays', async () => {
+      vi.useFakeTimers();
+      try {
+        mockPublishEvent.mockResolvedValue(undefined);
+        const onJoin = vi.fn();
+        render(<PlayerManager {...defaultProps} onJoin={onJoin} />);
+
+        joinAs('TestPlayer');
+        await act(async () => {
+          await vi.advanceTimersByTimeAsync(10_000);
+        });
+
+        expect(mockOnError).toHaveBeenCalledWith('The room did not accept your join. It may be full or already playing.');
+        expect(onJoin).not.toHaveBeenCalled();
+        expect(createPlayerRecord).not.toHaveBeenCalled();
+        expect(screen.getByRole('button', { name: /join room/i })).toBeEnabled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should let the player try again when the join cannot be sent', async () => {
+      mockPublishEvent.mockRejectedValueOnce(new Error('Network error'));
+      const onJoin = vi.fn();
+      render(<PlayerManager {...defaultProps} onJoin={onJoin} />);
+
+      joinAs('TestPlayer');
+
+      await waitFor(() => {
+        expect(mockOnError).toHaveBeenCalledWith('Failed to join room');
+      });
+      expect(onJoin).not.toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: /join room/i })).toBeEnabled();
+    });
+  });
+
+  describe('Hosting', () => {
+    it('should join the room creator with the host seat they reserved', () => {
+      const reservedSession = { playerId: 'reserved-host', sessionKey: 'reserved-key' };
+      mockState.hostId = 'reserved-host';
+      render(<PlayerManager {...defaultProps} reservedSession={reservedSession} />);
+
+      fireEvent.change(screen.getByLabelText(/enter your name/i), { target: { value: 'TestPlayer' } });
+      fireEvent.click(screen.getByRole('button', { name: /join room/i }));
+
+      expect(mockPublishEvent).toHaveBeenCalledWith({
+        type: 'player-joined',
+        data: { playerId: 'reserved-host', playerName: 'TestPlayer', sessionKey: 'reserved-key' }
+      }, 'reserved-key');
+    });
+
+    it('should not join under the host id without the reservation', () => {
+      mockState.hostId = 'reserved-host';
+      render(<PlayerManager {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText(/enter your name/i), { target: { value: 'TestPlayer' } });
+      fireEvent.click(screen.getByRole('button', { name: /join room/i }));
+
+      expect(mockPublishEvent.mock.calls[0][0].data.playerId).not.toBe('reserved-host');
+    });
+
+    it('should let the host hand hosting to another player', async () => {
+      mockPublishEvent.mockResolvedValue(undefined);
+      mockState.hostId = 'host';
+      mockState.players = [
+        { id: 'host', name: 'Alice', role: 'resistance' as const, isReady: false, isConnected: true, isLeader: false },
+        { id: 'bob', name: 'Bob', role: 'resistance' as const, isReady: false, isConnected: true, isLeader: false },
+      ];
+
+      render(<PlayerManager {...defaultProps} session={{ playerId: 'host', sessionKey: 'key' }} />);
+
+      expect(screen.getByText(/Alice \(Host\) \(You\)/)).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: /make host/i }));
+
+      expect(mockPublishEvent).toHaveBeenCalledWith({
+        type: 'host-transferred',
+        data: { hostId: 'bob' }
+      });
+    });
+
+    it('should not offer hosting controls to other players', () => {
+      mockState.hostId = 'host';
+      mockState.players = [
+        { id: 'host', name: 'Alice', role: 'resistance' as const, isReady: false, isConnected: true, isLeader: false },
+        { id: 'bob', name: 'Bob', role: 'resistance' as const, isReady: false, isConnected: true, isLeader: false },
+      ];
+
+      render(<PlayerManager {...defaultProps} session={{ playerId: 'bob', sessionKey: 'key' }} />);
+
+      expect(screen.queryByRole('button', { name: /make host/i })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Kicking', () => {
+    it('should let the host kick a player', async () => {
+      mockPublishEvent.mockResolvedValue(undefined);
+      mockState.hostId = 'host';
+      mockState.players = [
+        { id: 'host', name: 'Alice', role: 'resistance' as const, isReady: false, isConnected: true, isLeader: false },
+        { id: 'troll', name: 'Troll', role: 'resistance' as const, isReady: false, isConnected: true, isLeader: false },
+      ];
+
+      render(<PlayerManager {...defaultProps} session={{ playerId: 'host', sessionKey: 'key' }} />);
+      fireEvent.click(screen.getByRole('button', { name: /kick/i }));
+
+      expect(mockPublishEvent).toHaveBeenCalledWith({
+        type: 'player-kicked',
+        data: { playerId: 'troll' }
+      });
+      expect(mockDispatch).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to rejoin a room this browser was kicked from', () => {
+      recordRoomBan('ABC123');
+      render(<PlayerManager {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText(/enter your name/i), { target: { value: 'Troll' } });
+      fireEvent.click(screen.getByRole('button', { name: /join room/i }));
+
+      expect(mockOnError).toHaveBeenCalledWith('You were removed from this room by the host');
+      expect(mockDispatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SpectatorPanel } from '../SpectatorPanel';
+import { DEFAULT_ROOM_SETTINGS, GameState } from '../../types/game';
+
+// Mock the game context with a lobby that already has a player and a spectator
+const mockGameState: GameState = {
+  roomCode: 'TEST123',
+  phase: 'lobby',
+  players: [
+    { id: 'player1', name: 'Alice', role: 'resistance', isReady: false, isConnected: true, isLeader: false },
+  ],
+  hostId: 'player1',
+  spectators: [{ id: 'spectator1', name: 'Sam' }],
+  bannedPlayerIds: [],
+  currentLeader: '',
+  currentMission: 1,
+  missionHistory: [],
+  proposals: {},
+  resistanceScore: 0,
+  spyScore: 0,
+  gameLog: [],
+  selectedTeam: [],
+  votingInProgress: false,
+  missionInProgress: false,
+  currentVotes: {},
+  missionSubmissions: [],
+  voteTrack: 0,
+  settings: DEFAULT_ROOM_SETTINGS,
+  sessionWins: { resistance: 0, spy: 0 },
+  phaseDeadline: null,
+  chatMessages: [],
+};
+
+// Mock useGame hook
+vi.mock('../../context/GameContext', async () => {
+  const actual = await vi.importActual('../../context/GameContext');
+  return {
+    ...actual,
+    useGame: () => ({
+      state: mockGameState,
+      dispatch: vi.fn(),
+    }),
+  };
+});
+
+describe('SpectatorPanel', () => {
+  const mockPublishEvent = vi.fn();
+  const mockOnError = vi.fn();
+  const mockOnWatch = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    mockGameState.settings = DEFAULT_ROOM_SETTINGS;
+  });
+
+  const renderPanel = (session: { playerId: string; sessionKey: string } | null = null) =>
+    render(
+      <SpectatorPanel
+        isConnected={true}
+        publishEvent={mockPublishEvent}
+        onError={mockOnError}
+        onWatch={mockOnWatch}
+        session={session}
+      />
+    );
+
+  it('lists the spectators and mentions the delay when they see every role', () => {
+    mockGameState.settings = { ...DEFAULT_ROOM_SETTINGS, omniscientSpectators: true, spectatorDelayMs: 30_000 };
+    renderPanel();
+
+    expect(screen.getByText('Spectators (1)')).toBeInTheDocument();
+    expect(screen.getByText('Sam')).toBeInTheDocument();
+    expect(screen.getByText(/30 seconds behind the game/)).toBeInTheDocument();
+  });
+
+  it('starts watching with a new session', async () => {
+    renderPanel();
+
+    fireEvent.change(screen.getByLabelText('Spectator name'), { target: { value: ' Dana ' } });
+    fireEvent.click(screen.getByText('Watch as Spectator'));
+
+    await waitFor(() => {
+      expect(mockPublishEvent).toHaveBeenCalledWith({
+        type: 'spectator-joined',
+        data: expect.objectContaining({ spectatorName: 'Dana', sessionKey: expect.any(String) }),
+      }, expect.any(String));
+    });
+    // The join is signed with the key it hands over
+    const [[joined, signingKey]] = mockPublishEvent.mock.calls;
+    expect(signingKey).toBe(joined.data.sessionKey);
+    expect(mockOnWatch).toHaveBeenCalledWith(expect.objectContaining({ sessionKey: signingKey }));
+  });
+
+  it('rejects a name that a player already uses', () => {
+    renderPanel();
+
+    fireEvent.change(screen.getByLabelText('Spectator name'), { target: { value: 'alice' } });
+    fireEvent.click(screen.getByText('Watch as Spectator'));
+
+    expect(mockOnError).toHaveBeenCalled();
+    expect(mockPublishEvent).not.toHaveBeenCalled();
+  });
+
+  it('stops watching with the session key', async () => {
+    renderPanel({ playerId: 'spectator1', sessionKey: 'key' });
+
+    expect(screen.getByText('Sam (You)')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Stop Watching'));
+
+    await waitFor(() => {
+      expect(mockOnWatch).toHaveBeenCalledWith(null);
+    });
+    expect(mockPublishEvent).toHaveBeenCalledWith({
+      type: 'spectator-left',
+      data: { spectatorId: 'spectator1' },
+    }, 'key');
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { VotingController } from '../VotingController';
-import { GameState } from '../../types/game';
+import { DEFAULT_ROOM_SETTINGS, GameState } from '../../types/game';
 
 // Mock the GameContext
 const mockState: GameState = {
@@ -12,9 +12,13 @@ const mockState: GameState = {
     { id: '2', name: 'Player 2', role: 'spy', isReady: true, isConnected: true, isLeader: false },
     { id: '3', name: 'Player 3', role: 'resistance', isReady: true, isConnected: true, isLeader: false },
   ],
+  hostId: '1',
+  spectators: [],
+  bannedPlayerIds: [],
   currentLeader: '1',
   currentMission: 1,
   missionHistory: [],
+  proposals: {},
   resistanceScore: 0,
   spyScore: 0,
   gameLog: [],
@@ -22,6 +26,12 @@ const mockState: GameState = {
   votingInProgress: true,
   missionInProgress: false,
   currentVotes: {},
+  missionSubmissions: [],
+  voteTrack: 0,
+  settings: DEFAULT_ROOM_SETTINGS,
+  sessionWins: { resistance: 0, spy: 0 },
+  phaseDeadline: null,
+  chatMessages: [],
 };
 
 const mockDispatch = vi.fn();
@@ -36,6 +46,7 @@ vi.mock('../../context/GameContext', () => ({
 describe('VotingController', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockState.currentVotes = {};
   });
 
   it('should be importable without errors', () => {
@@ -89,4 +100,35 @@ describe('VotingController', () => {
 
     expect(screen.getByText(/As mission leader, your vote is automatically "Yes"/)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should wait for the engine to count a sent vote before showing it', async () => {
+    const mockPublishEvent = vi.fn().mockResolvedValue(undefined);
+    const props = { currentPlayerId: '2', isConnected: true, publishEvent: mockPublishEvent, onError: vi.fn() };
+    const { rerender } = render(<VotingController {...props} />);
+
+    fireEvent.click(screen.getByText('👎 NO'));
+
+    expect(await screen.findByText(/Vote sent/)).toBeInTheDocument();
+    expect(screen.queryByText(/Vote Cast/)).not.toBeInTheDocument();
+    expect(mockPublishEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'vote-cast', data: { vote: false } }));
+
+    mockState.currentVotes = { '2': false };
+    rerender(<VotingController {...props} />);
+
+    expect(screen.getByText(/Vote Cast: NO/)).toBeInTheDocument();
+  });
+
+  it('should offer the buttons again when the vote cannot be sent', async () => {
+    const mockPublishEvent = vi.fn().mockRejectedValue(new Error('Network error'));
+    const onError = vi.fn();
+    render(<VotingController currentPlayerId="2" isConnected={true} publishEvent={mockPublishEvent} onError={onError} />);
+
+    fireEvent.click(screen.getByText('👍 YES'));
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith('Failed to cast vote. Please try again.');
+    });
+    expect(screen.getByText('👍 YES')).toBeInTheDocument();
+    expect(screen.queryByText(/Vote sent/)).not.toBeInTheDocument();
+  });
+});
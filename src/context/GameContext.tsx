@@ -1,45 +1,21 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { GameState, GameEvent, Player, LogEntry, GamePhase, MissionResult } from '../types/game';
-import { validateMissionProgression } from '../utils/gameLogic';
+import { ChatMessage, GameState, GameEvent, Player, PlayerRole, GamePhase, Team } from '../types/game';
+import { appendChatMessage } from '../utils/chat';
+import { arrangeSeats, createInitialGameState, resetGameState } from '../utils/gameLogic';
 
 // Initial game state
-const initialGameState: GameState = {
-  roomCode: '',
-  phase: 'lobby',
-  players: [],
-  currentLeader: '',
-  currentMission: 1,
-  missionHistory: [],
-  resistanceScore: 0,
-  spyScore: 0,
-  gameLog: [],
-  selectedTeam: [],
-  votingInProgress: false,
-  missionInProgress: false,
-  currentVotes: {},
-};
+const initialGameState: GameState = createInitialGameState();
 
-// Action types for the reducer
+// Action types for the reducer. Game rules live in the game engine (utils/gameEngine): the room
+// only follows the events it broadcasts, plus the little a client sets up before joining one.
 export type GameAction = 
   | { type: 'SET_ROOM_CODE'; payload: string }
   | { type: 'SET_PHASE'; payload: GamePhase }
-  | { type: 'ADD_PLAYER'; payload: Player }
-  | { type: 'REMOVE_PLAYER'; payload: string }
-  | { type: 'UPDATE_PLAYER'; payload: { playerId: string; updates: Partial<Player> } }
   | { type: 'SET_PLAYERS'; payload: Player[] }
-  | { type: 'SET_LEADER'; payload: string }
-  | { type: 'SET_SELECTED_TEAM'; payload: string[] }
-  | { type: 'SET_VOTING_IN_PROGRESS'; payload: boolean }
-  | { type: 'SET_MISSION_IN_PROGRESS'; payload: boolean }
-  | { type: 'SET_VOTES'; payload: Record<string, boolean> }
-  | { type: 'ADD_VOTE'; payload: { playerId: string; vote: boolean } }
-  | { type: 'CLEAR_VOTES' }
-  | { type: 'ADD_MISSION_RESULT'; payload: MissionResult }
-  | { type: 'UPDATE_SCORES'; payload: { resistanceScore: number; spyScore: number } }
-  | { type: 'ADD_LOG_ENTRY'; payload: LogEntry }
-  | { type: 'RESET_GAME' }
-  | { type: 'HANDLE_EVENT'; payload: GameEvent }
-  | { type: 'SET_CURRENT_MISSION'; payload: number };
+  | { type: 'SET_HOST'; payload: string | null }
+  | { type: 'REVEAL_ROLES'; payload: Record<string, PlayerRole | null> }
+  | { type: 'ADD_CHAT_MESSAGE'; payload: ChatMessage }
+  | { type: 'HANDLE_EVENT'; payload: GameEvent };
 
 // Game reducer function
 function gameReducer(state: GameState, action: GameAction): GameState {
@@ -50,128 +26,31 @@ function gameReducer(state: GameState, action: GameAction): GameState {
     case 'SET_PHASE':
       return { ...state, phase: action.payload };
     
-    case 'ADD_PLAYER':
-      return {
-        ...state,
-        players: [...state.players, action.payload],
-      };
-    
-    case 'REMOVE_PLAYER':
-      return {
-        ...state,
-        players: state.players.filter(p => p.id !== action.payload),
-      };
-    
-    case 'UPDATE_PLAYER':
-      return {
-        ...state,
-        players: state.players.map(p => 
-          p.id === action.payload.playerId 
-            ? { ...p, ...action.payload.updates }
-            : p
-        ),
-      };
-    
     case 'SET_PLAYERS':
       return { ...state, players: action.payload };
     
-    case 'SET_LEADER':
-      return {
-        ...state,
-        currentLeader: action.payload,
-        players: state.players.map(p => ({
-          ...p,
-          isLeader: p.id === action.payload,
-        })),
-      };
-    
-    case 'SET_SELECTED_TEAM':
-      return { ...state, selectedTeam: action.payload };
-    
-    case 'SET_VOTING_IN_PROGRESS':
-      return { ...state, votingInProgress: action.payload };
-    
-    case 'SET_MISSION_IN_PROGRESS':
-      return { ...state, missionInProgress: action.payload };
-    
-    case 'SET_VOTES':
-      return { ...state, currentVotes: action.payload };
+    case 'SET_HOST':
+      return { ...state, hostId: action.payload };
     
-    case 'ADD_VOTE':
+    case 'REVEAL_ROLES':
+      // Only roles this player is allowed to see are ever revealed (null means hidden)
       return {
         ...state,
-        currentVotes: {
-          ...state.currentVotes,
-          [action.payload.playerId]: action.payload.vote,
-        },
-      };
-    
-    case 'CLEAR_VOTES':
-      return { ...state, currentVotes: {} };
-    
-    case 'ADD_MISSION_RESULT':
-      const newMissionNumber = state.currentMission + 1;
-      
-      // Validate mission progression before updating (Requirements 9.2, 9.3, 9.4)
-      const progressionValidation = validateMissionProgression(
-        newMissionNumber,
-        action.payload.resistancePoints,
-        action.payload.spyPoints
-      );
-      
-      if (!progressionValidation.isValid) {
-        console.warn('Mission progression validation failed:', progressionValidation.error);
-      }
-      
-      return {
-        ...state,
-        missionHistory: [...state.missionHistory, action.payload],
-        currentMission: newMissionNumber,
-      };
-    
-    case 'UPDATE_SCORES':
-      return {
-        ...state,
-        resistanceScore: action.payload.resistanceScore,
-        spyScore: action.payload.spyScore,
+        players: state.players.map(p => {
+          const role = action.payload[p.id];
+          return role ? { ...p, role } : p;
+        }),
       };
     
-    case 'ADD_LOG_ENTRY':
+    case 'ADD_CHAT_MESSAGE':
       return {
         ...state,
-        gameLog: [...state.gameLog, action.payload],
-      };
-    
-    case 'RESET_GAME':
-      return {
-        ...initialGameState,
-        roomCode: state.roomCode, // Keep the room code
-        players: state.players.map(p => ({ // Keep players but reset their state
-          ...p,
-          role: 'resistance', // Will be reassigned
-          isReady: false,
-          isLeader: false,
-        })),
+        chatMessages: appendChatMessage(state.chatMessages, action.payload),
       };
     
-    case 'SET_CURRENT_MISSION':
-      // Validate mission number before setting (Requirements 9.2, 9.4)
-      const missionValidation = validateMissionProgression(
-        action.payload,
-        state.resistanceScore,
-        state.spyScore
-      );
-      
-      if (!missionValidation.isValid) {
-        console.warn('Mission number validation failed:', missionValidation.error);
-        return state; // Don't update if invalid
-      }
-      
-      return { ...state, currentMission: action.payload };
-    
     case 'HANDLE_EVENT':
       // Handle incoming game events and update state accordingly
-      return handleGameEvent(state, action.payload);
+      return appendEventLogEntry(handleGameEvent(state, action.payload), action.payload);
     
     default:
       return state;
@@ -192,17 +71,94 @@ function handleGameEvent(state: GameState, event: GameEvent): GameState {
           isConnected: true,
           isLeader: false,
         };
-        return {
-          ...state,
-          players: [...state.players, newPlayer],
-        };
+        return { ...state, players: [...state.players, newPlayer] };
       }
       return state;
+
+    case 'bot-added':
+      if (state.players.some(p => p.id === event.data.botId)) {
+        return state;
+      }
+      return {
+        ...state,
+        players: [
+          ...state.players,
+          {
+            id: event.data.botId,
+            name: event.data.botName,
+            role: 'resistance',
+            isReady: true,
+            isConnected: true,
+            isLeader: false,
+            isBot: true,
+            botStrategy: event.data.botStrategy,
+          },
+        ],
+      };
+
+    case 'spectator-joined':
+      if (state.spectators.some(s => s.id === event.data.spectatorId)) {
+        return state;
+      }
+      return {
+        ...state,
+        spectators: [...state.spectators, { id: event.data.spectatorId, name: event.data.spectatorName }],
+      };
+    
+    case 'spectator-left':
+      return {
+        ...state,
+        spectators: state.spectators.filter(s => s.id !== event.data.spectatorId),
+      };
     
     case 'player-left':
+      // Players who leave mid-game keep their seat but stop counting as connected
+      return {
+        ...state,
+        players: state.phase === 'lobby'
+          ? state.players.filter(p => p.id !== event.data.playerId)
+          : state.players.map(p =>
+              p.id === event.data.playerId ? { ...p, isConnected: false } : p
+            ),
+      };
+    
+    case 'player-kicked':
       return {
         ...state,
         players: state.players.filter(p => p.id !== event.data.playerId),
+        bannedPlayerIds: [...state.bannedPlayerIds, event.data.playerId],
+      };
+    
+    case 'settings-updated':
+      return { ...state, settings: event.data.settings };
+    
+    case 'room-created':
+    case 'host-transferred':
+      return { ...state, hostId: event.data.hostId };
+    
+    case 'seats-arranged':
+      return { ...state, players: arrangeSeats(state.players, event.data.seatOrder) };
+    
+    case 'assassination-started':
+      return { ...state, phase: 'assassination', selectedTeam: [], currentVotes: {} };
+    
+    case 'phase-timer-started':
+      return { ...state, phaseDeadline: event.data.deadline };
+    
+    case 'player-disconnected':
+      return {
+        ...state,
+        players: state.players.map(p =>
+          p.id === event.data.playerId ? { ...p, isConnected: false } : p
+        ),
+      };
+    
+    case 'player-reconnected':
+      return {
+        ...state,
+        players: state.players.map(p =>
+          p.id === event.data.playerId ? { ...p, isConnected: true } : p
+        ),
       };
     
     case 'player-ready':
@@ -216,24 +172,30 @@ function handleGameEvent(state: GameState, event: GameEvent): GameState {
       };
     
     case 'roles-assigned':
+      // Roles arrive sealed per player and are applied with REVEAL_ROLES once opened.
+      // Players take the seats the engine dealt them, which may have been shuffled.
       return {
         ...state,
         phase: 'team-building',
-        players: state.players.map(p => ({
+        players: (event.data.seatOrder ? arrangeSeats(state.players, event.data.seatOrder) : state.players).map(p => ({
           ...p,
-          role: event.data.roles[p.id] || 'resistance',
+          isLeader: p.id === event.data.firstLeader,
         })),
         currentLeader: event.data.firstLeader,
       };
     
     case 'leadership-changed':
+      // A new leader always starts a fresh team proposal
       return {
         ...state,
+        phase: 'team-building',
         currentLeader: event.data.newLeader,
         players: state.players.map(p => ({
           ...p,
           isLeader: p.id === event.data.newLeader,
         })),
+        selectedTeam: [],
+        currentVotes: {},
       };
     
     case 'team-selected':
@@ -242,7 +204,8 @@ function handleGameEvent(state: GameState, event: GameEvent): GameState {
         selectedTeam: event.data.selectedTeam,
         phase: 'voting',
         votingInProgress: true,
-        currentVotes: {}, // Clear previous votes
+        // The vote opens with whatever the engine counted already (the leader's "Yes", by default)
+        currentVotes: event.data.currentVotes,
       };
     
     case 'vote-cast':
@@ -258,7 +221,17 @@ function handleGameEvent(state: GameState, event: GameEvent): GameState {
       return {
         ...state,
         votingInProgress: false,
-        // Keep votes for display purposes
+        voteTrack: event.data.voteTrack,
+        currentVotes: event.data.votes ?? state.currentVotes, // Keep votes for display purposes
+        proposals: event.data.proposal
+          ? {
+              ...state.proposals,
+              [event.data.proposal.missionNumber]: [
+                ...(state.proposals[event.data.proposal.missionNumber] ?? []),
+                event.data.proposal,
+              ],
+            }
+          : state.proposals,
       };
     
     case 'mission-started':
@@ -266,27 +239,63 @@ function handleGameEvent(state: GameState, event: GameEvent): GameState {
         ...state,
         phase: 'mission',
         missionInProgress: true,
+        missionSubmissions: [],
       };
     
     case 'mission-choice-made':
-      // This event is handled locally in MissionExecution component
-      return state;
+      // Only who has played a card is public; the card itself stays with the game engine
+      if (state.missionSubmissions.includes(event.playerId)) {
+        return state;
+      }
+      return {
+        ...state,
+        missionSubmissions: [...state.missionSubmissions, event.playerId],
+      };
     
     case 'mission-completed':
       return {
         ...state,
         missionInProgress: false,
+        missionSubmissions: [],
         phase: 'mission-result',
         resistanceScore: event.data.newScores.resistance,
         spyScore: event.data.newScores.spy,
+        missionHistory: [...state.missionHistory, event.data.missionResult],
+        currentMission: event.data.missionNumber + 1,
       };
     
+    case 'state-sync':
+      // The engine's snapshot replaces whatever this client had pieced together, except the
+      // chat, which only the clients keep
+      return { ...event.data.snapshot, chatMessages: state.chatMessages };
+    
     case 'game-ended':
       return {
         ...state,
         phase: 'game-end',
+        // The engine reveals every role once the game is over
+        players: state.players.map(p => ({ ...p, role: event.data.roles?.[p.id] ?? p.role })),
         resistanceScore: event.data.finalScores.resistance,
         spyScore: event.data.finalScores.spy,
+        sessionWins: { ...state.sessionWins, [event.data.winner]: state.sessionWins[event.data.winner as Team] + 1 },
+      };
+    
+    case 'game-reset':
+      return resetGameState(state, event.data.keepScores);
+    
+    case 'chat-message':
+      // Spy chat arrives sealed and is opened by the room before it gets here (ADD_CHAT_MESSAGE)
+      if (event.data.channel !== 'room') {
+        return state;
+      }
+      return {
+        ...state,
+        chatMessages: appendChatMessage(state.chatMessages, {
+          playerId: event.playerId,
+          channel: 'room',
+          text: event.data.text,
+          timestamp: event.timestamp,
+        }),
       };
     
     default:
@@ -294,6 +303,17 @@ function handleGameEvent(state: GameState, event: GameEvent): GameState {
   }
 }
 
+// Events published by the game engine carry the log entry for the transition they describe
+function appendEventLogEntry(state: GameState, event: GameEvent): GameState {
+  if (!event.data?.logEntry) {
+    return state;
+  }
+  return {
+    ...state,
+    gameLog: [...state.gameLog, event.data.logEntry],
+  };
+}
+
 // Context type
 interface GameContextType {
   state: GameState;
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { render, act } from '@testing-library/react';
 import { GameProvider, useGame } from '../GameContext';
-import { Player } from '../../types/game';
+import { createGameEvent } from '../../utils/gameLogic';
 
 // Test component to access the context
 function TestComponent() {
@@ -21,15 +21,8 @@ function TestComponent() {
       <button 
         data-testid="add-player" 
         onClick={() => {
-          const player: Player = {
-            id: '1',
-            name: 'Test Player',
-            role: 'resistance',
-            isReady: false,
-            isConnected: true,
-            isLeader: false,
-          };
-          dispatch({ type: 'ADD_PLAYER', payload: player });
+          const joined = createGameEvent('player-joined', 'TEST123', '', { playerId: '1', playerName: 'Test Player' });
+          dispatch({ type: 'HANDLE_EVENT', payload: joined });
         }}
       >
         Add Player
@@ -65,7 +58,7 @@ describe('GameContext', () => {
     expect(getByTestId('room-code')).toHaveTextContent('TEST123');
   });
 
-  it('should add player when dispatched', () => {
+  it('should add a player when the engine broadcasts their join', () => {
     const { getByTestId } = render(
       <GameProvider>
         <TestComponent />
@@ -7,12 +7,42 @@ export type GamePhase =
   | 'voting'          // Players voting on proposed team
   | 'mission'         // Selected players executing mission
   | 'mission-result'  // Showing mission outcome
+  | 'assassination'   // Resistance won three missions; the Assassin gets one guess at Merlin
   | 'game-end';       // Game completed, showing results
 
-export type PlayerRole = 'resistance' | 'spy';
+// Phases that run against the clock; when one expires the game engine resolves it with a fallback
+export type TimedPhase = 'team-building' | 'voting' | 'mission' | 'assassination';
+
+// How long each timed phase may last (ms)
+export type PhaseTimers = Record<TimedPhase, number>;
+
+export type Team = 'resistance' | 'spy';
+
+// Optional Avalon roles; each one replaces a plain resistance member or spy (see utils/specialRoles)
+export type SpecialRole = 'merlin' | 'percival' | 'assassin' | 'morgana' | 'mordred' | 'oberon';
+
+export type PlayerRole = Team | SpecialRole;
+
+// Named sets of rules for who learns whose role at the start of the game (see utils/roleVisibility)
+export type VisibilityRuleset = 'standard' | 'blind-spies';
+
+// For each viewer role, what they are shown of a player holding each role; roles left out stay hidden
+export type VisibilityMatrix = Record<PlayerRole, Partial<Record<PlayerRole, PlayerRole>>>;
+
+// Lifecycle of a persisted Game record
+export type GameStatus = 'waiting' | 'in_progress' | 'completed';
 
 export type MissionOutcome = 'success' | 'failure' | 'pending';
 
+// Where a chat message was posted: the whole room, or only the spies who know each other
+export type ChatChannel = 'room' | 'spies';
+
+// How a bot decides its moves (see utils/bots)
+export type BotStrategyName = 'random' | 'rule-based';
+
+// Returns a number in [0, 1), like Math.random; the game engine and tests pass a seeded one
+export type RandomSource = () => number;
+
 export interface Player {
   id: string;
   name: string;
@@ -20,19 +50,45 @@ export interface Player {
   isReady: boolean;
   isConnected: boolean;
   isLeader: boolean;
+  isBot?: boolean; // Added by the host to fill a seat; always ready and never disconnects
+  botStrategy?: BotStrategyName; // Set for bots
+}
+
+// Someone watching the room without playing: never seated, never dealt a role
+export interface Spectator {
+  id: string;
+  name: string;
+}
+
+// What a client needs to act as a player in a room (or watch it as a spectator)
+export interface PlayerSession {
+  playerId: string;
+  sessionKey: string; // Secret shared only with the game engine, used to seal private data
 }
 
 export interface MissionResult {
   missionNumber: number;
   requiredPlayers: number;
+  leader: string; // Who proposed the team that went on the mission
   selectedPlayers: string[];
   votes: Record<string, boolean>; // playerId -> yes/no vote
-  missionChoices: Record<string, boolean>; // playerId -> success/fail choice
+  missionChoices: boolean[]; // Shuffled mission cards (true = success); who played which is never recorded
   outcome: MissionOutcome;
   resistancePoints: number;
   spyPoints: number;
 }
 
+// One team put to a vote; rejected proposals are kept as well, since who proposed and
+// who approved which team is most of what players have to deduce from
+export interface Proposal {
+  missionNumber: number;
+  attempt: number; // 1 for the first team proposed on the mission
+  leader: string;
+  team: string[];
+  votes: Record<string, boolean>; // playerId -> yes/no vote
+  approved: boolean;
+}
+
 export interface Mission {
   number: number;
   requiredPlayers: number;
@@ -45,18 +101,30 @@ export interface Mission {
 export interface LogEntry {
   id: string;
   timestamp: number;
-  type: 'mission-start' | 'team-vote' | 'mission-complete' | 'leadership-change' | 'game-end';
+  type: 'mission-start' | 'team-vote' | 'mission-complete' | 'leadership-change' | 'game-end' | 'phase-timeout' | 'assassination';
   message: string;
   data?: Record<string, any>;
 }
 
+// A chat message as this client received it
+export interface ChatMessage {
+  playerId: string;
+  channel: ChatChannel;
+  text: string;
+  timestamp: number;
+}
+
 export interface GameState {
   roomCode: string;
   phase: GamePhase;
-  players: Player[];
+  players: Player[]; // In seat order, clockwise around the table
+  hostId: string | null; // Player who runs the lobby (start, kick, settings); reserved for the room's creator until they join
+  spectators: Spectator[]; // People watching without playing
+  bannedPlayerIds: string[]; // Players the host kicked from the lobby; the engine also refuses the sign-in they joined from
   currentLeader: string;
   currentMission: number;
   missionHistory: MissionResult[];
+  proposals: Record<number, Proposal[]>; // mission number -> every team put to a vote, in order
   resistanceScore: number;
   spyScore: number;
   gameLog: LogEntry[];
@@ -65,12 +133,23 @@ export interface GameState {
   votingInProgress: boolean;
   missionInProgress: boolean;
   currentVotes: Record<string, boolean>; // Current voting state
+  missionSubmissions: string[]; // Team members who have played their card this mission (not what they played)
+  voteTrack: number; // Consecutive rejected team proposals for the current mission
+  settings: RoomSettings; // House rules, locked once roles are assigned
+  sessionWins: Record<Team, number>; // Games each side has won in this room since the score was last cleared
+  phaseDeadline: number | null; // When the current timed phase expires (ms since epoch); null when untimed
+  chatMessages: ChatMessage[]; // Chat this client has seen; kept by each client, never in the engine's snapshot
 }
 
 // Event types for real-time communication
 export type GameEventType = 
+  | 'room-created'       // Whoever created the room reserves the host's seat before anyone can join
   | 'player-joined'
   | 'player-left'
+  | 'player-kicked'      // The host removed a player from the lobby and banned them from the room
+  | 'player-reconnected' // A player resumes their seat with the session they joined with
+  | 'player-heartbeat'   // Sent periodically while a player's tab is open (never rebroadcast)
+  | 'player-disconnected' // The engine stopped hearing heartbeats from a player
   | 'player-ready'
   | 'game-started'
   | 'roles-assigned'
@@ -83,7 +162,22 @@ export type GameEventType =
   | 'mission-completed'
   | 'leadership-changed'
   | 'game-ended'
-  | 'error-occurred';
+  | 'game-reset'         // The host started another game in the same room
+  | 'error-occurred'
+  | 'state-sync-requested' // A newly connected client asks for the current state
+  | 'state-sync'           // Role-redacted snapshot answering a state-sync-requested
+  | 'phase-timer-started'  // The engine set the deadline for a timed phase
+  | 'phase-timed-out'      // A timed phase expired and its fallback was applied
+  | 'settings-updated'     // The host changed the house rules
+  | 'seats-arranged'       // The host moved players to different seats
+  | 'host-transferred'     // The host handed over, or the engine moved hosting off a host who left
+  | 'assassination-started' // The resistance won three missions and the Assassin must name Merlin
+  | 'assassination-attempted' // The Assassin's guess
+  | 'chat-message'         // A player's chat message; spy chat goes out sealed to the spies on the channel
+  | 'spectator-joined'     // Someone started watching the room
+  | 'spectator-left'       // A spectator stopped watching
+  | 'spectator-feed'       // Roles or spy chat sealed for omniscient spectators, released once the spectator delay has passed
+  | 'bot-added';           // The host filled a seat with a bot
 
 export interface GameEvent {
   type: GameEventType;
@@ -91,6 +185,7 @@ export interface GameEvent {
   playerId: string;
   timestamp: number;
   data: Record<string, any>;
+  signature?: string; // HMAC of the event with the sender's session key; the engine strips it before rebroadcasting
 }
 
 // Mission requirements based on player count (from requirements)
@@ -103,6 +198,36 @@ export const MISSION_REQUIREMENTS: Record<number, number[]> = {
   10: [3, 4, 4, 5, 5],  // 10 players: missions require 3,4,4,5,5 players
 };
 
+// Fail cards needed to sabotage each mission, by player count (mission 4 needs two with 7+ players)
+export const MISSION_FAIL_THRESHOLDS: Record<number, number[]> = {
+  5: [1, 1, 1, 1, 1],
+  6: [1, 1, 1, 1, 1],
+  7: [1, 1, 1, 2, 1],
+  8: [1, 1, 1, 2, 1],
+  9: [1, 1, 1, 2, 1],
+  10: [1, 1, 1, 2, 1],
+};
+
+// Consecutive rejected team proposals that hand the victory to the spies
+export const MAX_VOTE_TRACK = 5;
+
+// Default time limits for the timed phases
+export const DEFAULT_PHASE_TIMERS: PhaseTimers = {
+  'team-building': 120_000,
+  voting: 60_000,
+  mission: 60_000,
+  assassination: 120_000,
+};
+
+// How often a player's tab heartbeats, and how long the engine waits before marking them disconnected
+export const HEARTBEAT_INTERVAL_MS = 10_000;
+export const PRESENCE_TIMEOUT_MS = 30_000;
+
+// Chat limits: message length, and how many messages a player may send within the rate limit window
+export const MAX_CHAT_MESSAGE_LENGTH = 280;
+export const CHAT_RATE_LIMIT_MESSAGES = 5;
+export const CHAT_RATE_LIMIT_WINDOW_MS = 10_000;
+
 // Role distribution based on player count (from requirements 4.1-4.6)
 export const ROLE_DISTRIBUTION: Record<number, { resistance: number; spy: number }> = {
   5: { resistance: 3, spy: 2 },
@@ -111,4 +236,42 @@ export const ROLE_DISTRIBUTION: Record<number, { resistance: number; spy: number
   8: { resistance: 5, spy: 3 },
   9: { resistance: 6, spy: 3 },
   10: { resistance: 6, spy: 4 },
-};
\ No newline at end of file
+};
+
+// How players are seated at the table; leadership passes clockwise from seat to seat
+export type Seating = 'random' | 'host-arranged';
+
+// House rules for a room. The host edits them in the lobby; they are locked once roles are assigned.
+export interface RoomSettings {
+  missionRequirements: Record<number, number[]>; // Team size for each mission, by player count
+  missionFailThresholds: Record<number, number[]>; // Fail cards needed to sabotage each mission, by player count
+  roleDistribution: Record<number, { resistance: number; spy: number }>;
+  maxVoteTrack: number; // Rejected proposals in a row that hand the game to the spies
+  tieWinner: Team; // Who wins if the missions run out with the score level
+  leaderAutoVotesYes: boolean; // Whether proposing a team counts as the leader's "Yes" (Requirement 7.2)
+  seating: Seating; // Shuffle the seats when the game starts, or keep the host's arrangement
+  specialRoles: SpecialRole[]; // Optional Avalon roles dealt in place of plain ones
+  visibilityRuleset: VisibilityRuleset; // Which roles each player learns when roles are dealt
+  phaseTimers: PhaseTimers;
+  muteChatDuringMission: boolean; // Nobody may chat while a mission team is playing its cards
+  spyChat: boolean; // Give the spies who know each other a private chat channel
+  omniscientSpectators: boolean; // Spectators are shown every role, e.g. for streaming the game
+  spectatorDelayMs: number; // How far behind the game omniscient spectators watch
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  missionRequirements: MISSION_REQUIREMENTS,
+  missionFailThresholds: MISSION_FAIL_THRESHOLDS,
+  roleDistribution: ROLE_DISTRIBUTION,
+  maxVoteTrack: MAX_VOTE_TRACK,
+  tieWinner: 'spy',
+  leaderAutoVotesYes: true,
+  seating: 'random',
+  specialRoles: [],
+  visibilityRuleset: 'standard',
+  phaseTimers: DEFAULT_PHASE_TIMERS,
+  muteChatDuringMission: false,
+  spyChat: false,
+  omniscientSpectators: false,
+  spectatorDelayMs: 60_000,
+};
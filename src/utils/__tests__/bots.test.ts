@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BotStrategy,
+  createBotView,
+  createRandomStrategy,
+  createResistanceStrategy,
+  createSpyStrategy,
+  getBotStrategy,
+  isBotStrategyName,
+  planBotAction,
+} from '../bots';
+import { createInitialGameState, getVisibleRoles } from '../gameLogic';
+import { GameState, MissionResult, Player, PlayerRole } from '../../types/game';
+
+function player(id: string, role: PlayerRole): Player {
+  return { id, name: id, role, isReady: true, isConnected: true, isLeader: false };
+}
+
+// Five players in seat order: two spies who know each other, and three resistance members
+function createGame(changes: Partial<GameState> = {}): GameState {
+  return {
+    ...createInitialGameState('TEST'),
+    phase: 'team-building',
+    players: [
+      player('spy1', 'spy'),
+      player('res1', 'resistance'),
+      player('spy2', 'spy'),
+      player('res2', 'resistance'),
+      player('res3', 'resistance'),
+    ],
+    currentLeader: 'res1',
+    ...changes,
+  };
+}
+
+function viewFor(game: GameState, botId: string) {
+  const bot = game.players.find(p => p.id === botId)!;
+  return createBotView(game, botId, getVisibleRoles(bot, game.players));
+}
+
+function mission(missionNumber: number, selectedPlayers: string[], fails: number): MissionResult {
+  return {
+    missionNumber,
+    requiredPlayers: selectedPlayers.length,
+    leader: selectedPlayers[0],
+    selectedPlayers,
+    votes: {},
+    missionChoices: selectedPlayers.map((_, index) => index >= fails),
+    outcome: fails > 0 ? 'failure' : 'success',
+    resistancePoints: fails > 0 ? 0 : 1,
+    spyPoints: fails > 0 ? 1 : 0,
+  };
+}
+
+// Always picks the low end, so random choices are predictable
+const lowRandom = () => 0;
+
+describe('bots', () => {
+  describe('createBotView', () => {
+    it('should hide every role the bot was not shown', () => {
+      const view = viewFor(createGame(), 'res1');
+
+      expect(view.role).toBe('resistance');
+      expect(view.game.players.every(p => p.role === 'resistance')).toBe(true);
+      expect(viewFor(createGame(), 'spy1').knownRoles.spy2).toBe('spy');
+    });
+
+    it('should need the bot to know its own role', () => {
+      expect(() => createBotView(createGame(), 'res1', {})).toThrow('does not know its own role');
+    });
+  });
+
+  describe('planBotAction', () => {
+    const strategy = createResistanceStrategy(lowRandom);
+
+    it('should propose a team of the right size only when the bot leads', () => {
+      const game = createGame();
+
+      const action = planBotAction(viewFor(game, 'res1'), strategy)!;
+      expect(action.type).toBe('team-selected');
+      expect(action.data.selectedTeam).toHaveLength(2);
+      expect(action.data.selectedTeam).toContain('res1');
+
+      expect(planBotAction(viewFor(game, 'res2'), strategy)).toBeNull();
+    });
+
+    it('should vote once', () => {
+      const game = createGame({ phase: 'voting', selectedTeam: ['res1', 'res2'], currentVotes: { res1: true } });
+
+      expect(planBotAction(viewFor(game, 'res2'), strategy)).toEqual({ type: 'vote-cast', data: { vote: true } });
+      expect(planBotAction(viewFor(game, 'res1'), strategy)).toBeNull();
+    });
+
+    it('should only let spies play Fail, whatever the strategy says', () => {
+      const game = createGame({ phase: 'mission', currentMission: 2, selectedTeam: ['spy1', 'res1', 'res2'] });
+      const alwaysFail: BotStrategy = { ...createRandomStrategy(), playMission: () => false };
+
+      expect(planBotAction(viewFor(game, 'res1'), alwaysFail)!.data).toEqual({ choice: true });
+      expect(planBotAction(viewFor(game, 'spy1'), alwaysFail)!.data).toEqual({ choice: false });
+      expect(planBotAction(viewFor(game, 'spy2'), alwaysFail)).toBeNull();
+    });
+
+    it('should leave the assassination to the Assassin', () => {
+      const game = createGame({
+        phase: 'assassination',
+        players: [player('assassin', 'assassin'), player('merlin', 'merlin'), ...createGame().players.slice(2)],
+      });
+
+      expect(planBotAction(viewFor(game, 'assassin'), getBotStrategy('rule-based', 'assassin'))!.type).toBe('assassination-attempted');
+      expect(planBotAction(viewFor(game, 'merlin'), getBotStrategy('rule-based', 'merlin'))).toBeNull();
+    });
+  });
+
+  describe('rule-based resistance', () => {
+    const strategy = createResistanceStrategy(lowRandom);
+
+    it('should trust players who went on successful missions and distrust those on failed ones', () => {
+      const game = createGame({
+        currentMission: 3,
+        missionHistory: [mission(1, ['res2', 'spy2'], 0), mission(2, ['spy1', 'res3'], 1)],
+      });
+
+      const team = strategy.proposeTeam(viewFor(game, 'res1'), 3);
+      expect([...team].sort()).toEqual(['res1', 'res2', 'spy2']);
+
+      expect(strategy.vote(viewFor({ ...game, phase: 'voting', selectedTeam: ['res1', 'spy1'] }, 'res1'))).toBe(false);
+      expect(strategy.vote(viewFor({ ...game, phase: 'voting', selectedTeam: ['res1', 'spy2'] }, 'res1'))).toBe(true);
+    });
+
+    it('should approve any team rather than lose on the vote track', () => {
+      const game = createGame({
+        phase: 'voting',
+        currentMission: 3,
+        missionHistory: [mission(1, ['spy1', 'res3'], 1)],
+        selectedTeam: ['spy1', 'res3'],
+        voteTrack: 4,
+      });
+
+      expect(strategy.vote(viewFor(game, 'res1'))).toBe(true);
+    });
+
+    it('should vote down teams with a spy it was shown', () => {
+      const game = createGame({ phase: 'voting', selectedTeam: ['spy1', 'res2'] });
+      game.players[1] = player('res1', 'merlin');
+
+      expect(strategy.vote(viewFor(game, 'res1'))).toBe(false);
+    });
+  });
+
+  describe('rule-based spy', () => {
+    const strategy = createSpyStrategy(lowRandom);
+
+    it('should only approve teams with a spy on them, and reject rather than let the vote track run out', () => {
+      const game = createGame({ phase: 'voting', selectedTeam: ['spy2', 'res1'] });
+
+      expect(strategy.vote(viewFor(game, 'spy1'))).toBe(true);
+      expect(strategy.vote(viewFor({ ...game, selectedTeam: ['res1', 'res2'] }, 'spy1'))).toBe(false);
+      expect(strategy.vote(viewFor({ ...game, voteTrack: 4 }, 'spy1'))).toBe(false);
+    });
+
+    it('should put itself on its own team', () => {
+      const team = strategy.proposeTeam(viewFor(createGame({ currentLeader: 'spy1' }), 'spy1'), 2);
+
+      expect(team[0]).toBe('spy1');
+      expect(team).not.toContain('spy2');
+    });
+
+    it('should lie low on the first mission and sabotage later ones', () => {
+      const first = createGame({ phase: 'mission', selectedTeam: ['spy1', 'res1'] });
+      const second = { ...first, currentMission: 2, selectedTeam: ['spy1', 'res1', 'res2'] };
+
+      expect(strategy.playMission(viewFor(first, 'spy1'))).toBe(true);
+      expect(strategy.playMission(viewFor(second, 'spy1'))).toBe(false);
+    });
+
+    it('should leave a single Fail to the first spy around the table', () => {
+      const game = createGame({ phase: 'mission', currentMission: 2, selectedTeam: ['spy1', 'spy2', 'res1'] });
+
+      expect(strategy.playMission(viewFor(game, 'spy1'))).toBe(false);
+      expect(strategy.playMission(viewFor(game, 'spy2'))).toBe(true);
+    });
+
+    it('should assassinate the player who kept voting against the spies', () => {
+      const players = [player('assassin', 'assassin'), player('spy', 'spy'), player('merlin', 'merlin'), player('loyal', 'resistance'), player('other', 'resistance')];
+      const game = createGame({
+        phase: 'assassination',
+        players,
+        proposals: {
+          1: [{ missionNumber: 1, attempt: 1, leader: 'loyal', team: ['spy', 'loyal'], votes: { merlin: false, loyal: true, other: true }, approved: true }],
+          2: [{ missionNumber: 2, attempt: 1, leader: 'merlin', team: ['merlin', 'loyal', 'other'], votes: { merlin: true, loyal: true, other: false }, approved: true }],
+        },
+      });
+
+      expect(strategy.chooseAssassinationTarget(viewFor(game, 'assassin'))).toBe('merlin');
+    });
+  });
+
+  describe('getBotStrategy', () => {
+    it('should know the strategies it offers', () => {
+      expect(isBotStrategyName('random')).toBe(true);
+      expect(isBotStrategyName('rule-based')).toBe(true);
+      expect(isBotStrategyName('clever')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  appendChatMessage,
+  createWordFilter,
+  getSpyChatMembers,
+  isChatMuted,
+  isChatRateLimited,
+  MAX_CHAT_HISTORY,
+  prepareChatText,
+  setProfanityFilter,
+} from '../chat';
+import { CHAT_RATE_LIMIT_MESSAGES, CHAT_RATE_LIMIT_WINDOW_MS, DEFAULT_ROOM_SETTINGS, Player, PlayerRole } from '../../types/game';
+
+function player(id: string, role: PlayerRole): Player {
+  return { id, name: id, role, isReady: true, isConnected: true, isLeader: false };
+}
+
+describe('chat', () => {
+  afterEach(() => {
+    setProfanityFilter(text => text);
+  });
+
+  describe('profanity filter', () => {
+    it('should mask listed words, ignoring case', () => {
+      const filter = createWordFilter(['darn']);
+
+      expect(filter('Darn it, darned spies')).toBe('**** it, darned spies');
+    });
+
+    it('should run messages through the installed filter', () => {
+      expect(prepareChatText('  darn  ')).toBe('darn');
+
+      setProfanityFilter(createWordFilter(['darn']));
+      expect(prepareChatText('  darn  ')).toBe('****');
+    });
+  });
+
+  describe('isChatRateLimited', () => {
+    it('should only count messages inside the window', () => {
+      const now = 100_000;
+      const recent = Array.from({ length: CHAT_RATE_LIMIT_MESSAGES }, (_, index) => now - index);
+
+      expect(isChatRateLimited(recent, now)).toBe(true);
+      expect(isChatRateLimited(recent.slice(1), now)).toBe(false);
+      expect(isChatRateLimited(recent, now + CHAT_RATE_LIMIT_WINDOW_MS)).toBe(false);
+    });
+  });
+
+  describe('isChatMuted', () => {
+    it('should only mute missions, and only when the house rules say so', () => {
+      const muted = { ...DEFAULT_ROOM_SETTINGS, muteChatDuringMission: true };
+
+      expect(isChatMuted('mission', muted)).toBe(true);
+      expect(isChatMuted('voting', muted)).toBe(false);
+      expect(isChatMuted('mission', DEFAULT_ROOM_SETTINGS)).toBe(false);
+    });
+  });
+
+  describe('getSpyChatMembers', () => {
+    const players = [
+      player('assassin', 'assassin'),
+      player('spy', 'spy'),
+      player('oberon', 'oberon'),
+      player('merlin', 'merlin'),
+      player('loyal', 'resistance'),
+    ];
+    const spyChat = { ...DEFAULT_ROOM_SETTINGS, spyChat: true };
+
+    it('should include the spies who know each other, but not Oberon', () => {
+      expect(getSpyChatMembers(players, spyChat).map(p => p.id)).toEqual(['assassin', 'spy']);
+    });
+
+    it('should be empty when spies are kept in the dark or the channel is off', () => {
+      expect(getSpyChatMembers(players, { ...spyChat, visibilityRuleset: 'blind-spies' })).toEqual([]);
+      expect(getSpyChatMembers(players, DEFAULT_ROOM_SETTINGS)).toEqual([]);
+    });
+  });
+
+  describe('appendChatMessage', () => {
+    it('should keep only the most recent messages', () => {
+      const history = Array.from({ length: MAX_CHAT_HISTORY }, (_, index) => ({
+        playerId: 'alice',
+        channel: 'room' as const,
+        text: `message ${index}`,
+        timestamp: index,
+      }));
+
+      const next = appendChatMessage(history, { playerId: 'bob', channel: 'room', text: 'latest', timestamp: 999 });
+
+      expect(next).toHaveLength(MAX_CHAT_HISTORY);
+      expect(next[0].text).toBe('message 1');
+      expect(next[next.length - 1].text).toBe('latest');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { GameEventType } from '../../types/game';
+import { RoomState, answerUnsignedEvent, applyEvent, createRoomState } from '../gameEngine';
+import { createGameEvent } from '../gameLogic';
+import { generateSessionKey } from '../sessionCrypto';
+
+const ROOM_CODE = 'ABC123';
+const PLAYER_IDS = ['alice', 'bob', 'carol', 'dave', 'eve', 'frank', 'grace', 'heidi', 'ivan', 'judy'];
+const NOW = 1_000_000;
+
+// Signatures are checked by whoever runs the engine, so events go in unsigned here
+function apply(room: RoomState, type: GameEventType, playerId: string, data: Record<string, any> = {}): RoomState {
+  const result = applyEvent(room, createGameEvent(type, ROOM_CODE, playerId, data, NOW), NOW);
+  if (!result.accepted) {
+    throw new Error(result.error);
+  }
+  return result.state;
+}
+
+// A lobby of ready players, seated at random, with Alice hosting
+function createLobby(seed: number, playerCount = 5): RoomState {
+  const players = PLAYER_IDS.slice(0, playerCount);
+  const sessionKeys = Object.fromEntries(players.map(id => [id, generateSessionKey()]));
+  let room = apply(createRoomState(ROOM_CODE, seed), 'room-created', '', {
+    hostId: players[0],
+    sessionKey: sessionKeys[players[0]],
+  });
+  players.forEach(id => {
+    room = apply(room, 'player-joined', '', { playerId: id, playerName: id, sessionKey: sessionKeys[id] });
+    room = apply(room, 'player-ready', id, { playerId: id, isReady: true });
+  });
+  return room;
+}
+
+describe('applyEvent', () => {
+  it('gives the same result for the same room, event and time', () => {
+    const room = createLobby(7);
+    const start = createGameEvent('game-started', ROOM_CODE, 'alice', {}, NOW);
+
+    expect(applyEvent(room, start, NOW)).toEqual(applyEvent(room, start, NOW));
+  });
+
+  it('leaves the room it is given untouched', () => {
+    const room = createLobby(7);
+    const before = JSON.parse(JSON.stringify(room));
+
+    applyEvent(room, createGameEvent('game-started', ROOM_CODE, 'alice', {}, NOW), NOW);
+
+    expect(room).toEqual(before);
+  });
+
+  it('deals seats and roles from the room seed, and moves the seed on', () => {
+    const deal = (seed: number) => {
+      const { state } = applyEvent(createLobby(seed, 10), createGameEvent('game-started', ROOM_CODE, 'alice', {}, NOW), NOW);
+      return { state, seating: state.game.players.map(p => `${p.id}:${p.role}`) };
+    };
+
+    expect(deal(1).seating).toEqual(deal(1).seating);
+    expect(deal(1).seating).not.toEqual(deal(2).seating);
+    expect(deal(1).state.randomSeed).not.toBe(createLobby(1, 10).randomSeed);
+  });
+
+  it('stamps engine events and log entries with the time it is given', () => {
+    const { effects } = applyEvent(createLobby(7), createGameEvent('game-started', ROOM_CODE, 'alice', {}, NOW), NOW);
+    const rolesAssigned = effects.events.find(e => e.type === 'roles-assigned')!;
+
+    expect(rolesAssigned.timestamp).toBe(NOW);
+    expect(rolesAssigned.data.logEntry.timestamp).toBe(NOW);
+  });
+
+  it('sends the votes a proposal opens with along with the team', () => {
+    const started = apply(createLobby(7), 'game-started', 'alice');
+    const leader = started.game.currentLeader;
+    const team = started.game.players.slice(0, 2).map(p => p.id);
+
+    const { effects } = applyEvent(started, createGameEvent('team-selected', ROOM_CODE, leader, { selectedTeam: team }, NOW), NOW);
+
+    expect(effects.events[0].data).toEqual({ selectedTeam: team, currentVotes: { [leader]: true } });
+  });
+
+  it('hands back the room unchanged, with nothing to carry out, when it refuses an event', () => {
+    const room = createLobby(7);
+
+    const result = applyEvent(room, createGameEvent('game-started', ROOM_CODE, 'bob', {}, NOW), NOW);
+
+    expect(result.accepted).toBe(false);
+    expect(result.state).toBe(room);
+    expect(result.effects).toEqual({ events: [], deliveries: [], warnings: [] });
+  });
+
+  it('reports a timeout it could not apply instead of refusing the event that found it', () => {
+    const started = apply(createLobby(7), 'game-started', 'alice');
+    const leader = started.game.currentLeader;
+    const voting = apply(started, 'team-selected', leader, { selectedTeam: started.game.players.slice(0, 2).map(p => p.id) });
+    // Everyone has dropped off by the time the vote runs out, so nobody can take the lead
+    const players = voting.game.players.map(p => ({ ...p, isConnected: false }));
+    const room = { ...voting, game: { ...voting.game, players, phaseDeadline: NOW - 1 } };
+
+    const watch = createGameEvent('spectator-joined', ROOM_CODE, '', {
+      spectatorId: 'sam',
+      spectatorName: 'Sam',
+      sessionKey: generateSessionKey(),
+    }, NOW);
+    const result = applyEvent(room, watch, NOW);
+
+    expect(result.accepted).toBe(true);
+    expect(result.effects.warnings).toEqual(['The voting timeout could not be applied: No connected players available for leadership']);
+  });
+});
+
+describe('answerUnsignedEvent', () => {
+  it('answers a state sync without storing anything or running the clock', () => {
+    const started = apply(createLobby(7), 'game-started', 'alice');
+    // The team-building deadline has passed, but nobody signed anything that would apply it
+    const room = { ...started, game: { ...started.game, phaseDeadline: NOW - 1 } };
+
+    const result = answerUnsignedEvent(room, createGameEvent('state-sync-requested', ROOM_CODE, '', { requestId: 'sync-1' }, NOW), NOW);
+
+    expect(result.accepted).toBe(true);
+    expect(result.state).toBe(room);
+    expect(result.effects.events.map(e => e.type)).toEqual(['state-sync']);
+    expect(result.effects.deliveries).toEqual([]);
+  });
+
+  it('does not hold roles for an omniscient spectator who did not sign the request', () => {
+    const lobby = apply(createLobby(7), 'spectator-joined', '', {
+      spectatorId: 'sam',
+      spectatorName: 'Sam',
+      sessionKey: generateSessionKey(),
+    });
+    const settings = { ...lobby.game.settings, omniscientSpectators: true };
+    const started = apply({ ...lobby, game: { ...lobby.game, settings } }, 'game-started', 'alice');
+
+    const result = answerUnsignedEvent(started, createGameEvent('state-sync-requested', ROOM_CODE, '', { requestId: 'sync-1', spectatorId: 'sam' }, NOW), NOW);
+
+    expect(result.state).toBe(started);
+    expect(result.effects.deliveries).toEqual([]);
+  });
+
+  it('refuses any other intent', () => {
+    const room = createLobby(7);
+
+    const result = answerUnsignedEvent(room, createGameEvent('game-started', ROOM_CODE, 'alice', {}, NOW), NOW);
+
+    expect(result.accepted).toBe(false);
+    expect(result.state).toBe(room);
+  });
+});
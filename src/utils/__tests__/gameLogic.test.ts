@@ -2,13 +2,26 @@ import { describe, it, expect } from 'vitest';
 import { 
   assignRoles, 
   getNextLeader, 
+  arrangeSeats,
+  shuffleSeats,
   calculateVotingResult, 
+  getProposalHistory,
+  sortProposalsByPlayer,
   calculateMissionResult,
+  shuffleMissionCards,
+  getMissionFailThreshold,
+  getGameStatus,
+  createInitialGameState,
+  redactGameState,
+  resetGameState,
+  pickRandomTeam,
+  isTimedPhase,
   checkGameEnd,
   generateRoomCode,
+  createSeededRandom,
   canPlayerChooseFail
 } from '../gameLogic';
-import { Player } from '../../types/game';
+import { DEFAULT_ROOM_SETTINGS, Player, Proposal } from '../../types/game';
 
 describe('gameLogic', () => {
   const mockPlayers: Player[] = [
@@ -30,18 +43,61 @@ describe('gameLogic', () => {
       expect(resistanceCount).toBe(3);
       expect(spyCount).toBe(2);
     });
+
+    it('should deal each special role once on the right team', () => {
+      const assigned = assignRoles(mockPlayers, { ...DEFAULT_ROOM_SETTINGS, specialRoles: ['merlin', 'assassin', 'mordred'] });
+      const roles = assigned.map(p => p.role);
+
+      expect(roles.filter(role => role === 'merlin')).toHaveLength(1);
+      expect(roles.filter(role => role === 'assassin')).toHaveLength(1);
+      expect(roles.filter(role => role === 'mordred')).toHaveLength(1);
+      expect(roles.filter(role => role === 'resistance')).toHaveLength(2);
+      expect(roles.filter(role => role === 'spy')).toHaveLength(0);
+    });
+
+    it('should reject more special roles than a team has seats', () => {
+      expect(() => assignRoles(mockPlayers, { ...DEFAULT_ROOM_SETTINGS, specialRoles: ['assassin', 'morgana', 'mordred'] })).toThrow();
+    });
   });
 
   describe('getNextLeader', () => {
-    it('should return next leader in alphabetical order', () => {
+    it('should return next leader clockwise by seat', () => {
       const nextLeader = getNextLeader(mockPlayers, '1'); // Alice is current
-      expect(nextLeader).toBe('2'); // Bob should be next
+      expect(nextLeader).toBe('2'); // Bob sits next
     });
 
     it('should wrap around to first player', () => {
       const nextLeader = getNextLeader(mockPlayers, '5'); // Eve is current
       expect(nextLeader).toBe('1'); // Alice should be next (wrap around)
     });
+
+    it('should follow the seats rather than names', () => {
+      const players = [mockPlayers[2], mockPlayers[0], mockPlayers[1]]; // Charlie, Alice, Bob
+
+      expect(getNextLeader(players, '3')).toBe('1');
+      expect(getNextLeader(players, '2')).toBe('3');
+    });
+
+    it('should skip disconnected players', () => {
+      const players = mockPlayers.map(p => (p.id === '2' ? { ...p, isConnected: false } : p));
+
+      expect(getNextLeader(players, '1')).toBe('3');
+    });
+  });
+
+  describe('seating', () => {
+    it('should reorder players to match a seating plan', () => {
+      const seated = arrangeSeats(mockPlayers, ['3', '1', '5', '2', '4']);
+
+      expect(seated.map(p => p.name)).toEqual(['Charlie', 'Alice', 'Eve', 'Bob', 'David']);
+    });
+
+    it('should seat every player once when shuffling', () => {
+      const seated = shuffleSeats(mockPlayers);
+
+      expect(seated).toHaveLength(mockPlayers.length);
+      expect(seated.map(p => p.id).sort()).toEqual(['1', '2', '3', '4', '5']);
+    });
   });
 
   describe('calculateVotingResult', () => {
@@ -64,10 +120,149 @@ describe('gameLogic', () => {
     });
   });
 
+  describe('proposal history', () => {
+    const proposal = (missionNumber: number, attempt: number, leader: string, team: string[], votes: Record<string, boolean>): Proposal => ({
+      missionNumber,
+      attempt,
+      leader,
+      team,
+      votes,
+      approved: Object.values(votes).filter(Boolean).length > Object.values(votes).length / 2,
+    });
+
+    const first = proposal(1, 1, '1', ['1', '2'], { '1': true, '2': true, '3': false });
+    const second = proposal(1, 2, '2', ['2', '3'], { '1': false, '2': true, '3': true });
+    const third = proposal(2, 1, '3', ['3', '2'], { '1': true, '2': true, '3': true });
+
+    it('should list every proposal in the order it was voted on', () => {
+      expect(getProposalHistory({ 2: [third], 1: [first, second] })).toEqual([first, second, third]);
+      expect(getProposalHistory({})).toEqual([]);
+    });
+
+    it('should sort proposals around a player, keeping play order for ties', () => {
+      expect(sortProposalsByPlayer([first, second, third], '3')).toEqual([third, second, first]);
+      expect(sortProposalsByPlayer([first, second, third], '1')).toEqual([first, third, second]);
+      expect(sortProposalsByPlayer([first, second, third], '2')).toEqual([second, first, third]);
+    });
+  });
+
+  describe('getGameStatus', () => {
+    it('should map phases to the stored game status', () => {
+      expect(getGameStatus('lobby')).toBe('waiting');
+      expect(getGameStatus('team-building')).toBe('in_progress');
+      expect(getGameStatus('mission-result')).toBe('in_progress');
+      expect(getGameStatus('game-end')).toBe('completed');
+    });
+  });
+
+  describe('isTimedPhase', () => {
+    it('should time only the team-building, voting and mission phases', () => {
+      expect(isTimedPhase('team-building')).toBe(true);
+      expect(isTimedPhase('voting')).toBe(true);
+      expect(isTimedPhase('mission')).toBe(true);
+      expect(isTimedPhase('lobby')).toBe(false);
+      expect(isTimedPhase('mission-result')).toBe(false);
+    });
+  });
+
+  describe('pickRandomTeam', () => {
+    it('should pick distinct players matching the mission requirement', () => {
+      const team = pickRandomTeam(mockPlayers, 2)!;
+
+      expect(team).toHaveLength(3);
+      expect(new Set(team).size).toBe(3);
+      team.forEach(id => expect(mockPlayers.map(p => p.id)).toContain(id));
+    });
+
+    it('should only pick connected players', () => {
+      const players = mockPlayers.map(p => ({ ...p, isConnected: p.id !== '1' && p.id !== '2' }));
+
+      const team = pickRandomTeam(players, 1);
+
+      expect(team).toHaveLength(2);
+      expect(team).not.toContain('1');
+      expect(team).not.toContain('2');
+    });
+
+    it('should give up when too few players are connected to fill the team', () => {
+      const players = mockPlayers.map(p => ({ ...p, isConnected: p.id === '1' }));
+
+      expect(pickRandomTeam(players, 1)).toBeNull();
+    });
+  });
+
+  describe('redactGameState', () => {
+    it('should hide every role without touching the rest of the state', () => {
+      const state = { ...createInitialGameState('ABC123'), players: mockPlayers, phase: 'team-building' as const };
+
+      const redacted = redactGameState(state);
+
+      expect(redacted.players.every(p => p.role === 'resistance')).toBe(true);
+      expect(redacted.players.map(p => p.id)).toEqual(['1', '2', '3', '4', '5']);
+      expect(redacted.phase).toBe('team-building');
+      expect(mockPlayers[3].role).toBe('spy');
+    });
+  });
+
+  describe('resetGameState', () => {
+    const finishedGame = {
+      ...createInitialGameState('ABC123'),
+      phase: 'game-end' as const,
+      players: mockPlayers.map(p => ({ ...p, isLeader: p.id === '3' })),
+      hostId: '2',
+      currentMission: 5,
+      resistanceScore: 3,
+      spyScore: 2,
+      gameLog: [{ id: 'log', timestamp: 0, type: 'game-end' as const, message: 'Resistance win!' }],
+      settings: { ...DEFAULT_ROOM_SETTINGS, maxVoteTrack: 3 },
+      sessionWins: { resistance: 2, spy: 1 },
+    };
+
+    it('should keep the players, host and house rules but clear the board', () => {
+      const reset = resetGameState(finishedGame);
+
+      expect(reset.phase).toBe('lobby');
+      expect(reset.players.map(p => p.id)).toEqual(['1', '2', '3', '4', '5']);
+      expect(reset.players.every(p => p.role === 'resistance' && !p.isReady && !p.isLeader)).toBe(true);
+      expect(reset.hostId).toBe('2');
+      expect(reset.settings.maxVoteTrack).toBe(3);
+      expect(reset.gameLog).toEqual([]);
+      expect(reset.missionHistory).toEqual([]);
+      expect(reset.currentMission).toBe(1);
+      expect(reset.resistanceScore).toBe(0);
+    });
+
+    it('should free the seats of players who dropped off, but keep bots', () => {
+      const players = [
+        ...finishedGame.players.map(p => (p.id === '4' ? { ...p, isConnected: false } : p)),
+        { id: 'bot1', name: 'Robo', role: 'spy' as const, isReady: true, isConnected: true, isLeader: false, isBot: true },
+      ];
+
+      const reset = resetGameState({ ...finishedGame, players });
+
+      expect(reset.players.map(p => p.id)).toEqual(['1', '2', '3', '5', 'bot1']);
+    });
+
+    it('should keep the running score unless asked to clear it', () => {
+      expect(resetGameState(finishedGame).sessionWins).toEqual({ resistance: 2, spy: 1 });
+      expect(resetGameState(finishedGame, false).sessionWins).toEqual({ resistance: 0, spy: 0 });
+    });
+  });
+
+  describe('shuffleMissionCards', () => {
+    it('should keep the cards but drop who played them', () => {
+      const cards = shuffleMissionCards({ '1': true, '2': false, '3': true });
+
+      expect(cards).toHaveLength(3);
+      expect(cards.filter(card => card === false)).toHaveLength(1);
+      expect(cards.filter(card => card === true)).toHaveLength(2);
+    });
+  });
+
   describe('calculateMissionResult', () => {
     it('should succeed when all choose success', () => {
       const choices = { '1': true, '2': true, '3': true };
-      const result = calculateMissionResult(choices);
+      const result = calculateMissionResult(choices, 5, 1);
       
       expect(result.success).toBe(true);
       expect(result.successChoices).toBe(3);
@@ -76,12 +271,58 @@ describe('gameLogic', () => {
 
     it('should fail when any choose fail', () => {
       const choices = { '1': true, '2': false, '3': true };
-      const result = calculateMissionResult(choices);
+      const result = calculateMissionResult(choices, 5, 1);
       
       expect(result.success).toBe(false);
       expect(result.successChoices).toBe(2);
       expect(result.failChoices).toBe(1);
     });
+
+    it('should require two fails on mission 4 with 7 or more players', () => {
+      const choices = { '1': true, '2': false, '3': true, '4': true };
+      const result = calculateMissionResult(choices, 7, 4);
+      
+      expect(result.success).toBe(true);
+      expect(result.failChoices).toBe(1);
+      expect(result.requiredFails).toBe(2);
+    });
+
+    it('should fail mission 4 with 7 or more players when two fails are played', () => {
+      const choices = { '1': true, '2': false, '3': false, '4': true, '5': true };
+      const result = calculateMissionResult(choices, 10, 4);
+      
+      expect(result.success).toBe(false);
+      expect(result.failChoices).toBe(2);
+    });
+  });
+
+  describe('getMissionFailThreshold', () => {
+    it('should require a single fail for every mission with 5 or 6 players', () => {
+      for (let mission = 1; mission <= 5; mission++) {
+        expect(getMissionFailThreshold(5, mission)).toBe(1);
+        expect(getMissionFailThreshold(6, mission)).toBe(1);
+      }
+    });
+
+    it('should require two fails only on mission 4 with 7+ players', () => {
+      expect(getMissionFailThreshold(7, 4)).toBe(2);
+      expect(getMissionFailThreshold(7, 5)).toBe(1);
+      expect(getMissionFailThreshold(9, 3)).toBe(1);
+    });
+
+    it('should reject invalid player counts', () => {
+      expect(() => getMissionFailThreshold(4, 1)).toThrow('Invalid player count: 4');
+    });
+
+    it('should read custom thresholds from the room settings', () => {
+      const settings = {
+        ...DEFAULT_ROOM_SETTINGS,
+        missionFailThresholds: { ...DEFAULT_ROOM_SETTINGS.missionFailThresholds, 5: [1, 1, 1, 2, 2] },
+      };
+
+      expect(getMissionFailThreshold(5, 4, settings)).toBe(2);
+      expect(getMissionFailThreshold(5, 4)).toBe(1);
+    });
   });
 
   describe('checkGameEnd', () => {
@@ -125,6 +366,25 @@ describe('gameLogic', () => {
       expect(result.winner).toBe('spy');
       expect(result.reason).toBe('mission-limit');
     });
+
+    it('should end game when five teams are rejected in a row', () => {
+      const result = checkGameEnd(2, 1, 4, 5);
+      expect(result.gameEnded).toBe(true);
+      expect(result.winner).toBe('spy');
+      expect(result.reason).toBe('vote-track');
+    });
+
+    it('should not end game while the vote track is below five', () => {
+      const result = checkGameEnd(1, 1, 3, 4);
+      expect(result.gameEnded).toBe(false);
+    });
+
+    it('should apply the house rules for the vote track and ties', () => {
+      const settings = { ...DEFAULT_ROOM_SETTINGS, maxVoteTrack: 3, tieWinner: 'resistance' as const };
+
+      expect(checkGameEnd(1, 1, 3, 3, settings)).toMatchObject({ gameEnded: true, reason: 'vote-track' });
+      expect(checkGameEnd(2, 2, 6, 0, settings)).toMatchObject({ gameEnded: true, winner: 'resistance' });
+    });
   });
 
   describe('generateRoomCode', () => {
@@ -135,6 +395,25 @@ describe('gameLogic', () => {
     });
   });
 
+  describe('createSeededRandom', () => {
+    it('should replay the same numbers from the same seed', () => {
+      const first = createSeededRandom(42);
+      const second = createSeededRandom(42);
+      const numbers = Array.from({ length: 5 }, () => first.random());
+
+      expect(Array.from({ length: 5 }, () => second.random())).toEqual(numbers);
+      numbers.forEach(n => expect(n >= 0 && n < 1).toBe(true));
+    });
+
+    it('should carry on from where its seed has got to', () => {
+      const seeded = createSeededRandom(42);
+      seeded.random();
+      const resumed = createSeededRandom(seeded.seed());
+
+      expect(resumed.random()).toBe(seeded.random());
+    });
+  });
+
   describe('canPlayerChooseFail', () => {
     it('should allow spies to choose fail', () => {
       const spy = mockPlayers.find(p => p.role === 'spy')!;
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createGameRecord,
+  createPlayerRecord,
+  fetchGameRecord,
+  fetchRoomPlayers,
+  updateGameStatus,
+} from '../gamePersistence';
+
+// Mock the Amplify data client models
+const mockModels = {
+  Game: { create: vi.fn(), get: vi.fn(), update: vi.fn() },
+  Player: { create: vi.fn(), list: vi.fn() },
+};
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({ models: mockModels }),
+}));
+
+describe('Game Persistence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Game records', () => {
+    it('should create a waiting game keyed by room code', async () => {
+      mockModels.Game.create.mockResolvedValue({ data: {}, errors: undefined });
+
+      await createGameRecord('ABC123');
+
+      expect(mockModels.Game.create).toHaveBeenCalledWith({ id: 'ABC123', name: 'ABC123', status: 'waiting' });
+    });
+
+    it('should throw when the data API reports errors', async () => {
+      mockModels.Game.create.mockResolvedValue({ data: null, errors: [{ message: 'Conditional check failed' }] });
+
+      await expect(createGameRecord('ABC123')).rejects.toThrow('Failed to create room ABC123: Conditional check failed');
+    });
+
+    it('should return null for rooms that were never created', async () => {
+      mockModels.Game.get.mockResolvedValue({ data: null, errors: undefined });
+
+      expect(await fetchGameRecord('ABC123')).toBeNull();
+    });
+
+    it('should return the stored status', async () => {
+      mockModels.Game.get.mockResolvedValue({ data: { id: 'ABC123', status: 'in_progress' }, errors: undefined });
+
+      expect(await fetchGameRecord('ABC123')).toEqual({ roomCode: 'ABC123', status: 'in_progress' });
+    });
+
+    it('should update the status', async () => {
+      mockModels.Game.update.mockResolvedValue({ data: {}, errors: undefined });
+
+      await updateGameStatus('ABC123', 'completed');
+
+      expect(mockModels.Game.update).toHaveBeenCalledWith({ id: 'ABC123', status: 'completed' });
+    });
+  });
+
+  describe('Player records', () => {
+    const player = { id: 'p1', name: 'Alice', role: 'spy' as const, isReady: true, isConnected: true, isLeader: false };
+
+    it('should create a player record without the role', async () => {
+      mockModels.Player.create.mockResolvedValue({ data: {}, errors: undefined });
+
+      await createPlayerRecord('ABC123', player);
+
+      expect(mockModels.Player.create).toHaveBeenCalledWith({
+        id: 'p1',
+        username: 'Alice',
+        gameId: 'ABC123',
+        isLeader: false,
+      });
+    });
+
+    it('should load a room\'s players into lobby state', async () => {
+      mockModels.Player.list.mockResolvedValue({
+        data: [{ id: 'p1', username: 'Alice', gameId: 'ABC123', isLeader: null }],
+        errors: undefined,
+      });
+
+      const players = await fetchRoomPlayers('ABC123');
+
+      expect(mockModels.Player.list).toHaveBeenCalledWith({ filter: { gameId: { eq: 'ABC123' } } });
+      expect(players).toEqual([
+        { id: 'p1', name: 'Alice', role: 'resistance', isReady: false, isConnected: true, isLeader: false },
+      ]);
+    });
+  });
+});
@@ -3,11 +3,17 @@ import {
   validateGameStart,
   validateTeamSelection,
   validateRoleAssignment,
+  validateSpecialRoles,
+  validateRoomSettings,
+  validateSeatOrder,
   validatePlayerName,
   validateRoomCode,
-  validateMissionVoting
+  validateRoomJoinable,
+  validateMissionVoting,
+  validateGameEnd,
+  validatePhaseTransition
 } from '../gameValidation';
-import { Player, GameState } from '../../types/game';
+import { DEFAULT_ROOM_SETTINGS, Player, GameState } from '../../types/game';
 
 describe('gameValidation', () => {
   const mockPlayers: Player[] = [
@@ -22,9 +28,13 @@ describe('gameValidation', () => {
     roomCode: 'ABC123',
     phase: 'team-building',
     players: mockPlayers,
+    hostId: '1',
+    spectators: [],
+    bannedPlayerIds: [],
     currentLeader: '1',
     currentMission: 1,
     missionHistory: [],
+    proposals: {},
     resistanceScore: 0,
     spyScore: 0,
     gameLog: [],
@@ -32,6 +42,12 @@ describe('gameValidation', () => {
     votingInProgress: false,
     missionInProgress: false,
     currentVotes: {},
+    missionSubmissions: [],
+    voteTrack: 0,
+    settings: DEFAULT_ROOM_SETTINGS,
+    sessionWins: { resistance: 0, spy: 0 },
+    phaseDeadline: null,
+    chatMessages: [],
   };
 
   describe('validateGameStart', () => {
@@ -47,6 +63,13 @@ describe('gameValidation', () => {
       expect(result.error).toContain('At least 5 players must be ready');
     });
 
+    it('should reject game start while a seated player is disconnected', () => {
+      const players = [...mockPlayers, { ...mockPlayers[0], id: '6', name: 'Frank', isReady: false, isConnected: false }];
+      const result = validateGameStart(players);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Frank is not connected');
+    });
+
     it('should reject game start with more than 10 players', () => {
       const players = Array.from({ length: 11 }, (_, i) => ({
         id: `${i + 1}`,
@@ -88,6 +111,101 @@ describe('gameValidation', () => {
       expect(result.isValid).toBe(false);
       expect(result.error).toContain('Expected 3 resistance members, got 5');
     });
+
+    it('should count special roles towards their team', () => {
+      const players = mockPlayers.map(p => ({
+        ...p,
+        role: p.role === 'spy' ? 'assassin' as const : 'merlin' as const,
+      }));
+      expect(validateRoleAssignment(players).isValid).toBe(true);
+    });
+  });
+
+  describe('validateRoomSettings', () => {
+    it('should accept the default house rules', () => {
+      expect(validateRoomSettings(DEFAULT_ROOM_SETTINGS).isValid).toBe(true);
+    });
+
+    it('should reject team sizes larger than the table', () => {
+      const result = validateRoomSettings({
+        ...DEFAULT_ROOM_SETTINGS,
+        missionRequirements: { ...DEFAULT_ROOM_SETTINGS.missionRequirements, 5: [2, 3, 2, 3, 6] },
+      });
+      expect(result.error).toBe('Team sizes for 5 players must be 5 numbers between 1 and 5');
+    });
+
+    it('should reject fail thresholds above the team size', () => {
+      const result = validateRoomSettings({
+        ...DEFAULT_ROOM_SETTINGS,
+        missionFailThresholds: { ...DEFAULT_ROOM_SETTINGS.missionFailThresholds, 5: [3, 1, 1, 1, 1] },
+      });
+      expect(result.error).toBe('Fail cards needed for 5 players must be between 1 and the team size');
+    });
+
+    it('should reject teams that do not add up to the player count', () => {
+      const result = validateRoomSettings({
+        ...DEFAULT_ROOM_SETTINGS,
+        roleDistribution: { ...DEFAULT_ROOM_SETTINGS.roleDistribution, 6: { resistance: 4, spy: 3 } },
+      });
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject out-of-range rules', () => {
+      expect(validateRoomSettings({ ...DEFAULT_ROOM_SETTINGS, maxVoteTrack: 0 }).isValid).toBe(false);
+      expect(validateRoomSettings({ ...DEFAULT_ROOM_SETTINGS, tieWinner: 'nobody' }).isValid).toBe(false);
+      expect(validateRoomSettings({ ...DEFAULT_ROOM_SETTINGS, seating: 'alphabetical' }).isValid).toBe(false);
+      expect(validateRoomSettings({
+        ...DEFAULT_ROOM_SETTINGS,
+        phaseTimers: { ...DEFAULT_ROOM_SETTINGS.phaseTimers, voting: 1_000 },
+      }).isValid).toBe(false);
+      expect(validateRoomSettings({ ...DEFAULT_ROOM_SETTINGS, spectatorDelayMs: -1 }).isValid).toBe(false);
+      expect(validateRoomSettings({ ...DEFAULT_ROOM_SETTINGS, omniscientSpectators: 'yes' }).isValid).toBe(false);
+      expect(validateRoomSettings(null).isValid).toBe(false);
+    });
+
+    it('should check special roles against the configured teams', () => {
+      const settings = { ...DEFAULT_ROOM_SETTINGS, specialRoles: ['merlin', 'assassin', 'mordred', 'oberon'] };
+      expect(validateRoomSettings(settings).isValid).toBe(true);
+      expect(validateRoomSettings(settings, 5).isValid).toBe(false);
+    });
+  });
+
+  describe('validateSeatOrder', () => {
+    it('should accept a seat for every player', () => {
+      expect(validateSeatOrder(mockPlayers, ['5', '4', '3', '2', '1']).isValid).toBe(true);
+    });
+
+    it('should reject plans that miss or repeat players', () => {
+      expect(validateSeatOrder(mockPlayers, ['1', '2', '3', '4']).isValid).toBe(false);
+      expect(validateSeatOrder(mockPlayers, ['1', '1', '2', '3', '4']).isValid).toBe(false);
+      expect(validateSeatOrder(mockPlayers, ['1', '2', '3', '4', '6']).error).toBe('Every player must have exactly one seat');
+      expect(validateSeatOrder(mockPlayers, undefined).isValid).toBe(false);
+    });
+  });
+
+  describe('validateSpecialRoles', () => {
+    it('should accept a consistent set of special roles', () => {
+      expect(validateSpecialRoles([]).isValid).toBe(true);
+      expect(validateSpecialRoles(['merlin', 'assassin', 'percival', 'morgana'], 5).isValid).toBe(true);
+    });
+
+    it('should reject unknown and duplicate roles', () => {
+      expect(validateSpecialRoles(['jester']).error).toBe('Unknown special role');
+      expect(validateSpecialRoles('merlin').error).toBe('Unknown special role');
+      expect(validateSpecialRoles(['mordred', 'mordred']).error).toBe('Each special role can only be used once');
+    });
+
+    it('should reject roles whose partner role is missing', () => {
+      expect(validateSpecialRoles(['merlin']).error).toBe('Merlin requires Assassin');
+      expect(validateSpecialRoles(['merlin', 'assassin', 'morgana']).error).toBe('Morgana requires Percival');
+    });
+
+    it('should reject more special spies than the player count allows', () => {
+      const result = validateSpecialRoles(['merlin', 'assassin', 'mordred', 'oberon'], 5);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('only have 2 spies');
+      expect(validateSpecialRoles(['merlin', 'assassin', 'mordred', 'oberon'], 7).isValid).toBe(true);
+    });
   });
 
   describe('validatePlayerName', () => {
@@ -141,6 +259,30 @@ describe('gameValidation', () => {
     });
   });
 
+  describe('validateRoomJoinable', () => {
+    it('should accept a waiting room', () => {
+      expect(validateRoomJoinable('ABC123', 'waiting').isValid).toBe(true);
+    });
+
+    it('should reject unknown rooms', () => {
+      const result = validateRoomJoinable('ABC123', null);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Room ABC123 does not exist');
+    });
+
+    it('should reject rooms whose game has started', () => {
+      const result = validateRoomJoinable('ABC123', 'in_progress');
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('has already started');
+    });
+
+    it('should reject rooms whose game has ended', () => {
+      const result = validateRoomJoinable('ABC123', 'completed');
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('has already ended');
+    });
+  });
+
   describe('validateMissionVoting', () => {
     it('should validate complete voting', () => {
       const votes = {
@@ -161,4 +303,19 @@ describe('gameValidation', () => {
       expect(result.error).toContain('Expected 5 votes, got 2');
     });
   });
+
+  describe('validateGameEnd', () => {
+    it('should allow game end after five rejected teams', () => {
+      const gameState = { ...mockGameState, phase: 'voting' as const, voteTrack: 5 };
+      expect(validateGameEnd(gameState).isValid).toBe(true);
+      expect(validatePhaseTransition('voting', 'game-end', gameState).isValid).toBe(true);
+    });
+
+    it('should reject game end before the vote track is full', () => {
+      const gameState = { ...mockGameState, phase: 'voting' as const, voteTrack: 4 };
+      const result = validatePhaseTransition('voting', 'game-end', gameState);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('teams are rejected in a row');
+    });
+  });
 });
\ No newline at end of file
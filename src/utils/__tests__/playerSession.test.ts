@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearHostSession,
+  clearPlayerSession,
+  isBannedFromRoom,
+  loadHostSession,
+  loadPlayerSession,
+  recordRoomBan,
+  saveHostSession,
+  savePlayerSession,
+} from '../playerSession';
+import { generateSessionKey } from '../sessionCrypto';
+
+describe('Player Session', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should return null when no session was saved', () => {
+    expect(loadPlayerSession()).toBeNull();
+  });
+
+  it('should round-trip a saved session with its room code', () => {
+    const sessionKey = generateSessionKey();
+
+    savePlayerSession('ABC123', { playerId: 'p1', sessionKey });
+
+    expect(loadPlayerSession()).toEqual({ roomCode: 'ABC123', playerId: 'p1', sessionKey });
+  });
+
+  it('should keep only the most recent room', () => {
+    savePlayerSession('ABC123', { playerId: 'p1', sessionKey: generateSessionKey() });
+    savePlayerSession('XYZ789', { playerId: 'p2', sessionKey: generateSessionKey() });
+
+    expect(loadPlayerSession()?.roomCode).toBe('XYZ789');
+  });
+
+  it('should forget a cleared session', () => {
+    savePlayerSession('ABC123', { playerId: 'p1', sessionKey: generateSessionKey() });
+
+    clearPlayerSession();
+
+    expect(loadPlayerSession()).toBeNull();
+  });
+
+  it('should ignore corrupted or incomplete entries', () => {
+    localStorage.setItem('resistance-game:session', 'not json');
+    expect(loadPlayerSession()).toBeNull();
+
+    localStorage.setItem('resistance-game:session', JSON.stringify({ roomCode: 'ABC123', playerId: 'p1', sessionKey: 'abc' }));
+    expect(loadPlayerSession()).toBeNull();
+  });
+
+  it('should keep a reserved host seat apart from the player session', () => {
+    const sessionKey = generateSessionKey();
+
+    saveHostSession('ABC123', { playerId: 'host', sessionKey });
+
+    expect(loadHostSession()).toEqual({ roomCode: 'ABC123', playerId: 'host', sessionKey });
+    expect(loadPlayerSession()).toBeNull();
+
+    clearHostSession();
+    expect(loadHostSession()).toBeNull();
+  });
+
+  it('should remember rooms this browser was kicked from', () => {
+    recordRoomBan('ABC123');
+    recordRoomBan('ABC123');
+
+    expect(isBannedFromRoom('ABC123')).toBe(true);
+    expect(isBannedFromRoom('XYZ789')).toBe(false);
+    expect(JSON.parse(localStorage.getItem('resistance-game:bans')!)).toEqual(['ABC123']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getKnownRole, getPossibleRoles, isRoleKnown, isVisibilityRuleset } from '../roleVisibility';
+import { Player, PlayerRole } from '../../types/game';
+
+function player(id: string, role: PlayerRole): Player {
+  return { id, name: id, role, isReady: true, isConnected: true, isLeader: false };
+}
+
+describe('roleVisibility', () => {
+  const merlin = player('merlin', 'merlin');
+  const percival = player('percival', 'percival');
+  const loyal = player('loyal', 'resistance');
+  const spy = player('spy', 'spy');
+  const assassin = player('assassin', 'assassin');
+  const morgana = player('morgana', 'morgana');
+  const mordred = player('mordred', 'mordred');
+  const oberon = player('oberon', 'oberon');
+
+  describe('getKnownRole', () => {
+    it('should always show players their own role', () => {
+      expect(getKnownRole(percival, percival)).toBe('percival');
+      expect(getKnownRole(oberon, oberon)).toBe('oberon');
+      expect(getKnownRole(spy, spy, 'blind-spies')).toBe('spy');
+    });
+
+    it('should show Merlin every spy except Mordred', () => {
+      expect(getKnownRole(merlin, assassin)).toBe('spy');
+      expect(getKnownRole(merlin, oberon)).toBe('spy');
+      expect(getKnownRole(merlin, mordred)).toBeNull();
+      expect(getKnownRole(merlin, loyal)).toBeNull();
+    });
+
+    it('should show Percival both Merlin and Morgana as Merlin', () => {
+      expect(getKnownRole(percival, merlin)).toBe('merlin');
+      expect(getKnownRole(percival, morgana)).toBe('merlin');
+      expect(getKnownRole(percival, assassin)).toBeNull();
+    });
+
+    it('should show spies each other, but not Oberon or anyone on the resistance', () => {
+      expect(getKnownRole(assassin, mordred)).toBe('spy');
+      expect(getKnownRole(assassin, oberon)).toBeNull();
+      expect(getKnownRole(assassin, merlin)).toBeNull();
+      expect(getKnownRole(spy, loyal)).toBeNull();
+      expect(getKnownRole(oberon, assassin)).toBeNull();
+    });
+
+    it('should show blind spies nothing, while Merlin keeps their knowledge', () => {
+      expect(getKnownRole(spy, assassin, 'blind-spies')).toBeNull();
+      expect(getKnownRole(assassin, loyal, 'blind-spies')).toBeNull();
+      expect(getKnownRole(merlin, spy, 'blind-spies')).toBe('spy');
+    });
+  });
+
+  describe('getPossibleRoles', () => {
+    it('should list the roles in play a viewer could be looking at', () => {
+      expect(getPossibleRoles('percival', 'merlin', 'standard', ['merlin', 'percival', 'assassin'])).toEqual(['merlin']);
+      expect(getPossibleRoles('percival', 'merlin', 'standard', ['merlin', 'percival', 'assassin', 'morgana'])).toEqual(['merlin', 'morgana']);
+    });
+
+    it('should tell told roles apart from redacted defaults', () => {
+      expect(isRoleKnown('spy', 'spy', 'standard', [])).toBe(true);
+      expect(isRoleKnown('spy', 'resistance', 'standard', [])).toBe(false);
+      expect(isRoleKnown('spy', 'spy', 'blind-spies', [])).toBe(false);
+      expect(isRoleKnown('merlin', 'resistance', 'standard', ['merlin', 'assassin'])).toBe(false);
+      expect(isRoleKnown('resistance', 'spy', 'standard', [])).toBe(false);
+    });
+  });
+
+  describe('isVisibilityRuleset', () => {
+    it('should only accept known rulesets', () => {
+      expect(isVisibilityRuleset('standard')).toBe(true);
+      expect(isVisibilityRuleset('blind-spies')).toBe(true);
+      expect(isVisibilityRuleset('everyone-sees-everything')).toBe(false);
+      expect(isVisibilityRuleset(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { GameEvent } from '../../types/game';
+import { generateSessionKey, isValidSessionKey, openPayload, sealPayload, signEvent, verifyEventSignature } from '../sessionCrypto';
+
+describe('Session Crypto', () => {
+  describe('generateSessionKey', () => {
+    it('should generate distinct valid keys', () => {
+      const first = generateSessionKey();
+      const second = generateSessionKey();
+
+      expect(isValidSessionKey(first)).toBe(true);
+      expect(isValidSessionKey(second)).toBe(true);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('isValidSessionKey', () => {
+    it('should reject values that are not 256-bit base64 keys', () => {
+      expect(isValidSessionKey(undefined)).toBe(false);
+      expect(isValidSessionKey('')).toBe(false);
+      expect(isValidSessionKey('not base64!')).toBe(false);
+      expect(isValidSessionKey(btoa('too short'))).toBe(false);
+    });
+  });
+
+  describe('sealPayload / openPayload', () => {
+    it('should round-trip a payload with the same key', async () => {
+      const key = generateSessionKey();
+      const payload = { alice: 'spy', bob: null };
+
+      const sealed = await sealPayload(key, payload);
+
+      expect(sealed.ciphertext).not.toContain('spy');
+      expect(await openPayload(key, sealed)).toEqual(payload);
+    });
+
+    it('should not open with a different key', async () => {
+      const sealed = await sealPayload(generateSessionKey(), { alice: 'spy' });
+
+      await expect(openPayload(generateSessionKey(), sealed)).rejects.toThrow();
+    });
+
+    it('should not open a tampered payload', async () => {
+      const key = generateSessionKey();
+      const sealed = await sealPayload(key, { alice: 'resistance' });
+      const bytes = atob(sealed.ciphertext);
+      const tampered = btoa(String.fromCharCode(bytes.charCodeAt(0) ^ 1) + bytes.slice(1));
+
+      await expect(openPayload(key, { ...sealed, ciphertext: tampered })).rejects.toThrow();
+    });
+  });
+
+  describe('signEvent / verifyEventSignature', () => {
+    const event: GameEvent = {
+      type: 'vote-cast',
+      roomCode: 'ABC123',
+      playerId: 'alice',
+      timestamp: 1,
+      data: { vote: true, nested: { b: 1, a: 2 } },
+    };
+
+    it('should verify an event signed with the same key, whatever its key order', async () => {
+      const key = generateSessionKey();
+      const signed = await signEvent(key, event);
+
+      expect(await verifyEventSignature(key, signed)).toBe(true);
+      expect(await verifyEventSignature(key, { ...signed, data: { nested: { a: 2, b: 1 }, vote: true } })).toBe(true);
+    });
+
+    it('should not verify with another key, after a change or without a signature', async () => {
+      const key = generateSessionKey();
+      const signed = await signEvent(key, event);
+
+      expect(await verifyEventSignature(generateSessionKey(), signed)).toBe(false);
+      expect(await verifyEventSignature(key, { ...signed, playerId: 'bob' })).toBe(false);
+      expect(await verifyEventSignature(key, { ...signed, data: { vote: false } })).toBe(false);
+      expect(await verifyEventSignature(key, event)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { createRandomStrategy } from '../bots';
+import { AgentPolicy, createTeamPolicy, formatReport, simulateGame, simulateGames } from '../simulation';
+
+describe('simulation', () => {
+  it('plays games to the end at the smallest and largest table', () => {
+    for (const playerCount of [5, 10]) {
+      const outcome = simulateGame({ playerCount });
+
+      expect(['resistance', 'spy']).toContain(outcome.winner);
+      expect(outcome.missionsPlayed).toBeGreaterThanOrEqual(3);
+      expect(outcome.missionsPlayed).toBeLessThanOrEqual(5);
+    }
+  });
+
+  it('plays games with special roles through the assassination', () => {
+    const outcome = simulateGame({ playerCount: 7, settings: { specialRoles: ['merlin', 'assassin'] } });
+
+    expect(['resistance', 'spy']).toContain(outcome.winner);
+  });
+
+  it('adds up every game in the report', () => {
+    const report = simulateGames(20, { playerCount: 6, policy: createTeamPolicy('random', 'random') });
+
+    expect(report.games).toBe(20);
+    expect(report.wins.resistance + report.wins.spy).toBe(20);
+    expect(Object.values(report.reasons).reduce((total, count) => total + count, 0)).toBe(20);
+    expect(report.voteTrackReached).toHaveLength(6);
+    expect(report.voteTrackReached.reduce((total, count) => total + count, 0)).toBe(20);
+    expect(formatReport(report)).toContain('6 players, 20 games');
+  });
+
+  it('follows the house rules it is given', () => {
+    // Nobody ever approves a team, so the first mission's vote track runs out
+    const alwaysReject: AgentPolicy = () => ({ ...createRandomStrategy(), vote: () => false });
+
+    const report = simulateGames(5, { playerCount: 5, settings: { maxVoteTrack: 2 }, policy: alwaysReject });
+
+    expect(report.wins.spy).toBe(5);
+    expect(report.reasons['vote-track']).toBe(5);
+    expect(report.averageMissions).toBe(0);
+    expect(report.averageRejectedTeams).toBe(2);
+    expect(report.voteTrackReached).toEqual([0, 0, 5]);
+  });
+});
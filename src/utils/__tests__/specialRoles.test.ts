@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { getRoleTeam, toggleSpecialRole } from '../specialRoles';
+
+describe('specialRoles', () => {
+  describe('getRoleTeam', () => {
+    it('should place each role on its side', () => {
+      expect(getRoleTeam('resistance')).toBe('resistance');
+      expect(getRoleTeam('merlin')).toBe('resistance');
+      expect(getRoleTeam('percival')).toBe('resistance');
+      expect(getRoleTeam('spy')).toBe('spy');
+      expect(getRoleTeam('assassin')).toBe('spy');
+      expect(getRoleTeam('oberon')).toBe('spy');
+    });
+  });
+
+  describe('toggleSpecialRole', () => {
+    it('should enable the roles a role requires', () => {
+      expect(toggleSpecialRole([], 'morgana')).toEqual(['merlin', 'percival', 'assassin', 'morgana']);
+      expect(toggleSpecialRole([], 'oberon')).toEqual(['oberon']);
+    });
+
+    it('should disable the roles that depend on a role', () => {
+      expect(toggleSpecialRole(['merlin', 'percival', 'assassin', 'morgana', 'oberon'], 'assassin')).toEqual(['oberon']);
+      expect(toggleSpecialRole(['merlin', 'percival', 'assassin', 'morgana'], 'morgana')).toEqual(['merlin', 'percival', 'assassin']);
+    });
+  });
+});
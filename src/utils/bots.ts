@@ -0,0 +1,239 @@
+import { BotStrategyName, GameEventType, GameState, PlayerRole, RandomSource } from '../types/game';
+import { getMissionFailThreshold, getMissionRequirements, redactGameState, shuffle } from './gameLogic';
+import { isSpyRole } from './specialRoles';
+
+// Bots fill empty seats. A strategy only ever sees a BotView: the role-redacted game plus the
+// roles the bot was shown, the same as a person in its seat. Nothing here depends on where the
+// bot runs, so the game engine and the simulation plan moves the same way.
+
+export interface BotView {
+  game: GameState; // Every role hidden
+  botId: string;
+  role: PlayerRole;
+  knownRoles: Record<string, PlayerRole | null>; // playerId -> what the bot was shown, as for a person (see getVisibleRoles)
+}
+
+// A bot's decisions; each one is only asked for when the game is waiting on the bot
+export interface BotStrategy {
+  proposeTeam(view: BotView, teamSize: number): string[];
+  vote(view: BotView): boolean; // true approves the proposed team
+  playMission(view: BotView): boolean; // true plays Success
+  chooseAssassinationTarget(view: BotView): string;
+}
+
+export interface BotStrategyInfo {
+  name: string;
+  description: string;
+  create: (role: PlayerRole, random: RandomSource) => BotStrategy;
+}
+
+// A move a bot wants to make, as the data of the event it sends
+export interface BotAction {
+  type: GameEventType;
+  data: Record<string, any>;
+}
+
+export const BOT_STRATEGIES: Record<BotStrategyName, BotStrategyInfo> = {
+  'rule-based': {
+    name: 'Rule-based',
+    description: 'Resistance bots trust players who went on successful missions; spy bots sabotage when it counts.',
+    create: (role, random) => (isSpyRole(role) ? createSpyStrategy(random) : createResistanceStrategy(random)),
+  },
+  random: {
+    name: 'Random',
+    description: 'Picks teams, votes and plays cards at random.',
+    create: (_role, random) => createRandomStrategy(random),
+  },
+};
+
+// Strategies in the order they are offered to the host
+export const BOT_STRATEGY_ORDER: BotStrategyName[] = ['rule-based', 'random'];
+
+export function isBotStrategyName(value: unknown): value is BotStrategyName {
+  return typeof value === 'string' && value in BOT_STRATEGIES;
+}
+
+export function getBotStrategy(name: BotStrategyName, role: PlayerRole, random: RandomSource = Math.random): BotStrategy {
+  return BOT_STRATEGIES[name].create(role, random);
+}
+
+// What a bot in `botId`'s seat may know. The game is redacted here, so a view built from the
+// engine's full state or from the host's own revealed roles gives nothing extra away.
+export function createBotView(
+  game: GameState,
+  botId: string,
+  knownRoles: Record<string, PlayerRole | null>
+): BotView {
+  const role = knownRoles[botId];
+  if (!role) {
+    throw new Error(`Bot ${botId} does not know its own role`);
+  }
+  return { game: redactGameState(game), botId, role, knownRoles };
+}
+
+// The move the game is waiting on from this bot, if any
+export function planBotAction(view: BotView, strategy: BotStrategy): BotAction | null {
+  const { game, botId } = view;
+  const bot = game.players.find(p => p.id === botId);
+  if (!bot) {
+    return null;
+  }
+
+  switch (game.phase) {
+    case 'team-building':
+      if (game.currentLeader !== botId) return null;
+      return {
+        type: 'team-selected',
+        data: {
+          selectedTeam: strategy.proposeTeam(view, getMissionRequirements(game.players.length, game.currentMission, game.settings)),
+        },
+      };
+    case 'voting':
+      if (!bot.isConnected || game.currentVotes[botId] !== undefined) return null;
+      return { type: 'vote-cast', data: { vote: strategy.vote(view) } };
+    case 'mission':
+      if (!game.selectedTeam.includes(botId) || game.missionSubmissions.includes(botId)) return null;
+      // Only spies may play Fail, whatever the strategy says
+      return { type: 'mission-choice-made', data: { choice: !isSpyRole(view.role) || strategy.playMission(view) } };
+    case 'assassination':
+      if (view.role !== 'assassin') return null;
+      return { type: 'assassination-attempted', data: { targetId: strategy.chooseAssassinationTarget(view) } };
+    default:
+      return null;
+  }
+}
+
+// Picks teams, votes and cards at random
+export function createRandomStrategy(random: RandomSource = Math.random): BotStrategy {
+  return {
+    proposeTeam: ({ game }, teamSize) => shuffle(game.players.map(p => p.id), random).slice(0, teamSize),
+    vote: () => random() < 0.5,
+    playMission: () => random() < 0.5,
+    chooseAssassinationTarget: view => pickOne(getOthers(view), random),
+  };
+}
+
+// Plays for the resistance: trusts players who went on successful missions, distrusts those on
+// failed ones (and any spy it was shown), and only approves teams of players it has no reason to doubt
+export function createResistanceStrategy(random: RandomSource = Math.random): BotStrategy {
+  return {
+    proposeTeam: (view, teamSize) => {
+      const trust = getTrust(view);
+      const others = shuffle(getOthers(view), random).sort((a, b) => trust[b] - trust[a]);
+      return [view.botId, ...others].slice(0, teamSize);
+    },
+    vote: view => {
+      // Rejecting now would hand the spies the game
+      if (isLastProposal(view.game)) return true;
+
+      const trust = getTrust(view);
+      return view.game.selectedTeam.every(id => id === view.botId || trust[id] >= 0);
+    },
+    playMission: () => true,
+    chooseAssassinationTarget: view => pickOne(getOthers(view), random),
+  };
+}
+
+// Plays for the spies: gets a spy onto every team, and sabotages only when the fail counts
+// and does not give the spy away early
+export function createSpyStrategy(random: RandomSource = Math.random): BotStrategy {
+  return {
+    proposeTeam: (view, teamSize) => {
+      const { game, botId } = view;
+      const spies = getKnownSpies(view);
+      // Bring along the other spies needed to fail the mission, then fill up with trusting resistance
+      const failThreshold = getMissionFailThreshold(game.players.length, game.currentMission, game.settings);
+      const partners = shuffle(spies.filter(id => id !== botId), random).slice(0, failThreshold - 1);
+      const others = shuffle(getOthers(view).filter(id => !spies.includes(id)), random);
+      return [botId, ...partners, ...others].slice(0, teamSize);
+    },
+    vote: view => {
+      // Rejecting now wins the game for the spies
+      if (isLastProposal(view.game)) return false;
+
+      const spies = getKnownSpies(view);
+      return view.game.selectedTeam.some(id => spies.includes(id));
+    },
+    playMission: view => {
+      const { game, botId } = view;
+      const spiesOnTeam = game.players
+        .filter(p => game.selectedTeam.includes(p.id) && getKnownSpies(view).includes(p.id))
+        .map(p => p.id);
+      const failThreshold = getMissionFailThreshold(game.players.length, game.currentMission, game.settings);
+      const mustFail = game.spyScore === 2 || game.resistanceScore === 2;
+
+      // A lone Fail that cannot sink the mission only points at the spy; so does failing the first mission
+      if (spiesOnTeam.length < failThreshold || (game.currentMission === 1 && !mustFail)) {
+        return true;
+      }
+      // Spies who know each other leave the Fails to the first ones around the table, so no extra card gives them away
+      return spiesOnTeam.indexOf(botId) >= failThreshold;
+    },
+    chooseAssassinationTarget: view => {
+      // Merlin tends to vote down the teams spies are on and to vote up the ones they are not
+      const spies = getKnownSpies(view);
+      const suspicion: Record<string, number> = {};
+      const candidates = getOthers(view).filter(id => !spies.includes(id));
+      candidates.forEach(id => {
+        suspicion[id] = 0;
+      });
+
+      Object.values(view.game.proposals).flat().forEach(proposal => {
+        const spyOnTeam = proposal.team.some(id => spies.includes(id));
+        candidates.forEach(id => {
+          const vote = proposal.votes[id];
+          if (vote !== undefined) {
+            suspicion[id] += vote === spyOnTeam ? -1 : 1;
+          }
+        });
+      });
+
+      const ranked = shuffle(candidates, random).sort((a, b) => suspicion[b] - suspicion[a]);
+      return ranked[0] ?? pickOne(getOthers(view), random);
+    },
+  };
+}
+
+// How far a resistance bot trusts each player: +1 for every successful mission they went on,
+// -2 for every Fail played on a mission they went on, and no trust at all in a spy it was shown
+function getTrust({ game, botId, knownRoles }: BotView): Record<string, number> {
+  const trust: Record<string, number> = {};
+  game.players.forEach(p => {
+    const shown = knownRoles[p.id];
+    trust[p.id] = p.id !== botId && shown && isSpyRole(shown) ? -100 : 0;
+  });
+
+  game.missionHistory.forEach(mission => {
+    const fails = mission.missionChoices.filter(choice => !choice).length;
+    mission.selectedPlayers.forEach(id => {
+      if (trust[id] !== undefined) {
+        trust[id] += fails === 0 ? 1 : -2 * fails;
+      }
+    });
+  });
+
+  return trust;
+}
+
+// The bot and every spy it was shown
+function getKnownSpies({ game, botId, knownRoles }: BotView): string[] {
+  return game.players
+    .filter(p => {
+      const shown = knownRoles[p.id];
+      return p.id === botId || (!!shown && isSpyRole(shown));
+    })
+    .map(p => p.id);
+}
+
+function getOthers({ game, botId }: BotView): string[] {
+  return game.players.filter(p => p.id !== botId).map(p => p.id);
+}
+
+// Whether one more rejected team ends the game
+function isLastProposal(game: GameState): boolean {
+  return game.voteTrack >= game.settings.maxVoteTrack - 1;
+}
+
+function pickOne<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
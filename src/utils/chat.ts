@@ -0,0 +1,72 @@
+import {
+  CHAT_RATE_LIMIT_MESSAGES,
+  CHAT_RATE_LIMIT_WINDOW_MS,
+  ChatMessage,
+  GamePhase,
+  Player,
+  RoomSettings,
+} from '../types/game';
+import { getKnownRole } from './roleVisibility';
+import { isSpyRole } from './specialRoles';
+
+// How many chat messages a client keeps; older ones scroll away
+export const MAX_CHAT_HISTORY = 200;
+
+// Rewrites a chat message before anyone sees it, e.g. to mask unwanted words
+export type ProfanityFilter = (text: string) => string;
+
+let profanityFilter: ProfanityFilter = text => text;
+
+// Install the filter applied to every chat message; until one is installed, messages pass unchanged.
+// The game engine filters every message it relays, and clients filter their own before sending.
+export function setProfanityFilter(filter: ProfanityFilter): void {
+  profanityFilter = filter;
+}
+
+// A filter that masks whole words from a list, ignoring case
+export function createWordFilter(words: string[]): ProfanityFilter {
+  const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (escaped.length === 0) {
+    return text => text;
+  }
+
+  const pattern = new RegExp(`\\b(${escaped.join('|')})\\b`, 'gi');
+  return text => text.replace(pattern, match => '*'.repeat(match.length));
+}
+
+// The text of a chat message as it will be posted
+export function prepareChatText(text: string): string {
+  return profanityFilter(text.trim());
+}
+
+// Whether a player who sent messages at `sentAt` must wait before sending another
+export function isChatRateLimited(sentAt: number[], now: number): boolean {
+  return sentAt.filter(time => now - time < CHAT_RATE_LIMIT_WINDOW_MS).length >= CHAT_RATE_LIMIT_MESSAGES;
+}
+
+// Whether the house rules silence chat in this phase
+export function isChatMuted(phase: GamePhase, settings: RoomSettings): boolean {
+  return settings.muteChatDuringMission && phase === 'mission';
+}
+
+// Spies who were shown at least one fellow spy; spies kept in the dark (Oberon, blind spies)
+// would learn who the others are from the channel, so they are left out of it
+export function getSpyChatMembers(players: Player[], settings: RoomSettings): Player[] {
+  if (!settings.spyChat) {
+    return [];
+  }
+
+  return players.filter(player =>
+    isSpyRole(player.role) &&
+    players.some(other =>
+      other.id !== player.id &&
+      isSpyRole(other.role) &&
+      getKnownRole(player, other, settings.visibilityRuleset) === 'spy'
+    )
+  );
+}
+
+// Add a message to a chat history, dropping the oldest beyond MAX_CHAT_HISTORY
+export function appendChatMessage(history: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  return [...history, message].slice(-MAX_CHAT_HISTORY);
+}
@@ -0,0 +1,1603 @@
+import {
+  CHAT_RATE_LIMIT_WINDOW_MS,
+  GameEvent,
+  GameEventType,
+  GamePhase,
+  GameState,
+  LogEntry,
+  MissionResult,
+  PRESENCE_TIMEOUT_MS,
+  Player,
+  PlayerRole,
+  Proposal,
+  RandomSource,
+  Spectator,
+} from '../types/game';
+import {
+  arrangeSeats,
+  assignRoles,
+  calculateMissionResult,
+  calculateVotingResult,
+  canPlayerChooseFail,
+  checkGameEnd,
+  createGameEvent,
+  createInitialGameState,
+  createLogEntry,
+  createSeededRandom,
+  getNextConnectedPlayer,
+  getNextLeader,
+  getVisibleRoles,
+  isTimedPhase,
+  pickRandomTeam,
+  redactGameState,
+  resetGameState,
+  shuffleMissionCards,
+  shuffleSeats,
+} from './gameLogic';
+import { isValidSessionKey } from './sessionCrypto';
+import { getSpyChatMembers, isChatMuted, isChatRateLimited, prepareChatText } from './chat';
+import { createBotView, getBotStrategy, isBotStrategyName, planBotAction } from './bots';
+import {
+  validateChatMessage,
+  validateMissionVoting,
+  validatePhaseTransition,
+  validatePlayerName,
+  validateRoomSettings,
+  validateSeatOrder,
+} from './gameValidation';
+
+// Player id stamped on every event the engine publishes
+export const SERVER_PLAYER_ID = 'server';
+
+// Most moves bots make in a row before handing back; a table of bots can play a whole game
+const MAX_BOT_ACTIONS = 500;
+
+// How old a player's last-seen time gets before hearing from them is worth a write. Heartbeats come
+// every HEARTBEAT_INTERVAL_MS, so most of them change nothing and leave the room's version alone.
+const PRESENCE_REFRESH_MS = PRESENCE_TIMEOUT_MS / 2;
+
+// Outcome events only the engine may publish; clients submitting them are rejected
+export const ENGINE_EVENT_TYPES: GameEventType[] = [
+  'roles-assigned',
+  'voting-started',
+  'voting-completed',
+  'mission-started',
+  'mission-completed',
+  'leadership-changed',
+  'game-ended',
+  'error-occurred',
+  'state-sync',
+  'player-disconnected',
+  'phase-timer-started',
+  'phase-timed-out',
+  'assassination-started',
+  'spectator-feed',
+];
+
+// Intents that may arrive unsigned, from clients that do not hold a session yet. Anyone could have
+// sent one, so they are answered by answerUnsignedEvent, which never changes the room.
+export const UNSIGNED_EVENT_TYPES: GameEventType[] = ['state-sync-requested'];
+
+// Everything the engine knows about a room; only `game` is ever shared with clients
+export interface RoomState {
+  game: GameState;
+  missionChoices: Record<string, boolean>; // playerId -> success/fail for the mission in progress (never published)
+  sessionKeys: Record<string, string>; // playerId -> key the player's private data is sealed with
+  lastSeen: Record<string, number>; // playerId -> when the engine last heard from the player (ms)
+  chatSentAt: Record<string, number[]>; // playerId -> when they sent their recent chat messages (ms), for rate limiting
+  spectatorFeed: HeldDelivery[]; // Private data for omniscient spectators, oldest first, until the spectator delay has passed
+  identities: Record<string, string>; // playerId or spectatorId -> sign-in (e.g. guest identity) they joined from
+  bannedIdentities: string[]; // Sign-ins of players the host kicked, refused whatever id they join with next
+  randomSeed: number; // Where the room's random numbers (roles, seats, shuffled cards, bots) carry on from
+  createdAt: number; // When the room was created (ms); the creator's host seat is only held for so long
+  version: number; // Incremented on every accepted event (optimistic concurrency)
+}
+
+// Per-player data for a broadcast event; each payload is sealed with the recipient's
+// session key and published under `event.data[field]`
+export interface PrivateDelivery {
+  event: GameEvent;
+  field: string;
+  payloads: Record<string, unknown>; // playerId -> payload only that player may read
+}
+
+// Private data for omniscient spectators that the engine holds back by the room's spectator delay,
+// so a stream of their screen cannot tip off the table. Released as a spectator-feed event.
+export interface HeldDelivery {
+  releaseAt: number; // When the delay has passed (ms)
+  sentAt: number; // When the held data was dealt or sent (ms)
+  field: 'sealedRoles' | 'sealedMessage';
+  payloads: Record<string, unknown>; // spectatorId -> payload only that spectator may read
+}
+
+// What applying an event does besides changing the room; carried out by whoever runs the engine
+export interface EngineEffects {
+  events: GameEvent[]; // Events to broadcast, in order: the accepted intent first, then its outcomes
+  deliveries: PrivateDelivery[];
+  warnings: string[]; // Fallbacks the engine could not apply and left for later, for whoever runs it to log
+}
+
+export interface EngineResult {
+  accepted: boolean;
+  error?: string;
+  state: RoomState;
+  effects: EngineEffects;
+}
+
+interface IntentOutcome {
+  room: RoomState;
+  events: GameEvent[];
+  deliveries?: PrivateDelivery[];
+  warnings?: string[];
+}
+
+// When an event is applied, and the random numbers it may draw on (from the room's seed)
+interface ApplyContext {
+  now: number;
+  random: RandomSource;
+}
+
+// Create the engine state for a room nobody has published to yet; `randomSeed` starts its random numbers
+export function createRoomState(roomCode: string, randomSeed: number): RoomState {
+  return {
+    game: createInitialGameState(roomCode),
+    missionChoices: {},
+    sessionKeys: {},
+    lastSeen: {},
+    chatSentAt: {},
+    spectatorFeed: [],
+    identities: {},
+    bannedIdentities: [],
+    randomSeed,
+    createdAt: 0,
+    version: 0,
+  };
+}
+
+// The session key an intent must be signed with: the key being handed over for a join, otherwise
+// the key the sender joined with. The host's seat is taken with the key it was reserved with.
+// Spectators publish without a player id, so they name themselves.
+export function getSigningKey(room: RoomState, event: GameEvent): string | undefined {
+  switch (event.type) {
+    case 'player-joined':
+      return room.sessionKeys[event.data.playerId] ?? getHandedOverKey(event);
+    case 'room-created':
+    case 'spectator-joined':
+      return getHandedOverKey(event);
+    case 'spectator-left':
+      return room.sessionKeys[event.data.spectatorId];
+    case 'state-sync-requested':
+      return room.sessionKeys[event.data.spectatorId ?? event.playerId];
+    default:
+      return room.sessionKeys[event.playerId];
+  }
+}
+
+function getHandedOverKey(event: GameEvent): string | undefined {
+  return typeof event.data.sessionKey === 'string' ? event.data.sessionKey : undefined;
+}
+
+// Validate a client event against the room and derive every resulting transition. Pure: the result
+// follows from the arguments alone, with the time taken from `now` and random numbers from the room's
+// seed, and nothing is broadcast or stored here. `senderIdentity` is the sign-in the event was
+// published with, when the channel knows it.
+export function applyEvent(room: RoomState, event: GameEvent, now: number, senderIdentity?: string): EngineResult {
+  if (event.roomCode !== room.game.roomCode) {
+    return reject(room, `Event for room ${event.roomCode} cannot be applied to room ${room.game.roomCode}`);
+  }
+
+  if (ENGINE_EVENT_TYPES.includes(event.type)) {
+    return reject(room, `Only the game engine can publish ${event.type} events`);
+  }
+
+  const seeded = createSeededRandom(room.randomSeed);
+  const context: ApplyContext = { now, random: seeded.random };
+
+  try {
+    const applied = recordIdentity(applyIntent(room, event, context), event, senderIdentity);
+    // Read-only intents are not worth a write, so presence is only tracked alongside changes, and
+    // heartbeats, which keep presence and the phase timers going. Most of those change nothing either.
+    // Bots move before the clock starts on whatever phase is left waiting for people.
+    const outcome = applied.room === room && event.type !== 'player-heartbeat'
+      ? applied
+      : migrateHost(
+        scheduleDeadline(runBots(runClock(recordPresence(applied, event, now), context), context), context),
+        context
+      );
+    return {
+      accepted: true,
+      // Read-only intents hand back the same room, which then needs no new version
+      state: outcome.room === room ? room : { ...outcome.room, randomSeed: seeded.seed(), version: room.version + 1 },
+      effects: { events: outcome.events, deliveries: outcome.deliveries ?? [], warnings: outcome.warnings ?? [] },
+    };
+  } catch (error) {
+    return reject(room, error instanceof Error ? error.message : 'Invalid game event');
+  }
+}
+
+// Answer an intent that arrived unsigned (see UNSIGNED_EVENT_TYPES). It is read-only: nothing is
+// stored, the clock and bots do not run, and only the requester's own answer goes out.
+export function answerUnsignedEvent(room: RoomState, event: GameEvent, now: number): EngineResult {
+  if (event.roomCode !== room.game.roomCode) {
+    return reject(room, `Event for room ${event.roomCode} cannot be applied to room ${room.game.roomCode}`);
+  }
+  if (event.type !== 'state-sync-requested') {
+    return reject(room, `${event.type} events must be signed`);
+  }
+
+  const context: ApplyContext = { now, random: createSeededRandom(room.randomSeed).random };
+  try {
+    const answer = syncState(room, event, context, false);
+    return { accepted: true, state: room, effects: { events: answer.events, deliveries: answer.deliveries ?? [], warnings: [] } };
+  } catch (error) {
+    return reject(room, error instanceof Error ? error.message : 'Invalid game event');
+  }
+}
+
+function reject(room: RoomState, error: string): EngineResult {
+  return { accepted: false, error, state: room, effects: { events: [], deliveries: [], warnings: [] } };
+}
+
+// A kicked player cannot come back under a new id from the same sign-in
+function recordIdentity(outcome: IntentOutcome, event: GameEvent, senderIdentity: string | undefined): IntentOutcome {
+  const joinedId = event.type === 'player-joined' ? event.data.playerId
+    : event.type === 'spectator-joined' ? event.data.spectatorId
+    : undefined;
+  if (joinedId === undefined || senderIdentity === undefined) {
+    return outcome;
+  }
+  if (outcome.room.bannedIdentities.includes(senderIdentity)) {
+    throw new Error('This player was removed from the room by the host');
+  }
+  const { room } = outcome;
+  return { ...outcome, room: { ...room, identities: { ...room.identities, [joinedId]: senderIdentity } } };
+}
+
+function applyIntent(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  switch (event.type) {
+    case 'room-created':
+      return createRoom(room, event, context);
+    case 'player-joined':
+      return joinPlayer(room, event);
+    case 'player-left':
+      return leavePlayer(room, event, context);
+    case 'player-kicked':
+      return kickPlayer(room, event);
+    case 'player-reconnected':
+      return reconnectPlayer(room, event);
+    case 'player-ready':
+      return setPlayerReady(room, event);
+    case 'settings-updated':
+      return updateSettings(room, event);
+    case 'seats-arranged':
+      return updateSeating(room, event);
+    case 'host-transferred':
+      return transferHost(room, event);
+    case 'game-started':
+      return startGame(room, event, context);
+    case 'game-reset':
+      return resetGame(room, event);
+    case 'team-selected':
+      return selectTeam(room, event, context);
+    case 'vote-cast':
+      return castVote(room, event, context);
+    case 'mission-choice-made':
+      return makeMissionChoice(room, event, context);
+    case 'assassination-attempted':
+      return attemptAssassination(room, event, context);
+    case 'state-sync-requested':
+      return syncState(room, event, context, true);
+    case 'player-heartbeat':
+      return recordHeartbeat(room, event, context);
+    case 'chat-message':
+      return sendChatMessage(room, event, context);
+    case 'spectator-joined':
+      return joinSpectator(room, event);
+    case 'spectator-left':
+      return leaveSpectator(room, event);
+    case 'bot-added':
+      return addBot(room, event);
+    default:
+      throw new Error(`Unsupported event type: ${event.type}`);
+  }
+}
+
+// Whoever creates a room reserves the host's seat with the id and session key they will join with,
+// so it is theirs however many people get the code before they take it
+function createRoom(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { hostId, sessionKey } = event.data;
+
+  if (room.version !== 0) {
+    throw new Error('This room has already been created');
+  }
+  if (typeof hostId !== 'string' || hostId.length === 0) {
+    throw new Error('Host id is required to create a room');
+  }
+  if (!isValidSessionKey(sessionKey)) {
+    throw new Error('A valid session key is required to create a room');
+  }
+
+  return {
+    room: {
+      ...room,
+      game: { ...room.game, hostId },
+      sessionKeys: { ...room.sessionKeys, [hostId]: sessionKey },
+      createdAt: context.now,
+    },
+    events: [{ ...event, data: { hostId } }],
+  };
+}
+
+// The joining player is identified by the event data, since they have no id before joining
+function joinPlayer(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  const { playerId, playerName, sessionKey } = event.data;
+
+  if (game.hostId === null) {
+    throw new Error('No room has been created with this code');
+  }
+  if (game.phase !== 'lobby') {
+    throw new Error('Players can only join while the room is in the lobby');
+  }
+  if (typeof playerId !== 'string' || playerId.length === 0) {
+    throw new Error('Player id is required to join');
+  }
+  if (game.players.some(p => p.id === playerId)) {
+    throw new Error('Player has already joined this room');
+  }
+  if (game.bannedPlayerIds.includes(playerId)) {
+    throw new Error('This player was removed from the room by the host');
+  }
+  if (!isValidSessionKey(sessionKey)) {
+    throw new Error('A valid session key is required to join');
+  }
+  if (room.sessionKeys[playerId] !== undefined && room.sessionKeys[playerId] !== sessionKey) {
+    throw new Error('This seat is held for someone else');
+  }
+
+  const nameValidation = validatePlayerName(playerName, [...game.players, ...game.spectators]);
+  if (!nameValidation.isValid) {
+    throw new Error(nameValidation.error);
+  }
+  if (game.players.length >= 10) {
+    throw new Error('Room is full (maximum 10 players)');
+  }
+
+  const player: Player = {
+    id: playerId,
+    name: playerName.trim(),
+    role: 'resistance',
+    isReady: false,
+    isConnected: true,
+    isLeader: false,
+  };
+
+  // The session key stays with the engine; everyone else only learns who joined
+  return {
+    room: {
+      ...room,
+      game: { ...game, players: [...game.players, player] },
+      sessionKeys: { ...room.sessionKeys, [playerId]: sessionKey },
+    },
+    events: [{ ...event, data: { playerId, playerName } }],
+  };
+}
+
+// Spectators can start watching at any point; like players, they are identified by the event data
+// and hand the engine a session key, which omniscient spectators' roles are sealed with
+function joinSpectator(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  const { spectatorId, spectatorName, sessionKey } = event.data;
+
+  if (game.hostId === null) {
+    throw new Error('No room has been created with this code');
+  }
+  if (typeof spectatorId !== 'string' || spectatorId.length === 0) {
+    throw new Error('Spectator id is required to watch');
+  }
+  if (game.players.some(p => p.id === spectatorId) || game.spectators.some(s => s.id === spectatorId)) {
+    throw new Error('Already in this room');
+  }
+  if (game.bannedPlayerIds.includes(spectatorId)) {
+    throw new Error('This player was removed from the room by the host');
+  }
+  if (!isValidSessionKey(sessionKey)) {
+    throw new Error('A valid session key is required to watch');
+  }
+
+  const nameValidation = validatePlayerName(spectatorName, [...game.players, ...game.spectators]);
+  if (!nameValidation.isValid) {
+    throw new Error(nameValidation.error);
+  }
+
+  const spectator: Spectator = { id: spectatorId, name: spectatorName.trim() };
+
+  return {
+    room: {
+      ...room,
+      game: { ...game, spectators: [...game.spectators, spectator] },
+      sessionKeys: { ...room.sessionKeys, [spectatorId]: sessionKey },
+    },
+    events: [{ ...event, data: { spectatorId, spectatorName: spectator.name } }],
+  };
+}
+
+// Spectators publish without a player id, so they name who is leaving (and sign with their session key)
+function leaveSpectator(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  const { spectatorId } = event.data;
+
+  if (!game.spectators.some(s => s.id === spectatorId)) {
+    throw new Error(`Unknown spectator: ${spectatorId}`);
+  }
+
+  const sessionKeys = { ...room.sessionKeys };
+  delete sessionKeys[spectatorId];
+
+  return {
+    room: {
+      ...room,
+      game: { ...game, spectators: game.spectators.filter(s => s.id !== spectatorId) },
+      sessionKeys,
+    },
+    events: [{ ...event, data: { spectatorId } }],
+  };
+}
+
+// The host fills a lobby seat with a bot. The engine moves every bot and they never get a session key,
+// so nobody, the host included, can open their roles.
+function addBot(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'lobby', event.type);
+  requireHost(game, event, 'add bots');
+
+  const { botId, botName, botStrategy } = event.data;
+
+  if (typeof botId !== 'string' || botId.length === 0) {
+    throw new Error('Bot id is required');
+  }
+  if (game.players.some(p => p.id === botId) || game.spectators.some(s => s.id === botId)) {
+    throw new Error('Already in this room');
+  }
+  if (!isBotStrategyName(botStrategy)) {
+    throw new Error(`Unknown bot strategy: ${botStrategy}`);
+  }
+
+  const nameValidation = validatePlayerName(botName, [...game.players, ...game.spectators]);
+  if (!nameValidation.isValid) {
+    throw new Error(nameValidation.error);
+  }
+  if (game.players.length >= 10) {
+    throw new Error('Room is full (maximum 10 players)');
+  }
+
+  const bot: Player = {
+    id: botId,
+    name: botName.trim(),
+    role: 'resistance',
+    isReady: true,
+    isConnected: true,
+    isLeader: false,
+    isBot: true,
+    botStrategy,
+  };
+
+  return {
+    room: { ...room, game: { ...game, players: [...game.players, bot] } },
+    events: [{ ...event, data: { botId, botName: bot.name, botStrategy } }],
+  };
+}
+
+// Leaving the lobby frees the seat; leaving mid-game only marks the player disconnected
+function leavePlayer(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  requireSender(game, event, event.data.playerId);
+
+  const players = game.phase === 'lobby'
+    ? game.players.filter(p => p.id !== event.playerId)
+    : game.players.map(p => (p.id === event.playerId ? { ...p, isConnected: false } : p));
+
+  const sessionKeys = { ...room.sessionKeys };
+  if (game.phase === 'lobby') {
+    delete sessionKeys[event.playerId];
+  }
+
+  const updated: IntentOutcome = {
+    room: { ...room, game: { ...game, players }, sessionKeys },
+    events: [event],
+  };
+
+  // A departure can be the last thing a vote was waiting on
+  return game.phase === 'voting' ? resolveVotingIfComplete(updated, context) : updated;
+}
+
+// The host removes a player from the lobby for good; their session key is dropped with them
+function kickPlayer(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'lobby', event.type);
+  requireHost(game, event, 'kick players');
+
+  const { playerId } = event.data;
+  if (!game.players.some(p => p.id === playerId)) {
+    throw new Error(`Unknown player: ${playerId}`);
+  }
+  if (playerId === event.playerId) {
+    throw new Error('The host cannot kick themselves');
+  }
+
+  const sessionKeys = { ...room.sessionKeys };
+  delete sessionKeys[playerId];
+  // Their sign-in is banned too, so joining again under a new id does not get them back in
+  const identity = room.identities[playerId];
+
+  return {
+    room: {
+      ...room,
+      game: {
+        ...game,
+        players: game.players.filter(p => p.id !== playerId),
+        bannedPlayerIds: [...game.bannedPlayerIds, playerId],
+      },
+      sessionKeys,
+      bannedIdentities: identity === undefined ? room.bannedIdentities : [...room.bannedIdentities, identity],
+    },
+    events: [{ ...event, data: { playerId } }],
+  };
+}
+
+// A player resuming after a refresh proves who they are by signing with the session key they joined with
+function reconnectPlayer(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  requireSender(game, event, event.data.playerId);
+
+  const players = game.players.map(p => (p.id === event.playerId ? { ...p, isConnected: true } : p));
+
+  return {
+    room: { ...room, game: { ...game, players } },
+    events: [{ ...event, data: { playerId: event.playerId } }],
+  };
+}
+
+function setPlayerReady(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'lobby', event.type);
+  requireSender(game, event, event.data.playerId);
+
+  if (typeof event.data.isReady !== 'boolean') {
+    throw new Error('Ready state must be true or false');
+  }
+
+  return {
+    room: {
+      ...room,
+      game: {
+        ...game,
+        players: game.players.map(p =>
+          p.id === event.playerId ? { ...p, isReady: event.data.isReady } : p
+        ),
+      },
+    },
+    events: [event],
+  };
+}
+
+// The host edits the house rules until roles are assigned; the player count is checked at start
+function updateSettings(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  if (game.phase !== 'lobby') {
+    throw new Error('Settings are locked once roles are assigned');
+  }
+  requireHost(game, event, 'change the settings');
+
+  const { settings } = event.data;
+  const validation = validateRoomSettings(settings);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  return {
+    room: { ...room, game: { ...game, settings } },
+    events: [{ ...event, data: { settings } }],
+  };
+}
+
+// The host moves players between seats in the lobby; the seats set the leader rotation
+function updateSeating(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'lobby', event.type);
+  requireHost(game, event, 'arrange the seats');
+
+  const { seatOrder } = event.data;
+  const validation = validateSeatOrder(game.players, seatOrder);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  return {
+    room: { ...room, game: { ...game, players: arrangeSeats(game.players, seatOrder) } },
+    events: [{ ...event, data: { seatOrder } }],
+  };
+}
+
+// The host hands hosting to another connected player
+function transferHost(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  requireHost(game, event, 'hand over hosting');
+
+  const { hostId } = event.data;
+  const newHost = game.players.find(p => p.id === hostId);
+  if (!newHost || newHost.id === event.playerId) {
+    throw new Error('Hosting can only be handed to another player in the room');
+  }
+  if (newHost.isBot) {
+    throw new Error('Hosting cannot be handed to a bot');
+  }
+  if (!newHost.isConnected) {
+    throw new Error('Hosting can only be handed to a connected player');
+  }
+
+  return {
+    room: { ...room, game: { ...game, hostId } },
+    events: [{ ...event, data: { hostId, previousHostId: event.playerId } }],
+  };
+}
+
+// Only the host can start the game.
+// Players are seated first, and whoever sits in the first seat leads mission 1.
+function startGame(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'lobby', event.type);
+  requireHost(game, event, 'start the game');
+
+  const assigning = changePhase(game, 'role-assignment');
+  const seatedPlayers = assigning.settings.seating === 'random' ? shuffleSeats(assigning.players, context.random) : assigning.players;
+  const playersWithRoles = assignRoles(seatedPlayers, assigning.settings, context.random);
+  const firstLeader = playersWithRoles[0].id;
+  const seatOrder = playersWithRoles.map(p => p.id);
+
+  const logEntry = engineLogEntry(
+    context,
+    'mission-start',
+    `Mission 1 started - ${playersWithRoles.find(p => p.id === firstLeader)?.name} leads`,
+    { missionNumber: 1, leader: firstLeader }
+  );
+
+  const started = changePhase(
+    {
+      ...assigning,
+      players: playersWithRoles.map(p => ({ ...p, isLeader: p.id === firstLeader })),
+      currentLeader: firstLeader,
+      gameLog: [...assigning.gameLog, logEntry],
+    },
+    'team-building'
+  );
+
+  // Roles never go out in the clear: each player gets only what they are allowed to see (Requirements 5.4, 5.5)
+  const rolesAssigned = engineEvent(context, started, 'roles-assigned', { firstLeader, seatOrder, logEntry });
+  const visibleRoles: Record<string, unknown> = {};
+  playersWithRoles.forEach(player => {
+    visibleRoles[player.id] = getVisibleRoles(player, playersWithRoles, started.settings.visibilityRuleset);
+  });
+  const spectatorRoles: Record<string, unknown> = {};
+  getOmniscientSpectators(started).forEach(spectator => {
+    spectatorRoles[spectator.id] = getAllRoles(playersWithRoles);
+  });
+
+  return {
+    room: holdForSpectators({ ...room, game: started }, 'sealedRoles', spectatorRoles, context.now),
+    events: [event, rolesAssigned],
+    deliveries: [{ event: rolesAssigned, field: 'sealedRoles', payloads: visibleRoles }],
+  };
+}
+
+// Once a game is over the host can bring everyone back to the lobby for another one,
+// optionally clearing the running score
+function resetGame(room: RoomState, event: GameEvent): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'game-end', event.type);
+  requireHost(game, event, 'start a new game');
+
+  const keepScores = event.data.keepScores !== false;
+  const reset = resetGameState(changePhase(game, 'lobby'), keepScores);
+
+  // Seats given up on the way back to the lobby go with their session keys, as when leaving it
+  const sessionKeys = { ...room.sessionKeys };
+  game.players.filter(p => !reset.players.some(seated => seated.id === p.id)).forEach(p => {
+    delete sessionKeys[p.id];
+  });
+
+  return {
+    // Anything still held for spectators belongs to the game that just ended
+    room: { ...room, game: reset, sessionKeys, missionChoices: {}, spectatorFeed: [] },
+    events: [{ ...event, data: { keepScores } }],
+  };
+}
+
+// The leader proposes a team; unless the house rules say otherwise, their own vote is recorded as "Yes" (Requirement 7.2)
+function selectTeam(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'team-building', event.type);
+
+  if (event.playerId !== game.currentLeader) {
+    throw new Error('Only the mission leader can select the team');
+  }
+
+  const selectedTeam = event.data.selectedTeam;
+  if (!Array.isArray(selectedTeam) || new Set(selectedTeam).size !== selectedTeam.length) {
+    throw new Error('Selected team must be a list of distinct players');
+  }
+
+  return proposeTeam({ room, events: [] }, event, selectedTeam, context);
+}
+
+// Put a team to the vote, counting the leader's vote as "Yes" when the house rules say so.
+// The proposal goes out with the votes the vote opens with, so nobody has to work them out again.
+function proposeTeam(
+  outcome: IntentOutcome,
+  proposal: GameEvent,
+  selectedTeam: string[],
+  context: ApplyContext
+): IntentOutcome {
+  const { room } = outcome;
+  const voting = changePhase({ ...room.game, selectedTeam }, 'voting');
+  const currentVotes: Record<string, boolean> = voting.settings.leaderAutoVotesYes
+    ? { [room.game.currentLeader]: true }
+    : {};
+
+  return resolveVotingIfComplete(
+    {
+      ...outcome,
+      room: {
+        ...room,
+        game: {
+          ...voting,
+          votingInProgress: true,
+          currentVotes,
+        },
+      },
+      events: [...outcome.events, { ...proposal, data: { selectedTeam, currentVotes } }],
+    },
+    context
+  );
+}
+
+function castVote(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'voting', event.type);
+  const player = requireSender(game, event);
+
+  if (!player.isConnected) {
+    throw new Error(`${player.name} is not connected`);
+  }
+  if (typeof event.data.vote !== 'boolean') {
+    throw new Error('Vote must be true or false');
+  }
+  if (game.currentVotes[player.id] !== undefined) {
+    throw new Error(`${player.name} has already voted`);
+  }
+
+  return resolveVotingIfComplete(
+    {
+      room: {
+        ...room,
+        game: { ...game, currentVotes: { ...game.currentVotes, [player.id]: event.data.vote } },
+      },
+      events: [event],
+    },
+    context
+  );
+}
+
+// Answer a newly connected client with the current state. Anyone on the channel may ask,
+// so the snapshot hides every role until the game is over; a player who is in the game also
+// gets their own view sealed, and an omniscient spectator every role once the spectator delay has passed.
+// Holding the roles for that delay is a write, so only a request the spectator `signed` gets them.
+function syncState(room: RoomState, event: GameEvent, context: ApplyContext, signed: boolean): IntentOutcome {
+  const { game } = room;
+  const { requestId } = event.data;
+
+  if (typeof requestId !== 'string' || requestId.length === 0) {
+    throw new Error('State sync requests need a request id');
+  }
+
+  const snapshot = game.phase === 'game-end' ? game : redactGameState(game);
+  const stateSync = engineEvent(context, game, 'state-sync', { requestId, snapshot });
+  const player = game.players.find(p => p.id === event.playerId);
+  // Spectators publish without a player id, so they name themselves; only they can open what is sealed for them
+  const spectator = getOmniscientSpectators(game).find(s => s.id === event.data.spectatorId);
+  const rolesDealt = game.phase !== 'lobby' && game.phase !== 'role-assignment';
+
+  if (rolesDealt && spectator && signed) {
+    return {
+      room: holdForSpectators(room, 'sealedRoles', { [spectator.id]: getAllRoles(game.players) }, context.now),
+      events: [stateSync],
+    };
+  }
+
+  const payloads: Record<string, unknown> = {};
+  if (rolesDealt && player) {
+    payloads[player.id] = getVisibleRoles(player, game.players, game.settings.visibilityRuleset);
+  }
+
+  return {
+    room,
+    events: [stateSync],
+    deliveries: Object.keys(payloads).length > 0 ? [{ event: stateSync, field: 'sealedRoles', payloads }] : [],
+  };
+}
+
+// Heartbeats only refresh the sender's presence, unless they had been marked disconnected
+function recordHeartbeat(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  const player = requireSender(game, event);
+
+  if (player.isConnected) {
+    return { room, events: [] };
+  }
+
+  const players = game.players.map(p => (p.id === player.id ? { ...p, isConnected: true } : p));
+  return {
+    room: { ...room, game: { ...game, players } },
+    events: [engineEvent(context, game, 'player-reconnected', { playerId: player.id })],
+  };
+}
+
+// Room chat is rebroadcast as sent (after the profanity filter); spy chat goes out from the
+// engine, sealed to the spies on the channel (the sender included, so it shows up for them too).
+// Every other seat gets an empty payload, so nobody learns who is talking or who is listening;
+// omniscient spectators get the message once the spectator delay has passed.
+function sendChatMessage(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  const player = requireSender(game, event);
+  const { channel } = event.data;
+
+  const validation = validateChatMessage(event.data.text, channel);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+  if (isChatMuted(game.phase, game.settings)) {
+    throw new Error('Chat is muted during missions');
+  }
+
+  const { now } = context;
+  const sentAt = (room.chatSentAt[player.id] ?? []).filter(time => now - time < CHAT_RATE_LIMIT_WINDOW_MS);
+  if (isChatRateLimited(sentAt, now)) {
+    throw new Error('You are sending messages too quickly');
+  }
+
+  const text = prepareChatText(event.data.text);
+  const chatSentAt = { ...room.chatSentAt, [player.id]: [...sentAt, now] };
+
+  if (channel === 'room') {
+    return {
+      room: { ...room, chatSentAt },
+      events: [{ ...event, data: { channel, text } }],
+    };
+  }
+
+  const members = getSpyChatMembers(game.players, game.settings);
+  if (!members.some(p => p.id === player.id)) {
+    throw new Error('Only spies who know each other can use the spy chat');
+  }
+
+  const spyMessage = engineEvent(context, game, 'chat-message', { channel });
+  const payloads: Record<string, unknown> = {};
+  game.players.forEach(p => {
+    payloads[p.id] = null;
+  });
+  members.forEach(member => {
+    payloads[member.id] = { playerId: player.id, text };
+  });
+  const spectatorPayloads: Record<string, unknown> = {};
+  getOmniscientSpectators(game).forEach(spectator => {
+    spectatorPayloads[spectator.id] = { playerId: player.id, text };
+  });
+
+  return {
+    room: holdForSpectators({ ...room, chatSentAt }, 'sealedMessage', spectatorPayloads, now),
+    events: [spyMessage],
+    deliveries: [{ event: spyMessage, field: 'sealedMessage', payloads }],
+  };
+}
+
+function recordPresence(outcome: IntentOutcome, event: GameEvent, now: number): IntentOutcome {
+  const { room } = outcome;
+  const lastSeen = room.lastSeen[event.playerId];
+  const fresh = lastSeen !== undefined && now - lastSeen < PRESENCE_REFRESH_MS;
+  if (fresh || !room.game.players.some(p => p.id === event.playerId)) {
+    return outcome;
+  }
+  return { ...outcome, room: { ...room, lastSeen: { ...room.lastSeen, [event.playerId]: now } } };
+}
+
+// Mark players not heard from within PRESENCE_TIMEOUT_MS as disconnected, so nobody waits on a closed tab.
+// Players without an entry yet (just joined) start being tracked from now, and those who left stop being tracked.
+function sweepPresence(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { room, events } = outcome;
+  const { game } = room;
+
+  const lastSeen: Record<string, number> = {};
+  game.players.forEach(p => {
+    lastSeen[p.id] = room.lastSeen[p.id] ?? context.now;
+  });
+  const tracked = Object.keys(room.lastSeen).length === game.players.length
+    && game.players.every(p => room.lastSeen[p.id] !== undefined);
+
+  const timedOut = game.players.filter(p => !p.isBot && p.isConnected && context.now - lastSeen[p.id] > PRESENCE_TIMEOUT_MS);
+  if (timedOut.length === 0) {
+    return tracked ? outcome : { ...outcome, room: { ...room, lastSeen } };
+  }
+
+  const swept: IntentOutcome = {
+    ...outcome,
+    room: {
+      ...room,
+      game: {
+        ...game,
+        players: game.players.map(p => (timedOut.includes(p) ? { ...p, isConnected: false } : p)),
+      },
+      lastSeen,
+    },
+    events: [...events, ...timedOut.map(p => engineEvent(context, game, 'player-disconnected', { playerId: p.id }))],
+  };
+
+  // A disconnection can be the last thing a vote was waiting on
+  return game.phase === 'voting' ? resolveVotingIfComplete(swept, context) : swept;
+}
+
+// Time-based transitions, checked alongside every change (heartbeats keep them ticking).
+// A fallback that cannot be applied is reported and left for later, never held against the event
+// that happened to find the phase expired.
+function runClock(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const swept = releaseSpectatorFeed(sweepPresence(outcome, context), context);
+  try {
+    return expirePhase(swept, context);
+  } catch (error) {
+    return addWarning(swept, `The ${swept.room.game.phase} timeout could not be applied`, error);
+  }
+}
+
+// Queue private data for omniscient spectators until the room's spectator delay has passed
+function holdForSpectators(
+  room: RoomState,
+  field: HeldDelivery['field'],
+  payloads: Record<string, unknown>,
+  now: number
+): RoomState {
+  if (Object.keys(payloads).length === 0) {
+    return room;
+  }
+  const held: HeldDelivery = { releaseAt: now + room.game.settings.spectatorDelayMs, sentAt: now, field, payloads };
+  return { ...room, spectatorFeed: [...room.spectatorFeed, held] };
+}
+
+// Publish whatever was held for omniscient spectators and has waited out the delay, in the order it was held
+function releaseSpectatorFeed(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { room } = outcome;
+  const due = room.spectatorFeed.filter(held => held.releaseAt <= context.now);
+  if (due.length === 0) {
+    return outcome;
+  }
+
+  const released = due.map(({ sentAt, field, payloads }) => {
+    const event = engineEvent(context, room.game, 'spectator-feed', { sentAt });
+    return { event, delivery: { event, field, payloads } };
+  });
+
+  return {
+    ...outcome,
+    room: { ...room, spectatorFeed: room.spectatorFeed.filter(held => held.releaseAt > context.now) },
+    events: [...outcome.events, ...released.map(({ event }) => event)],
+    deliveries: [...(outcome.deliveries ?? []), ...released.map(({ delivery }) => delivery)],
+  };
+}
+
+// Bots make every move the game is waiting on from them, each through the same checks
+// as a person's event. A move that is refused is left to the phase timer rather than refusing the
+// event that led to it.
+function runBots(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  let current = outcome;
+
+  for (let step = 0; step < MAX_BOT_ACTIONS; step++) {
+    const botEvent = getNextBotEvent(current.room.game, context);
+    if (!botEvent) {
+      return current;
+    }
+
+    let applied: IntentOutcome;
+    try {
+      applied = applyIntent(current.room, botEvent, context);
+    } catch (error) {
+      return addWarning(current, `Bot ${botEvent.playerId} could not send ${botEvent.type}`, error);
+    }
+
+    current = {
+      ...current,
+      room: applied.room,
+      events: [...current.events, ...applied.events],
+      deliveries: [...(current.deliveries ?? []), ...(applied.deliveries ?? [])],
+    };
+  }
+
+  return current;
+}
+
+// The first move a bot owes the game, planned from what a person in its seat would know
+function getNextBotEvent(game: GameState, context: ApplyContext): GameEvent | null {
+  if (game.phase === 'lobby' || game.phase === 'game-end') {
+    return null;
+  }
+
+  for (const bot of game.players.filter(p => p.isBot)) {
+    const view = createBotView(game, bot.id, getVisibleRoles(bot, game.players, game.settings.visibilityRuleset));
+    const action = planBotAction(view, getBotStrategy(bot.botStrategy ?? 'rule-based', bot.role, context.random));
+    if (action) {
+      return createGameEvent(action.type, game.roomCode, bot.id, action.data, context.now);
+    }
+  }
+  return null;
+}
+
+// A host who leaves or drops out hands over to the next connected player clockwise,
+// so the lobby controls never sit with a closed tab. The seat reserved for the room's
+// creator stays theirs until they take it, or until it has sat empty for as long as
+// a player may go unheard from.
+function migrateHost(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { room } = outcome;
+  const { game } = room;
+  const host = game.players.find(p => p.id === game.hostId);
+  const reserved = !host && game.hostId !== null && room.sessionKeys[game.hostId] !== undefined
+    && context.now - room.createdAt <= PRESENCE_TIMEOUT_MS;
+  if (host?.isConnected || reserved) {
+    return outcome;
+  }
+
+  // Nobody left to take over leaves the room without a host until someone is back; bots cannot host
+  const hostId = getNextConnectedPlayer(game.players.filter(p => !p.isBot || p.id === game.hostId), game.hostId);
+  if (hostId === game.hostId) {
+    return outcome;
+  }
+
+  return {
+    ...outcome,
+    room: { ...room, game: { ...game, hostId } },
+    events: [...outcome.events, engineEvent(context, game, 'host-transferred', { hostId, previousHostId: game.hostId })],
+  };
+}
+
+// Start the clock for a timed phase that was just entered
+function scheduleDeadline(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { room, events } = outcome;
+  const { game } = room;
+
+  if (!isTimedPhase(game.phase) || game.phaseDeadline !== null) {
+    return outcome;
+  }
+
+  const deadline = context.now + game.settings.phaseTimers[game.phase];
+  return {
+    ...outcome,
+    room: { ...room, game: { ...game, phaseDeadline: deadline } },
+    events: [...events, engineEvent(context, game, 'phase-timer-started', { phase: game.phase, deadline })],
+  };
+}
+
+// Resolve a timed phase that ran out of time, so one idle player cannot stall the table
+function expirePhase(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { game } = outcome.room;
+
+  if (game.phaseDeadline === null || context.now < game.phaseDeadline) {
+    return outcome;
+  }
+
+  switch (game.phase) {
+    case 'team-building':
+      return timeOutTeamBuilding(outcome, context);
+    case 'voting':
+      return timeOutVoting(outcome, context);
+    case 'mission':
+      return timeOutMission(outcome, context);
+    case 'assassination':
+      return timeOutAssassination(outcome, context);
+    default:
+      return outcome;
+  }
+}
+
+// Log a timeout and announce it ahead of the fallback's own events
+function recordTimeout(
+  outcome: IntentOutcome,
+  message: string,
+  data: Record<string, any>,
+  context: ApplyContext
+): IntentOutcome {
+  const { room, events } = outcome;
+  const { game } = room;
+  const logEntry = engineLogEntry(context, 'phase-timeout', message, { phase: game.phase, missionNumber: game.currentMission, ...data });
+
+  return {
+    ...outcome,
+    room: { ...room, game: { ...game, gameLog: [...game.gameLog, logEntry] } },
+    events: [...events, engineEvent(context, game, 'phase-timed-out', { phase: game.phase, logEntry })],
+  };
+}
+
+// The leader ran out of time: a random team of the required size goes to the vote. With too few
+// players connected to fill one, the phase waits until enough of them are back.
+function timeOutTeamBuilding(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { game } = outcome.room;
+  const selectedTeam = pickRandomTeam(game.players, game.currentMission, game.settings, context.random);
+  if (!selectedTeam) {
+    return outcome;
+  }
+  const nameOf = (playerId: string) => game.players.find(p => p.id === playerId)?.name;
+
+  const timedOut = recordTimeout(
+    outcome,
+    `${nameOf(game.currentLeader)} ran out of time - a random team was picked`,
+    { leader: game.currentLeader, selectedTeam: selectedTeam.map(nameOf) },
+    context
+  );
+
+  return proposeTeam(timedOut, engineEvent(context, game, 'team-selected', {}), selectedTeam, context);
+}
+
+// Players who did not vote in time are counted as rejecting the team
+function timeOutVoting(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { game } = outcome.room;
+  const missing = game.players.filter(p => p.isConnected && game.currentVotes[p.id] === undefined);
+
+  const timedOut = recordTimeout(
+    outcome,
+    `Voting ran out of time - ${missing.length} missing vote(s) counted as No`,
+    { players: missing.map(p => p.name) },
+    context
+  );
+
+  const currentVotes = { ...game.currentVotes };
+  missing.forEach(p => {
+    currentVotes[p.id] = false;
+  });
+
+  return resolveVotingIfComplete(
+    {
+      ...timedOut,
+      room: { ...timedOut.room, game: { ...timedOut.room.game, currentVotes } },
+    },
+    context
+  );
+}
+
+// Team members who did not play a card in time are counted as playing Success
+function timeOutMission(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { room } = outcome;
+  const { game } = room;
+  const missing = game.selectedTeam.filter(id => room.missionChoices[id] === undefined);
+
+  const timedOut = recordTimeout(
+    outcome,
+    `Mission ran out of time - ${missing.length} missing card(s) counted as Success`,
+    { players: missing.map(id => game.players.find(p => p.id === id)?.name) },
+    context
+  );
+
+  const missionChoices = { ...room.missionChoices };
+  missing.forEach(id => {
+    missionChoices[id] = true;
+  });
+
+  return resolveMission(
+    {
+      ...timedOut,
+      room: {
+        ...timedOut.room,
+        game: { ...timedOut.room.game, missionSubmissions: [...game.missionSubmissions, ...missing] },
+        missionChoices,
+      },
+    },
+    context
+  );
+}
+
+// Once every connected player has voted, approve the mission or pass leadership (Requirements 7.4-7.6)
+function resolveVotingIfComplete(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { room, events } = outcome;
+  const { game } = room;
+  const connectedPlayers = game.players.filter(p => p.isConnected);
+
+  if (!connectedPlayers.every(p => game.currentVotes[p.id] !== undefined)) {
+    return outcome;
+  }
+
+  // Votes from players who have since disconnected no longer count
+  const votes: Record<string, boolean> = {};
+  connectedPlayers.forEach(p => {
+    votes[p.id] = game.currentVotes[p.id];
+  });
+
+  const validation = validateMissionVoting(votes, game.players);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  const result = calculateVotingResult(votes);
+  const voteTrack = result.approved ? 0 : game.voteTrack + 1;
+  const nameOf = (playerId: string) => game.players.find(p => p.id === playerId)?.name;
+
+  const logEntry = engineLogEntry(
+    context,
+    'team-vote',
+    `Mission ${game.currentMission} team ${result.approved ? 'approved' : 'rejected'} (${result.yesVotes} Yes, ${result.noVotes} No)`,
+    {
+      missionNumber: game.currentMission,
+      approved: result.approved,
+      voteTrack,
+      yesVoters: Object.keys(votes).filter(id => votes[id]).map(nameOf),
+      noVoters: Object.keys(votes).filter(id => !votes[id]).map(nameOf),
+      selectedTeam: game.selectedTeam.map(nameOf),
+    }
+  );
+
+  const missionProposals = game.proposals[game.currentMission] ?? [];
+  const proposal: Proposal = {
+    missionNumber: game.currentMission,
+    attempt: missionProposals.length + 1,
+    leader: game.currentLeader,
+    team: game.selectedTeam,
+    votes,
+    approved: result.approved,
+  };
+
+  const voted: GameState = {
+    ...game,
+    currentVotes: votes,
+    votingInProgress: false,
+    voteTrack,
+    proposals: { ...game.proposals, [game.currentMission]: [...missionProposals, proposal] },
+    gameLog: [...game.gameLog, logEntry],
+  };
+
+  const completedEvent = engineEvent(context, voted, 'voting-completed', {
+    votes,
+    result,
+    missionNumber: game.currentMission,
+    voteTrack,
+    proposal,
+    logEntry,
+  });
+
+  if (result.approved) {
+    const mission = changePhase({ ...voted, missionInProgress: true, missionSubmissions: [] }, 'mission');
+    return {
+      ...outcome,
+      room: { ...room, game: mission, missionChoices: {} },
+      events: [
+        ...events,
+        completedEvent,
+        engineEvent(context, mission, 'mission-started', {
+          selectedTeam: mission.selectedTeam,
+          missionNumber: mission.currentMission,
+        }),
+      ],
+    };
+  }
+
+  const gameEndCheck = checkGameEnd(voted.resistanceScore, voted.spyScore, voted.currentMission, voteTrack, voted.settings);
+  const next = gameEndCheck.gameEnded
+    ? endGame(voted, gameEndCheck, context)
+    : rotateLeader(voted, 'vote-failed', context);
+
+  return {
+    ...outcome,
+    room: { ...room, game: next.game },
+    events: [...events, completedEvent, next.event],
+  };
+}
+
+// Team members play Success or Fail; only spies may fail (Requirements 8.2, 8.3).
+// The room only learns that the player has chosen, never what they chose.
+function makeMissionChoice(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'mission', event.type);
+  const player = requireSender(game, event);
+
+  if (!game.selectedTeam.includes(player.id)) {
+    throw new Error(`${player.name} is not on this mission`);
+  }
+  if (typeof event.data.choice !== 'boolean') {
+    throw new Error('Mission choice must be true or false');
+  }
+  if (room.missionChoices[player.id] !== undefined) {
+    throw new Error(`${player.name} has already made a mission choice`);
+  }
+  if (!event.data.choice && !canPlayerChooseFail(player)) {
+    throw new Error('Resistance members can only choose Success');
+  }
+
+  const missionChoices = { ...room.missionChoices, [player.id]: event.data.choice };
+  const chosen: IntentOutcome = {
+    room: {
+      ...room,
+      game: { ...game, missionSubmissions: [...game.missionSubmissions, player.id] },
+      missionChoices,
+    },
+    events: [{ ...event, data: {} }],
+  };
+
+  if (Object.keys(missionChoices).length < game.selectedTeam.length) {
+    return chosen;
+  }
+
+  return resolveMission(chosen, context);
+}
+
+// Score the mission, record it and either end the game or move on (Requirements 8.5, 8.6, 9.1, 11.1, 11.2)
+function resolveMission(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const { room, events } = outcome;
+  const { game, missionChoices } = room;
+  const missionNumber = game.currentMission;
+  const result = calculateMissionResult(missionChoices, game.players.length, missionNumber, game.settings);
+
+  const resistanceScore = result.success ? game.resistanceScore + 1 : game.resistanceScore;
+  const spyScore = result.success ? game.spyScore : game.spyScore + 1;
+  const newScores = { resistance: resistanceScore, spy: spyScore };
+
+  const missionResult: MissionResult = {
+    missionNumber,
+    requiredPlayers: game.selectedTeam.length,
+    leader: game.currentLeader,
+    selectedPlayers: game.selectedTeam,
+    votes: game.currentVotes,
+    missionChoices: shuffleMissionCards(missionChoices, context.random),
+    outcome: result.success ? 'success' : 'failure',
+    resistancePoints: resistanceScore,
+    spyPoints: spyScore,
+  };
+
+  const logEntry = engineLogEntry(
+    context,
+    'mission-complete',
+    `Mission ${missionNumber} ${result.success ? 'succeeded' : 'failed'} (${result.successChoices} Success, ${result.failChoices} Fail)`,
+    {
+      missionNumber,
+      success: result.success,
+      participants: game.selectedTeam.map(id => game.players.find(p => p.id === id)?.name),
+      successChoices: result.successChoices,
+      failChoices: result.failChoices,
+      requiredFails: result.requiredFails,
+      newScores,
+    }
+  );
+
+  const completed = changePhase(
+    {
+      ...game,
+      missionInProgress: false,
+      missionSubmissions: [],
+      resistanceScore,
+      spyScore,
+      missionHistory: [...game.missionHistory, missionResult],
+      currentMission: missionNumber + 1,
+      gameLog: [...game.gameLog, logEntry],
+    },
+    'mission-result'
+  );
+
+  // Only the tally goes out, never the per-player choices
+  const completedEvent = engineEvent(context, completed, 'mission-completed', {
+    result,
+    missionNumber,
+    newScores,
+    missionResult,
+    logEntry,
+  });
+
+  const gameEndCheck = checkGameEnd(resistanceScore, spyScore, missionNumber, 0, game.settings);
+  const assassinInPlay = completed.players.some(p => p.role === 'assassin');
+  const next = gameEndCheck.gameEnded && gameEndCheck.winner === 'resistance' && assassinInPlay
+    ? startAssassination(completed, context)
+    : gameEndCheck.gameEnded
+      ? endGame(completed, gameEndCheck, context)
+      : rotateLeader(completed, 'mission-complete', context);
+
+  return {
+    ...outcome,
+    room: { ...room, game: next.game, missionChoices: {} },
+    events: [...events, completedEvent, next.event],
+  };
+}
+
+// Three successful missions are not yet a win while the Assassin can still find Merlin
+function startAssassination(game: GameState, context: ApplyContext): { game: GameState; event: GameEvent } {
+  const logEntry = engineLogEntry(
+    context,
+    'assassination',
+    'The resistance completed three missions - the Assassin now has one chance to name Merlin',
+    { missionNumber: game.currentMission - 1 }
+  );
+  const assassination = changePhase(
+    { ...game, selectedTeam: [], currentVotes: {}, gameLog: [...game.gameLog, logEntry] },
+    'assassination'
+  );
+
+  return {
+    game: assassination,
+    event: engineEvent(context, assassination, 'assassination-started', { logEntry }),
+  };
+}
+
+// The Assassin names a player: finding Merlin hands the game to the spies
+function attemptAssassination(room: RoomState, event: GameEvent, context: ApplyContext): IntentOutcome {
+  const { game } = room;
+  requirePhase(game, 'assassination', event.type);
+  const assassin = requireSender(game, event);
+
+  if (assassin.role !== 'assassin') {
+    throw new Error('Only the Assassin can choose a target');
+  }
+
+  const target = game.players.find(p => p.id === event.data.targetId);
+  if (!target || target.id === assassin.id) {
+    throw new Error('The Assassin must target another player');
+  }
+
+  const merlinFound = target.role === 'merlin';
+  const ended = endGame(
+    game,
+    { gameEnded: true, winner: merlinFound ? 'spy' : 'resistance', reason: 'assassination' },
+    context,
+    `The Assassin named ${target.name}, ${merlinFound ? 'who was Merlin' : 'who was not Merlin'}`
+  );
+
+  return {
+    room: { ...room, game: ended.game },
+    events: [{ ...event, data: { targetId: target.id } }, ended.event],
+  };
+}
+
+// An Assassin who never names anyone forfeits the shot
+function timeOutAssassination(outcome: IntentOutcome, context: ApplyContext): IntentOutcome {
+  const timedOut = recordTimeout(outcome, 'The Assassin ran out of time - Merlin survives', {}, context);
+  const ended = endGame(
+    timedOut.room.game,
+    { gameEnded: true, winner: 'resistance', reason: 'assassination' },
+    context,
+    'The Assassin did not name anyone'
+  );
+
+  return {
+    ...timedOut,
+    room: { ...timedOut.room, game: ended.game },
+    events: [...timedOut.events, ended.event],
+  };
+}
+
+function endGame(
+  game: GameState,
+  gameEndCheck: ReturnType<typeof checkGameEnd>,
+  context: ApplyContext,
+  detail?: string
+): { game: GameState; event: GameEvent } {
+  const finalScores = { resistance: game.resistanceScore, spy: game.spyScore };
+  const logEntry = engineLogEntry(
+    context,
+    'game-end',
+    `Game ended! ${gameEndCheck.winner === 'resistance' ? 'Resistance' : 'Spies'} win!${detail ? ` ${detail}.` : ''}`,
+    { winner: gameEndCheck.winner, reason: gameEndCheck.reason, finalScores }
+  );
+
+  const sessionWins = { ...game.sessionWins, [gameEndCheck.winner!]: game.sessionWins[gameEndCheck.winner!] + 1 };
+  const ended = changePhase({ ...game, gameLog: [...game.gameLog, logEntry], sessionWins }, 'game-end');
+
+  // With the game over there is nothing left to hide, so every role goes out for the summary
+  const roles = getAllRoles(ended.players);
+
+  return {
+    game: ended,
+    event: engineEvent(context, ended, 'game-ended', {
+      winner: gameEndCheck.winner,
+      reason: gameEndCheck.reason,
+      finalScores,
+      roles,
+      logEntry,
+    }),
+  };
+}
+
+// Pass leadership to the next player and return to team building (Requirements 7.6, 9.1)
+function rotateLeader(
+  game: GameState,
+  reason: 'vote-failed' | 'mission-complete',
+  context: ApplyContext
+): { game: GameState; event: GameEvent } {
+  const newLeader = getNextLeader(game.players, game.currentLeader);
+  const logEntry = engineLogEntry(
+    context,
+    'leadership-change',
+    `Leadership passed to ${game.players.find(p => p.id === newLeader)?.name}`,
+    { newLeader, reason }
+  );
+
+  const rotated = changePhase(
+    {
+      ...game,
+      currentLeader: newLeader,
+      players: game.players.map(p => ({ ...p, isLeader: p.id === newLeader })),
+      selectedTeam: [],
+      currentVotes: {},
+      gameLog: [...game.gameLog, logEntry],
+    },
+    'team-building'
+  );
+
+  return {
+    game: rotated,
+    event: engineEvent(context, rotated, 'leadership-changed', { newLeader, reason, logEntry }),
+  };
+}
+
+// Every phase change goes through validatePhaseTransition
+function changePhase(game: GameState, nextPhase: GamePhase): GameState {
+  const validation = validatePhaseTransition(game.phase, nextPhase, game);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+  return { ...game, phase: nextPhase, phaseDeadline: null }; // Each timed phase gets a fresh deadline
+}
+
+function requirePhase(game: GameState, phase: GamePhase, eventType: GameEventType): void {
+  if (game.phase !== phase) {
+    throw new Error(`${eventType} is not allowed during the ${game.phase} phase`);
+  }
+}
+
+// Lobby settings, the seating and the start belong to the host
+function requireHost(game: GameState, event: GameEvent, action: string): void {
+  if (!game.hostId || game.hostId !== event.playerId) {
+    throw new Error(`Only the host can ${action}`);
+  }
+}
+
+// The sender must be a player in the room (and the subject of the event, when it names one)
+function requireSender(game: GameState, event: GameEvent, subjectId?: string): Player {
+  const player = game.players.find(p => p.id === event.playerId);
+  if (!player) {
+    throw new Error(`Unknown player: ${event.playerId}`);
+  }
+  if (subjectId !== undefined && subjectId !== event.playerId) {
+    throw new Error('Players can only act on their own behalf');
+  }
+  return player;
+}
+
+// Spectators who may see every role, when the house rules allow it
+function getOmniscientSpectators(game: GameState): Spectator[] {
+  return game.settings.omniscientSpectators ? game.spectators : [];
+}
+
+function getAllRoles(players: Player[]): Record<string, PlayerRole> {
+  const roles: Record<string, PlayerRole> = {};
+  players.forEach(p => {
+    roles[p.id] = p.role;
+  });
+  return roles;
+}
+
+// Note a fallback the engine left undone, so whoever runs it can log it
+function addWarning(outcome: IntentOutcome, warning: string, error: unknown): IntentOutcome {
+  const reason = error instanceof Error ? error.message : String(error);
+  return { ...outcome, warnings: [...(outcome.warnings ?? []), `${warning}: ${reason}`] };
+}
+
+function engineEvent(context: ApplyContext, game: GameState, type: GameEventType, data: Record<string, any>): GameEvent {
+  return createGameEvent(type, game.roomCode, SERVER_PLAYER_ID, data, context.now);
+}
+
+function engineLogEntry(
+  context: ApplyContext,
+  type: LogEntry['type'],
+  message: string,
+  data?: Record<string, any>
+): LogEntry {
+  return createLogEntry(type, message, data, context.now, context.random);
+}
@@ -1,58 +1,211 @@
-import { Player, PlayerRole, ROLE_DISTRIBUTION, MISSION_REQUIREMENTS, LogEntry, GameEvent } from '../types/game';
+import {
+  Player,
+  PlayerRole,
+  DEFAULT_PHASE_TIMERS,
+  DEFAULT_ROOM_SETTINGS,
+  LogEntry,
+  Proposal,
+  GameEvent,
+  GameState,
+  GamePhase,
+  GameStatus,
+  RandomSource,
+  RoomSettings,
+  Team,
+  TimedPhase,
+  VisibilityRuleset,
+} from '../types/game';
+import { getRoleTeam, isSpyRole } from './specialRoles';
+import { getKnownRole } from './roleVisibility';
+
+// Create a fresh game state for a room (shared by the client reducer and the game engine)
+export function createInitialGameState(roomCode: string = ''): GameState {
+  return {
+    roomCode,
+    phase: 'lobby',
+    players: [],
+    hostId: null,
+    spectators: [],
+    bannedPlayerIds: [],
+    currentLeader: '',
+    currentMission: 1,
+    missionHistory: [],
+    proposals: {},
+    resistanceScore: 0,
+    spyScore: 0,
+    gameLog: [],
+    selectedTeam: [],
+    votingInProgress: false,
+    missionInProgress: false,
+    currentVotes: {},
+    missionSubmissions: [],
+    voteTrack: 0,
+    settings: DEFAULT_ROOM_SETTINGS,
+    sessionWins: { resistance: 0, spy: 0 },
+    phaseDeadline: null,
+    chatMessages: [],
+  };
+}
+
+// Set the room up for another game: same players, spectators, host, house rules and chat, with a fresh board.
+// Players who dropped off during the game lose their seat, as if they had left the lobby.
+// Roles are dealt again when the next game starts; bots stay ready for it.
+export function resetGameState(state: GameState, keepScores: boolean = true): GameState {
+  return {
+    ...createInitialGameState(state.roomCode),
+    players: state.players.filter(p => p.isBot || p.isConnected).map(p => ({
+      ...p,
+      role: 'resistance',
+      isReady: !!p.isBot,
+      isLeader: false,
+    })),
+    hostId: state.hostId,
+    spectators: state.spectators,
+    bannedPlayerIds: state.bannedPlayerIds,
+    settings: state.settings,
+    sessionWins: keepScores ? state.sessionWins : { resistance: 0, spy: 0 },
+    chatMessages: state.chatMessages,
+  };
+}
+
+// Whether a phase runs against the clock
+export function isTimedPhase(phase: GamePhase): phase is TimedPhase {
+  return phase in DEFAULT_PHASE_TIMERS;
+}
+
+// Map a game phase to the status stored on the Game record
+export function getGameStatus(phase: GamePhase): GameStatus {
+  switch (phase) {
+    case 'lobby':
+      return 'waiting';
+    case 'game-end':
+      return 'completed';
+    default:
+      return 'in_progress';
+  }
+}
 
 // Generate unique ID for players and log entries
-export function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+export function generateId(now: number = Date.now(), random: RandomSource = Math.random): string {
+  return now.toString(36) + random().toString(36).substr(2);
+}
+
+// A fresh seed for a room's random numbers (see createSeededRandom)
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// Random numbers that follow from a seed (mulberry32), so whoever holds the seed can replay them.
+// `seed()` is where the sequence has got to, to carry on from next time.
+export function createSeededRandom(seed: number): { random: RandomSource; seed: () => number } {
+  let state = seed >>> 0;
+  return {
+    random: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    seed: () => state,
+  };
 }
 
-// Assign roles randomly to players (Requirements 4.1-4.7)
-export function assignRoles(players: Player[]): Player[] {
+// Assign roles randomly to players (Requirements 4.1-4.7); special roles replace plain ones on their team
+export function assignRoles(
+  players: Player[],
+  settings: RoomSettings = DEFAULT_ROOM_SETTINGS,
+  random: RandomSource = Math.random
+): Player[] {
   const playerCount = players.length;
-  const distribution = ROLE_DISTRIBUTION[playerCount];
+  const distribution = settings.roleDistribution[playerCount];
   
   if (!distribution) {
     throw new Error(`Invalid player count: ${playerCount}`);
   }
   
   // Create array of roles
-  const roles: PlayerRole[] = [
-    ...Array(distribution.resistance).fill('resistance'),
-    ...Array(distribution.spy).fill('spy'),
-  ];
-  
-  // Shuffle roles randomly (Fisher-Yates shuffle)
-  for (let i = roles.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [roles[i], roles[j]] = [roles[j], roles[i]];
-  }
+  const teamRoles = (team: Team): PlayerRole[] => {
+    const special = settings.specialRoles.filter(role => getRoleTeam(role) === team);
+    if (special.length > distribution[team]) {
+      throw new Error(`Too many special ${team} roles for ${playerCount} players`);
+    }
+    return [...special, ...Array(distribution[team] - special.length).fill(team)];
+  };
+  const roles: PlayerRole[] = [...teamRoles('resistance'), ...teamRoles('spy')];
   
   // Assign shuffled roles to players
+  const shuffledRoles = shuffle(roles, random);
   return players.map((player, index) => ({
     ...player,
-    role: roles[index],
+    role: shuffledRoles[index],
   }));
 }
 
-// Get next leader in alphabetical order (Requirements 9.1)
+// Shuffle a copy of an array randomly (Fisher-Yates shuffle)
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Turn mission choices into a shuffled pile of cards so nobody can tell who played Fail
+export function shuffleMissionCards(choices: Record<string, boolean>, random: RandomSource = Math.random): boolean[] {
+  return shuffle(Object.values(choices), random);
+}
+
+// Pick a random team of the size the mission needs from the players still connected;
+// null when too few of them are left to fill it
+export function pickRandomTeam(
+  players: Player[],
+  missionNumber: number,
+  settings: RoomSettings = DEFAULT_ROOM_SETTINGS,
+  random: RandomSource = Math.random
+): string[] | null {
+  const teamSize = getMissionRequirements(players.length, missionNumber, settings);
+  const connected = players.filter(p => p.isConnected);
+  if (connected.length < teamSize) {
+    return null;
+  }
+  return shuffle(connected, random).slice(0, teamSize).map(p => p.id);
+}
+
+// Seat players in a random order around the table
+export function shuffleSeats(players: Player[], random: RandomSource = Math.random): Player[] {
+  return shuffle(players, random);
+}
+
+// Reorder players to match a seating plan of player ids
+export function arrangeSeats(players: Player[], seatOrder: string[]): Player[] {
+  return seatOrder
+    .map(playerId => players.find(p => p.id === playerId))
+    .filter((player): player is Player => !!player);
+}
+
+// The next connected player clockwise from a player's seat; a player without a seat hands over
+// to the first seat. Null when nobody is connected.
+export function getNextConnectedPlayer(players: Player[], playerId: string | null): string | null {
+  const currentSeat = players.findIndex(p => p.id === playerId);
+
+  for (let step = 1; step <= players.length; step++) {
+    const candidate = players[(currentSeat + step) % players.length];
+    if (candidate.isConnected) {
+      return candidate.id;
+    }
+  }
+  return null;
+}
+
+// Get next leader clockwise from the current one, skipping disconnected players (Requirements 9.1)
 export function getNextLeader(players: Player[], currentLeader: string): string {
-  const connectedPlayers = players
-    .filter(p => p.isConnected)
-    .sort((a, b) => a.name.localeCompare(b.name));
-  
-  if (connectedPlayers.length === 0) {
+  const nextLeader = getNextConnectedPlayer(players, currentLeader);
+  if (!nextLeader) {
     throw new Error('No connected players available for leadership');
   }
-  
-  const currentIndex = connectedPlayers.findIndex(p => p.id === currentLeader);
-  
-  if (currentIndex === -1) {
-    // Current leader not found, return first player alphabetically
-    return connectedPlayers[0].id;
-  }
-  
-  // Return next player in alphabetical order, wrapping around if necessary
-  const nextIndex = (currentIndex + 1) % connectedPlayers.length;
-  return connectedPlayers[nextIndex].id;
+  return nextLeader;
 }
 
 // Calculate voting result (Requirements 7.4, 7.5)
@@ -72,28 +225,64 @@ export function calculateVotingResult(votes: Record<string, boolean>): {
   };
 }
 
+// Every proposal made so far, in the order they were voted on
+export function getProposalHistory(proposals: Record<number, Proposal[]>): Proposal[] {
+  return Object.keys(proposals)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap(missionNumber => proposals[missionNumber]);
+}
+
+// Order proposals around one player: the teams they proposed, then the teams they were on,
+// then the teams they approved, then the ones they rejected. Play order breaks ties.
+export function sortProposalsByPlayer(proposals: Proposal[], playerId: string): Proposal[] {
+  const rank = (proposal: Proposal) => {
+    if (proposal.leader === playerId) return 0;
+    if (proposal.team.includes(playerId)) return 1;
+    if (proposal.votes[playerId] === true) return 2;
+    if (proposal.votes[playerId] === false) return 3;
+    return 4;
+  };
+
+  return [...proposals].sort((a, b) => rank(a) - rank(b));
+}
+
 // Calculate mission result (Requirements 8.5, 8.6)
-export function calculateMissionResult(choices: Record<string, boolean>): {
+export function calculateMissionResult(
+  choices: Record<string, boolean>,
+  playerCount: number,
+  missionNumber: number,
+  settings: RoomSettings = DEFAULT_ROOM_SETTINGS
+): {
   success: boolean;
   successChoices: number;
   failChoices: number;
+  requiredFails: number;
 } {
   const choiceValues = Object.values(choices);
   const successChoices = choiceValues.filter(choice => choice === true).length;
   const failChoices = choiceValues.filter(choice => choice === false).length;
+  const requiredFails = getMissionFailThreshold(playerCount, missionNumber, settings);
   
   return {
-    success: failChoices === 0, // All must choose success for mission to succeed
+    success: failChoices < requiredFails, // Mission fails once enough fail cards are played
     successChoices,
     failChoices,
+    requiredFails,
   };
 }
 
 // Check if game should end (Requirements 11.1, 11.2, 9.4)
-export function checkGameEnd(resistanceScore: number, spyScore: number, currentMission: number): {
+export function checkGameEnd(
+  resistanceScore: number,
+  spyScore: number,
+  currentMission: number,
+  voteTrack: number = 0,
+  settings: RoomSettings = DEFAULT_ROOM_SETTINGS
+): {
   gameEnded: boolean;
   winner?: 'resistance' | 'spy';
-  reason?: 'score' | 'mission-limit';
+  reason?: 'score' | 'mission-limit' | 'vote-track' | 'assassination';
 } {
   // Check score-based victory conditions (Requirements 11.1, 11.2)
   if (resistanceScore >= 3) {
@@ -104,6 +293,11 @@ export function checkGameEnd(resistanceScore: number, spyScore: number, currentM
     return { gameEnded: true, winner: 'spy', reason: 'score' };
   }
   
+  // Too many rejected proposals in a row for a single mission hand the game to the spies
+  if (voteTrack >= settings.maxVoteTrack) {
+    return { gameEnded: true, winner: 'spy', reason: 'vote-track' };
+  }
+  
   // Check mission limit (Requirement 9.4)
   if (currentMission > 5) {
     // If we've completed 5 missions without a winner, determine by score
@@ -112,52 +306,58 @@ export function checkGameEnd(resistanceScore: number, spyScore: number, currentM
     } else if (spyScore > resistanceScore) {
       return { gameEnded: true, winner: 'spy', reason: 'mission-limit' };
     } else {
-      // Tie - spies win in case of tie after 5 missions
-      return { gameEnded: true, winner: 'spy', reason: 'mission-limit' };
+      // Tie after 5 missions - the house rules decide
+      return { gameEnded: true, winner: settings.tieWinner, reason: 'mission-limit' };
     }
   }
   
   return { gameEnded: false };
 }
 
-// Create log entry
+// Create log entry; the game engine passes its own clock and random numbers
 export function createLogEntry(
   type: LogEntry['type'],
   message: string,
-  data?: Record<string, any>
+  data?: Record<string, any>,
+  now: number = Date.now(),
+  random: RandomSource = Math.random
 ): LogEntry {
   return {
-    id: generateId(),
-    timestamp: Date.now(),
+    id: generateId(now, random),
+    timestamp: now,
     type,
     message,
     data,
   };
 }
 
-// Filter visible roles for player (Requirements 5.4, 5.5)
+// Filter visible roles for player (Requirements 5.4, 5.5); what each role knows is set out in roleVisibility
 export function getVisibleRoles(
   currentPlayer: Player,
-  allPlayers: Player[]
+  allPlayers: Player[],
+  ruleset: VisibilityRuleset = 'standard'
 ): Record<string, PlayerRole | null> {
   const visibleRoles: Record<string, PlayerRole | null> = {};
   
   for (const player of allPlayers) {
-    if (currentPlayer.role === 'spy') {
-      // Spies can see all roles
-      visibleRoles[player.id] = player.role;
-    } else {
-      // Resistance members can only see their own role
-      visibleRoles[player.id] = player.id === currentPlayer.id ? player.role : null;
-    }
+    visibleRoles[player.id] = getKnownRole(currentPlayer, player, ruleset);
   }
   
   return visibleRoles;
 }
 
+// Copy of the game state that is safe to share with anyone in the room: every role is hidden.
+// Roles a player may see are delivered to them separately (see getVisibleRoles).
+export function redactGameState(state: GameState): GameState {
+  return {
+    ...state,
+    players: state.players.map(p => ({ ...p, role: 'resistance' })),
+  };
+}
+
 // Check if player can make mission choice (Requirements 8.2, 8.3)
 export function canPlayerChooseFail(player: Player): boolean {
-  return player.role === 'spy';
+  return isSpyRole(player.role);
 }
 
 // Generate room code (Requirements 1.1)
@@ -175,13 +375,14 @@ export function createGameEvent(
   type: GameEvent['type'],
   roomCode: string,
   playerId: string,
-  data: Record<string, any> = {}
+  data: Record<string, any> = {},
+  timestamp: number = Date.now()
 ): GameEvent {
   return {
     type,
     roomCode,
     playerId,
-    timestamp: Date.now(),
+    timestamp,
     data,
   };
 }
@@ -192,8 +393,12 @@ export function sortPlayersAlphabetically(players: Player[]): Player[] {
 }
 
 // Get mission requirements for current mission (Requirements 9.2, 9.4)
-export function getMissionRequirements(playerCount: number, missionNumber: number): number {
-  const requirements = MISSION_REQUIREMENTS[playerCount];
+export function getMissionRequirements(
+  playerCount: number,
+  missionNumber: number,
+  settings: RoomSettings = DEFAULT_ROOM_SETTINGS
+): number {
+  const requirements = settings.missionRequirements[playerCount];
   
   if (!requirements) {
     throw new Error(`Invalid player count: ${playerCount}`);
@@ -206,6 +411,25 @@ export function getMissionRequirements(playerCount: number, missionNumber: numbe
   return requirements[missionNumber - 1]; // Convert to 0-based index
 }
 
+// Get number of fail cards needed to sabotage a mission
+export function getMissionFailThreshold(
+  playerCount: number,
+  missionNumber: number,
+  settings: RoomSettings = DEFAULT_ROOM_SETTINGS
+): number {
+  const thresholds = settings.missionFailThresholds[playerCount];
+  
+  if (!thresholds) {
+    throw new Error(`Invalid player count: ${playerCount}`);
+  }
+  
+  if (missionNumber < 1 || missionNumber > 5) {
+    throw new Error(`Invalid mission number: ${missionNumber}. Must be between 1 and 5.`);
+  }
+  
+  return thresholds[missionNumber - 1];
+}
+
 // Check if mission progression is valid (Requirements 9.2, 9.3, 9.4)
 export function validateMissionProgression(
   currentMission: number,
@@ -0,0 +1,85 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import { GameStatus, Player } from '../types/game';
+
+// Game and Player records in the Amplify data models, so a room outlives the browsers in it.
+// A Game's id is its room code and a Player's id is the in-game player id.
+
+let client: ReturnType<typeof generateClient<Schema>> | null = null;
+
+// Create the data client on first use, once Amplify has been configured
+function getClient() {
+  if (!client) {
+    client = generateClient<Schema>();
+  }
+  return client;
+}
+
+// Surface the first GraphQL error as a regular Error
+function throwOnErrors(errors: { message: string }[] | undefined, action: string): void {
+  if (errors && errors.length > 0) {
+    throw new Error(`Failed to ${action}: ${errors[0].message}`);
+  }
+}
+
+export interface GameRecord {
+  roomCode: string;
+  status: GameStatus;
+}
+
+// Create the Game record for a new room
+export async function createGameRecord(roomCode: string): Promise<void> {
+  const { errors } = await getClient().models.Game.create({
+    id: roomCode,
+    name: roomCode,
+    status: 'waiting',
+  });
+  throwOnErrors(errors, `create room ${roomCode}`);
+}
+
+// Look up a room's Game record; null if the room was never created
+export async function fetchGameRecord(roomCode: string): Promise<GameRecord | null> {
+  const { data, errors } = await getClient().models.Game.get({ id: roomCode });
+  throwOnErrors(errors, `load room ${roomCode}`);
+
+  if (!data) {
+    return null;
+  }
+  return { roomCode, status: data.status ?? 'waiting' };
+}
+
+// Record a room's progress (waiting -> in_progress -> completed)
+export async function updateGameStatus(roomCode: string, status: GameStatus): Promise<void> {
+  const { errors } = await getClient().models.Game.update({ id: roomCode, status });
+  throwOnErrors(errors, `update room ${roomCode}`);
+}
+
+// Create the Player record for someone joining a room
+export async function createPlayerRecord(roomCode: string, player: Player): Promise<void> {
+  const { errors } = await getClient().models.Player.create({
+    id: player.id,
+    username: player.name,
+    gameId: roomCode,
+    isLeader: player.isLeader,
+  });
+  throwOnErrors(errors, `add ${player.name} to room ${roomCode}`);
+}
+
+// Load the players recorded for a room. Roles are never persisted, so everyone starts as resistance.
+export async function fetchRoomPlayers(roomCode: string): Promise<Player[]> {
+  const { data, errors } = await getClient().models.Player.list({
+    filter: { gameId: { eq: roomCode } },
+  });
+  throwOnErrors(errors, `load players for room ${roomCode}`);
+
+  return data
+    .filter(record => record.id)
+    .map(record => ({
+      id: record.id as string,
+      name: record.username,
+      role: 'resistance',
+      isReady: false,
+      isConnected: true,
+      isLeader: record.isLeader ?? false,
+    }));
+}
@@ -1,4 +1,18 @@
-import { GameState, GamePhase, Player, MISSION_REQUIREMENTS, ROLE_DISTRIBUTION } from '../types/game';
+import {
+  GameState,
+  GamePhase,
+  GameStatus,
+  Player,
+  RoomSettings,
+  TimedPhase,
+  DEFAULT_PHASE_TIMERS,
+  DEFAULT_ROOM_SETTINGS,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MISSION_REQUIREMENTS,
+  ROLE_DISTRIBUTION,
+} from '../types/game';
+import { SPECIAL_ROLES, getRoleTeam, isSpecialRole } from './specialRoles';
+import { isVisibilityRuleset } from './roleVisibility';
 
 // Validation result type
 export interface ValidationResult {
@@ -9,6 +23,15 @@ export interface ValidationResult {
 // Validate if game can start (Requirements 3.1)
 export function validateGameStart(players: Player[]): ValidationResult {
   const readyPlayers = players.filter(p => p.isReady && p.isConnected);
+
+  // Everyone seated is dealt a role, so nobody may be missing
+  const disconnected = players.find(p => !p.isConnected);
+  if (disconnected) {
+    return {
+      isValid: false,
+      error: `${disconnected.name} is not connected`,
+    };
+  }
   
   if (readyPlayers.length < 5) {
     return {
@@ -37,9 +60,10 @@ export function validatePhaseTransition(
     'lobby': ['role-assignment'],
     'role-assignment': ['team-building'],
     'team-building': ['voting'],
-    'voting': ['team-building', 'mission'], // Can go back to team-building if vote fails
+    'voting': ['team-building', 'mission', 'game-end'], // Can go back to team-building if vote fails, or end on the vote track
     'mission': ['mission-result'],
-    'mission-result': ['team-building', 'game-end'], // Next mission or game end
+    'mission-result': ['team-building', 'game-end', 'assassination'], // Next mission, game end, or the Assassin's last chance
+    'assassination': ['game-end'],
     'game-end': ['lobby'], // Can restart
   };
 
@@ -52,8 +76,12 @@ export function validatePhaseTransition(
 
   // Additional validation based on specific transitions
   switch (nextPhase) {
-    case 'role-assignment':
-      return validateGameStart(gameState.players);
+    case 'role-assignment': {
+      const startValidation = validateGameStart(gameState.players);
+      return startValidation.isValid
+        ? validateRoomSettings(gameState.settings, gameState.players.length)
+        : startValidation;
+    }
     
     case 'voting':
       return validateTeamSelection(gameState);
@@ -71,17 +99,17 @@ export function validatePhaseTransition(
 
 // Validate team selection for mission (Requirements 6.4, 6.5)
 export function validateTeamSelection(gameState: GameState): ValidationResult {
-  const { players, selectedTeam, currentMission } = gameState;
+  const { players, selectedTeam, currentMission, settings } = gameState;
   const playerCount = players.length;
   
-  if (!MISSION_REQUIREMENTS[playerCount]) {
+  if (!settings.missionRequirements[playerCount]) {
     return {
       isValid: false,
       error: `Invalid player count: ${playerCount}`,
     };
   }
   
-  const requiredPlayers = MISSION_REQUIREMENTS[playerCount][currentMission - 1];
+  const requiredPlayers = settings.missionRequirements[playerCount][currentMission - 1];
   
   if (selectedTeam.length !== requiredPlayers) {
     return {
@@ -129,32 +157,39 @@ export function validateVotingComplete(gameState: GameState): ValidationResult {
 
 // Validate game end conditions (Requirements 11.1, 11.2)
 export function validateGameEnd(gameState: GameState): ValidationResult {
-  const { resistanceScore, spyScore } = gameState;
+  const { resistanceScore, spyScore, voteTrack, settings } = gameState;
   
   if (resistanceScore >= 3 || spyScore >= 3) {
     return { isValid: true };
   }
   
+  if (voteTrack >= settings.maxVoteTrack) {
+    return { isValid: true };
+  }
+  
   return {
     isValid: false,
-    error: 'Game cannot end until one team reaches 3 points',
+    error: `Game cannot end until one team reaches 3 points or ${settings.maxVoteTrack} teams are rejected in a row`,
   };
 }
 
 // Validate role assignment (Requirements 4.1-4.6)
-export function validateRoleAssignment(players: Player[]): ValidationResult {
+export function validateRoleAssignment(
+  players: Player[],
+  settings: RoomSettings = DEFAULT_ROOM_SETTINGS
+): ValidationResult {
   const playerCount = players.length;
   
-  if (!ROLE_DISTRIBUTION[playerCount]) {
+  if (!settings.roleDistribution[playerCount]) {
     return {
       isValid: false,
       error: `Invalid player count for role assignment: ${playerCount}`,
     };
   }
   
-  const expectedDistribution = ROLE_DISTRIBUTION[playerCount];
-  const actualResistance = players.filter(p => p.role === 'resistance').length;
-  const actualSpies = players.filter(p => p.role === 'spy').length;
+  const expectedDistribution = settings.roleDistribution[playerCount];
+  const actualResistance = players.filter(p => getRoleTeam(p.role) === 'resistance').length;
+  const actualSpies = players.filter(p => getRoleTeam(p.role) === 'spy').length;
   
   if (actualResistance !== expectedDistribution.resistance) {
     return {
@@ -173,8 +208,183 @@ export function validateRoleAssignment(players: Player[]): ValidationResult {
   return { isValid: true };
 }
 
+// Validate a set of special roles; with a player count, also check they fit the teams it deals
+export function validateSpecialRoles(
+  specialRoles: unknown,
+  playerCount?: number,
+  roleDistribution: RoomSettings['roleDistribution'] = ROLE_DISTRIBUTION
+): ValidationResult {
+  if (!Array.isArray(specialRoles) || !specialRoles.every(isSpecialRole)) {
+    return {
+      isValid: false,
+      error: 'Unknown special role',
+    };
+  }
+  
+  if (new Set(specialRoles).size !== specialRoles.length) {
+    return {
+      isValid: false,
+      error: 'Each special role can only be used once',
+    };
+  }
+  
+  for (const role of specialRoles) {
+    const missing = SPECIAL_ROLES[role].requires.find(required => !specialRoles.includes(required));
+    if (missing) {
+      return {
+        isValid: false,
+        error: `${SPECIAL_ROLES[role].name} requires ${SPECIAL_ROLES[missing].name}`,
+      };
+    }
+  }
+  
+  const distribution = playerCount !== undefined ? roleDistribution[playerCount] : undefined;
+  if (distribution) {
+    const specialSpies = specialRoles.filter(role => SPECIAL_ROLES[role].team === 'spy').length;
+    const specialResistance = specialRoles.length - specialSpies;
+    
+    if (specialSpies > distribution.spy) {
+      return {
+        isValid: false,
+        error: `${playerCount} players only have ${distribution.spy} spies, but ${specialSpies} special spy roles are enabled`,
+      };
+    }
+    if (specialResistance > distribution.resistance) {
+      return {
+        isValid: false,
+        error: `${playerCount} players only have ${distribution.resistance} resistance members, but ${specialResistance} special resistance roles are enabled`,
+      };
+    }
+  }
+  
+  return { isValid: true };
+}
+
+// Player counts the house rules cover
+const PLAYER_COUNTS = Object.keys(MISSION_REQUIREMENTS).map(Number);
+const MISSIONS_PER_GAME = 5;
+const MIN_PHASE_TIMER_MS = 10_000;
+const MAX_PHASE_TIMER_MS = 600_000;
+const MAX_SPECTATOR_DELAY_MS = 600_000;
+
+function isMissionList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length === MISSIONS_PER_GAME && value.every(Number.isInteger);
+}
+
+// Validate house rules sent by the host; with a player count, also check the special roles fit
+export function validateRoomSettings(settings: unknown, playerCount?: number): ValidationResult {
+  if (typeof settings !== 'object' || settings === null) {
+    return {
+      isValid: false,
+      error: 'Room settings are missing',
+    };
+  }
+  const rules = settings as Partial<RoomSettings>;
+  
+  for (const count of PLAYER_COUNTS) {
+    const teamSizes = rules.missionRequirements?.[count];
+    if (!isMissionList(teamSizes) || teamSizes.some(size => size < 1 || size > count)) {
+      return {
+        isValid: false,
+        error: `Team sizes for ${count} players must be ${MISSIONS_PER_GAME} numbers between 1 and ${count}`,
+      };
+    }
+    
+    const failThresholds = rules.missionFailThresholds?.[count];
+    if (!isMissionList(failThresholds) || failThresholds.some((fails, index) => fails < 1 || fails > teamSizes[index])) {
+      return {
+        isValid: false,
+        error: `Fail cards needed for ${count} players must be between 1 and the team size`,
+      };
+    }
+    
+    const distribution = rules.roleDistribution?.[count];
+    if (
+      !distribution ||
+      !Number.isInteger(distribution.spy) ||
+      !Number.isInteger(distribution.resistance) ||
+      distribution.spy < 1 ||
+      distribution.resistance < 1 ||
+      distribution.spy + distribution.resistance !== count
+    ) {
+      return {
+        isValid: false,
+        error: `Teams for ${count} players need at least one spy and one resistance member, adding up to ${count}`,
+      };
+    }
+  }
+  
+  if (!Number.isInteger(rules.maxVoteTrack) || rules.maxVoteTrack! < 1 || rules.maxVoteTrack! > 10) {
+    return {
+      isValid: false,
+      error: 'The vote track must allow between 1 and 10 rejected teams',
+    };
+  }
+  
+  if (rules.tieWinner !== 'resistance' && rules.tieWinner !== 'spy') {
+    return {
+      isValid: false,
+      error: 'A tie must go to the resistance or the spies',
+    };
+  }
+  
+  if (typeof rules.leaderAutoVotesYes !== 'boolean') {
+    return {
+      isValid: false,
+      error: 'Leader auto-vote must be on or off',
+    };
+  }
+  
+  if (typeof rules.muteChatDuringMission !== 'boolean' || typeof rules.spyChat !== 'boolean') {
+    return {
+      isValid: false,
+      error: 'Chat rules must be on or off',
+    };
+  }
+  
+  if (
+    typeof rules.omniscientSpectators !== 'boolean' ||
+    !Number.isInteger(rules.spectatorDelayMs) ||
+    rules.spectatorDelayMs! < 0 ||
+    rules.spectatorDelayMs! > MAX_SPECTATOR_DELAY_MS
+  ) {
+    return {
+      isValid: false,
+      error: 'The spectator delay must be between 0 and 10 minutes',
+    };
+  }
+  
+  if (rules.seating !== 'random' && rules.seating !== 'host-arranged') {
+    return {
+      isValid: false,
+      error: 'Unknown seating arrangement',
+    };
+  }
+  
+  const phaseTimers = rules.phaseTimers;
+  const timerValid = (phase: TimedPhase) => {
+    const duration = phaseTimers?.[phase];
+    return Number.isInteger(duration) && duration! >= MIN_PHASE_TIMER_MS && duration! <= MAX_PHASE_TIMER_MS;
+  };
+  if (!(Object.keys(DEFAULT_PHASE_TIMERS) as TimedPhase[]).every(timerValid)) {
+    return {
+      isValid: false,
+      error: 'Phase timers must be between 10 seconds and 10 minutes',
+    };
+  }
+  
+  if (!isVisibilityRuleset(rules.visibilityRuleset)) {
+    return {
+      isValid: false,
+      error: 'Unknown visibility ruleset',
+    };
+  }
+  
+  return validateSpecialRoles(rules.specialRoles, playerCount, rules.roleDistribution);
+}
+
 // Validate player name
-export function validatePlayerName(name: string, existingPlayers: Player[]): ValidationResult {
+export function validatePlayerName(name: string, existingPlayers: Pick<Player, 'name'>[]): ValidationResult {
   if (!name || name.trim().length === 0) {
     return {
       isValid: false,
@@ -225,6 +435,37 @@ export function validateRoomCode(roomCode: string): ValidationResult {
   return { isValid: true };
 }
 
+// Validate that a stored room is still open to join (Requirements 1.2). Whether it has a
+// free seat is checked against the game engine's roster once in the room, since that is
+// the only roster that counts bots and refused joins correctly.
+export function validateRoomJoinable(
+  roomCode: string,
+  status: GameStatus | null
+): ValidationResult {
+  if (status === null) {
+    return {
+      isValid: false,
+      error: `Room ${roomCode} does not exist`,
+    };
+  }
+  
+  if (status === 'completed') {
+    return {
+      isValid: false,
+      error: `The game in room ${roomCode} has already ended`,
+    };
+  }
+  
+  if (status === 'in_progress') {
+    return {
+      isValid: false,
+      error: `The game in room ${roomCode} has already started`,
+    };
+  }
+  
+  return { isValid: true };
+}
+
 // Validate mission voting (Requirements 7.4, 7.5)
 export function validateMissionVoting(
   votes: Record<string, boolean>, 
@@ -251,4 +492,47 @@ export function validateMissionVoting(
   }
   
   return { isValid: true };
-}
\ No newline at end of file
+}
+
+// Validate a seating plan from the host: every player in the room, each in exactly one seat
+export function validateSeatOrder(players: Player[], seatOrder: unknown): ValidationResult {
+  if (
+    !Array.isArray(seatOrder) ||
+    seatOrder.length !== players.length ||
+    new Set(seatOrder).size !== seatOrder.length ||
+    !players.every(p => seatOrder.includes(p.id))
+  ) {
+    return {
+      isValid: false,
+      error: 'Every player must have exactly one seat',
+    };
+  }
+  
+  return { isValid: true };
+}
+
+// Validate a chat message before it is sent
+export function validateChatMessage(text: unknown, channel: unknown): ValidationResult {
+  if (channel !== 'room' && channel !== 'spies') {
+    return {
+      isValid: false,
+      error: 'Unknown chat channel',
+    };
+  }
+  
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    return {
+      isValid: false,
+      error: 'Chat message cannot be empty',
+    };
+  }
+  
+  if (text.trim().length > MAX_CHAT_MESSAGE_LENGTH) {
+    return {
+      isValid: false,
+      error: `Chat message cannot exceed ${MAX_CHAT_MESSAGE_LENGTH} characters`,
+    };
+  }
+  
+  return { isValid: true };
+}
@@ -0,0 +1,91 @@
+import { PlayerSession } from '../types/game';
+import { isValidSessionKey } from './sessionCrypto';
+
+// The player session for the room this browser last joined, kept in localStorage so a
+// refreshed tab can rejoin under the same player id. The game engine holds the matching
+// session key, which is what lets it accept the rejoin. The host seat reserved for a room
+// this browser created but has not sat down in yet, and rooms the host kicked this browser
+// out of, are remembered alongside it.
+
+const STORAGE_KEY = 'resistance-game:session';
+const HOST_KEY = 'resistance-game:host';
+const BANS_KEY = 'resistance-game:bans';
+
+export interface StoredPlayerSession extends PlayerSession {
+  roomCode: string;
+}
+
+// Remember the session a player joined a room with
+export function savePlayerSession(roomCode: string, session: PlayerSession): void {
+  const stored: StoredPlayerSession = { roomCode, ...session };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+// Load the remembered session; null if there is none or it is unreadable
+export function loadPlayerSession(): StoredPlayerSession | null {
+  return loadSession(STORAGE_KEY);
+}
+
+// Forget the session once the player leaves or it can no longer be resumed
+export function clearPlayerSession(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+// Remember the host seat reserved for a room this browser created, until it is taken
+export function saveHostSession(roomCode: string, session: PlayerSession): void {
+  const stored: StoredPlayerSession = { roomCode, ...session };
+  localStorage.setItem(HOST_KEY, JSON.stringify(stored));
+}
+
+// Load the reserved host seat; null if there is none or it is unreadable
+export function loadHostSession(): StoredPlayerSession | null {
+  return loadSession(HOST_KEY);
+}
+
+// Forget the reserved host seat once it is taken or the room is left behind
+export function clearHostSession(): void {
+  localStorage.removeItem(HOST_KEY);
+}
+
+function loadSession(storageKey: string): StoredPlayerSession | null {
+  const raw = localStorage.getItem(storageKey);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const stored = JSON.parse(raw);
+    if (
+      typeof stored?.roomCode === 'string' &&
+      typeof stored.playerId === 'string' &&
+      isValidSessionKey(stored.sessionKey)
+    ) {
+      return { roomCode: stored.roomCode, playerId: stored.playerId, sessionKey: stored.sessionKey };
+    }
+  } catch {
+    // Fall through and treat it as missing
+  }
+  return null;
+}
+
+// Remember that the host kicked this browser out of a room, so it does not try to join again
+export function recordRoomBan(roomCode: string): void {
+  const bans = loadRoomBans();
+  if (!bans.includes(roomCode)) {
+    localStorage.setItem(BANS_KEY, JSON.stringify([...bans, roomCode]));
+  }
+}
+
+// Whether this browser was kicked out of a room
+export function isBannedFromRoom(roomCode: string): boolean {
+  return loadRoomBans().includes(roomCode);
+}
+
+function loadRoomBans(): string[] {
+  try {
+    const bans = JSON.parse(localStorage.getItem(BANS_KEY) ?? '[]');
+    return Array.isArray(bans) ? bans.filter(ban => typeof ban === 'string') : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,100 @@
+import { Player, PlayerRole, SpecialRole, VisibilityMatrix, VisibilityRuleset } from '../types/game';
+import { SPECIAL_ROLE_ORDER, getRoleTeam, isSpecialRole } from './specialRoles';
+
+// Who learns whose role when roles are dealt. Every consumer (the engine sealing roles,
+// the game board and the role card) reads the same matrix, so the rules cannot drift apart.
+
+export interface VisibilityRulesetInfo {
+  name: string;
+  description: string;
+  matrix: VisibilityMatrix;
+}
+
+const ALL_ROLES: PlayerRole[] = ['resistance', 'spy', ...SPECIAL_ROLE_ORDER];
+const SPY_ROLES = ALL_ROLES.filter(role => getRoleTeam(role) === 'spy');
+
+// Show every role in `roles` as `shown`
+function showAs(roles: PlayerRole[], shown: PlayerRole): Partial<Record<PlayerRole, PlayerRole>> {
+  return Object.fromEntries(roles.map(role => [role, shown]));
+}
+
+// Spies are shown their fellow spies and nobody else; Oberon stays hidden from them (Requirements 5.4)
+const SPIES_KNOW_EACH_OTHER = showAs(SPY_ROLES.filter(role => role !== 'oberon'), 'spy');
+
+// Merlin sees the spies, except Mordred; Percival sees Merlin and Morgana alike
+const MERLIN_SEES = showAs(SPY_ROLES.filter(role => role !== 'mordred'), 'spy');
+const PERCIVAL_SEES = showAs(['merlin', 'morgana'], 'merlin');
+
+export const VISIBILITY_RULESETS: Record<VisibilityRuleset, VisibilityRulesetInfo> = {
+  standard: {
+    name: 'Standard',
+    description: 'Spies know each other (except Oberon). Resistance members only know their own role.',
+    matrix: {
+      resistance: {},
+      merlin: MERLIN_SEES,
+      percival: PERCIVAL_SEES,
+      spy: SPIES_KNOW_EACH_OTHER,
+      assassin: SPIES_KNOW_EACH_OTHER,
+      morgana: SPIES_KNOW_EACH_OTHER,
+      mordred: SPIES_KNOW_EACH_OTHER,
+      oberon: {},
+    },
+  },
+  'blind-spies': {
+    name: 'Blind spies',
+    description: 'Spies do not know who the other spies are. Merlin and Percival still learn what they normally would.',
+    matrix: {
+      resistance: {},
+      merlin: MERLIN_SEES,
+      percival: PERCIVAL_SEES,
+      spy: {},
+      assassin: {},
+      morgana: {},
+      mordred: {},
+      oberon: {},
+    },
+  },
+};
+
+export const VISIBILITY_RULESET_ORDER: VisibilityRuleset[] = ['standard', 'blind-spies'];
+
+export function isVisibilityRuleset(value: unknown): value is VisibilityRuleset {
+  return typeof value === 'string' && value in VISIBILITY_RULESETS;
+}
+
+// What `viewer` learns about `target` when roles are dealt; null means nothing.
+// Spies are only told who the other spies are, never each other's special roles.
+export function getKnownRole(
+  viewer: Player,
+  target: Player,
+  ruleset: VisibilityRuleset = 'standard'
+): PlayerRole | null {
+  if (viewer.id === target.id) {
+    return viewer.role;
+  }
+  return VISIBILITY_RULESETS[ruleset].matrix[viewer.role][target.role] ?? null;
+}
+
+// Roles a viewer could be looking at when they are shown `shown`, limited to the roles in play.
+// An empty list means the viewer is never shown that role, so it must be a redacted default.
+export function getPossibleRoles(
+  viewerRole: PlayerRole,
+  shown: PlayerRole,
+  ruleset: VisibilityRuleset,
+  specialRoles: SpecialRole[]
+): PlayerRole[] {
+  const seen = VISIBILITY_RULESETS[ruleset].matrix[viewerRole];
+  return ALL_ROLES.filter(role =>
+    seen[role] === shown && (!isSpecialRole(role) || specialRoles.includes(role))
+  );
+}
+
+// Whether a role shown to the viewer is something they were told, rather than a redacted default
+export function isRoleKnown(
+  viewerRole: PlayerRole,
+  shown: PlayerRole,
+  ruleset: VisibilityRuleset,
+  specialRoles: SpecialRole[]
+): boolean {
+  return getPossibleRoles(viewerRole, shown, ruleset, specialRoles).length > 0;
+}
@@ -0,0 +1,139 @@
+// Per-player encryption for data that travels over the shared room channel.
+// Each player generates a session key when joining; the game engine keeps it server-side
+// and seals anything meant for that player alone (such as visible roles) with it.
+// The same key signs everything the player publishes, so nobody can act in their name.
+
+import { GameEvent } from '../types/game';
+
+// Ciphertext sealed for a single player (base64-encoded AES-GCM output)
+export interface SealedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+const KEY_BYTES = 32; // AES-256
+const IV_BYTES = 12; // Recommended nonce size for AES-GCM
+const SIGNING_KEY_INFO = 'game-event-signature'; // Separates the signing key from the sealing key
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function importSessionKey(sessionKey: string): Promise<CryptoKey> {
+  const raw = fromBase64(sessionKey);
+  if (raw.length !== KEY_BYTES) {
+    throw new Error('Invalid session key');
+  }
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+// Derive the HMAC key events are signed with, rather than reusing the AES key for a second purpose
+async function importSigningKey(sessionKey: string): Promise<CryptoKey> {
+  const raw = fromBase64(sessionKey);
+  if (raw.length !== KEY_BYTES) {
+    throw new Error('Invalid session key');
+  }
+  const baseKey = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(SIGNING_KEY_INFO) },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// JSON with object keys sorted, so the signer and the engine serialize an event the same way
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function signedContent(event: GameEvent): Uint8Array<ArrayBuffer> {
+  const { type, roomCode, playerId, timestamp, data } = event;
+  return new TextEncoder().encode(canonicalJson({ type, roomCode, playerId, timestamp, data }));
+}
+
+// Generate a new random session key (base64)
+export function generateSessionKey(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+}
+
+// Check that a value looks like a key produced by generateSessionKey
+export function isValidSessionKey(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    return fromBase64(value).length === KEY_BYTES;
+  } catch {
+    return false;
+  }
+}
+
+// Encrypt a JSON-serializable value so only the holder of the session key can read it
+export async function sealPayload(sessionKey: string, payload: unknown): Promise<SealedPayload> {
+  const key = await importSessionKey(sessionKey);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return {
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+// Decrypt a payload sealed with sealPayload; fails if it was sealed with another key or tampered with
+export async function openPayload<T = unknown>(sessionKey: string, sealed: SealedPayload): Promise<T> {
+  const key = await importSessionKey(sessionKey);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.ciphertext)
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+// Sign an event with the sender's session key; the engine rejects intents that are not signed
+export async function signEvent(sessionKey: string, event: GameEvent): Promise<GameEvent> {
+  const key = await importSigningKey(sessionKey);
+  const signature = await crypto.subtle.sign('HMAC', key, signedContent(event));
+  return { ...event, signature: toBase64(new Uint8Array(signature)) };
+}
+
+// Check that an event was signed with the session key and has not been changed since
+export async function verifyEventSignature(sessionKey: string, event: GameEvent): Promise<boolean> {
+  if (typeof event.signature !== 'string') {
+    return false;
+  }
+  try {
+    const key = await importSigningKey(sessionKey);
+    return await crypto.subtle.verify('HMAC', key, fromBase64(event.signature), signedContent(event));
+  } catch {
+    return false;
+  }
+}
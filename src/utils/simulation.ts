@@ -0,0 +1,177 @@
+import {
+  BotStrategyName,
+  DEFAULT_ROOM_SETTINGS,
+  GameEventType,
+  GameState,
+  PlayerRole,
+  RoomSettings,
+  Team,
+} from '../types/game';
+import { checkGameEnd, createGameEvent, generateSeed, getVisibleRoles } from './gameLogic';
+import { generateSessionKey } from './sessionCrypto';
+import { isSpyRole } from './specialRoles';
+import { BotStrategy, createBotView, getBotStrategy, planBotAction } from './bots';
+import { RoomState, applyEvent, createRoomState } from './gameEngine';
+
+// Headless games: every seat is played by an agent, and every move goes through applyEvent
+// exactly as a person's would, without a store, a channel or a browser. Used to tune house rules.
+
+// Picks the strategy that plays a seat, once the seat's role is dealt
+export type AgentPolicy = (role: PlayerRole) => BotStrategy;
+
+export type GameEndReason = NonNullable<ReturnType<typeof checkGameEnd>['reason']>;
+
+export interface SimulationOptions {
+  playerCount: number;
+  settings?: Partial<RoomSettings>; // Changes to the default house rules
+  policy?: AgentPolicy;
+}
+
+export interface GameOutcome {
+  winner: Team;
+  reason: GameEndReason;
+  missionsPlayed: number;
+  rejectedTeams: number; // Over the whole game
+  longestVoteTrack: number; // Most teams rejected in a row on one mission
+}
+
+export interface SimulationReport {
+  playerCount: number;
+  games: number;
+  wins: Record<Team, number>;
+  reasons: Record<GameEndReason, number>;
+  averageMissions: number;
+  averageRejectedTeams: number;
+  voteTrackReached: number[]; // Index n: games whose longest vote track was n
+}
+
+const SIMULATION_ROOM_CODE = 'SIMULA';
+
+// Far more moves than any game takes; reaching it means the agents stopped making progress
+const MAX_MOVES_PER_GAME = 2_000;
+
+// Rule-based agents on both sides, the same as the bots people play against
+export const defaultPolicy: AgentPolicy = role => getBotStrategy('rule-based', role);
+
+// Each side plays one of the bot strategies
+export function createTeamPolicy(resistance: BotStrategyName, spies: BotStrategyName): AgentPolicy {
+  return role => getBotStrategy(isSpyRole(role) ? spies : resistance, role);
+}
+
+// Play one game from the lobby to the end. The clock only moves a millisecond per event,
+// so no phase timer or presence timeout ever steps in.
+export function simulateGame({ playerCount, settings = {}, policy = defaultPolicy }: SimulationOptions): GameOutcome {
+  let room: RoomState = createRoomState(SIMULATION_ROOM_CODE, generateSeed());
+  let now = 0;
+
+  const send = (type: GameEventType, playerId: string, data: Record<string, any> = {}) => {
+    const result = applyEvent(room, createGameEvent(type, SIMULATION_ROOM_CODE, playerId, data), ++now);
+    if (!result.accepted) {
+      throw new Error(`Simulated ${type} from ${playerId || 'a new player'} was refused: ${result.error}`);
+    }
+    room = result.state;
+  };
+
+  const seats = Array.from({ length: playerCount }, (_, index) => `seat${index + 1}`);
+  const sessionKeys = Object.fromEntries(seats.map(id => [id, generateSessionKey()]));
+  send('room-created', '', { hostId: seats[0], sessionKey: sessionKeys[seats[0]] });
+  seats.forEach(id => {
+    send('player-joined', '', { playerId: id, playerName: id, sessionKey: sessionKeys[id] });
+    send('player-ready', id, { playerId: id, isReady: true });
+  });
+  send('settings-updated', seats[0], { settings: { ...DEFAULT_ROOM_SETTINGS, ...settings } });
+  send('game-started', seats[0]);
+
+  const agents: Record<string, { strategy: BotStrategy; knownRoles: Record<string, PlayerRole | null> }> = {};
+  room.game.players.forEach(player => {
+    agents[player.id] = {
+      strategy: policy(player.role),
+      // What the seat was shown when roles were dealt, as the engine seals it for a person
+      knownRoles: getVisibleRoles(player, room.game.players, room.game.settings.visibilityRuleset),
+    };
+  });
+
+  for (let move = 0; room.game.phase !== 'game-end'; move++) {
+    if (move >= MAX_MOVES_PER_GAME) {
+      throw new Error(`Simulated game did not finish within ${MAX_MOVES_PER_GAME} moves`);
+    }
+
+    const { game } = room;
+    const next = game.players
+      .map(player => {
+        const { strategy, knownRoles } = agents[player.id];
+        return { playerId: player.id, action: planBotAction(createBotView(game, player.id, knownRoles), strategy) };
+      })
+      .find(({ action }) => action !== null);
+
+    if (!next?.action) {
+      throw new Error(`Simulated game stalled in the ${game.phase} phase`);
+    }
+    send(next.action.type, next.playerId, next.action.data);
+  }
+
+  return summarizeGame(room.game);
+}
+
+// Play `games` games with the same options and add up how they went
+export function simulateGames(games: number, options: SimulationOptions): SimulationReport {
+  const outcomes = Array.from({ length: games }, () => simulateGame(options));
+  const maxVoteTrack = options.settings?.maxVoteTrack ?? DEFAULT_ROOM_SETTINGS.maxVoteTrack;
+  const average = (value: (outcome: GameOutcome) => number) =>
+    outcomes.length === 0 ? 0 : outcomes.reduce((total, outcome) => total + value(outcome), 0) / outcomes.length;
+
+  const report: SimulationReport = {
+    playerCount: options.playerCount,
+    games,
+    wins: { resistance: 0, spy: 0 },
+    reasons: { score: 0, 'mission-limit': 0, 'vote-track': 0, assassination: 0 },
+    averageMissions: average(outcome => outcome.missionsPlayed),
+    averageRejectedTeams: average(outcome => outcome.rejectedTeams),
+    voteTrackReached: Array.from({ length: maxVoteTrack + 1 }, () => 0),
+  };
+
+  outcomes.forEach(outcome => {
+    report.wins[outcome.winner]++;
+    report.reasons[outcome.reason]++;
+    report.voteTrackReached[outcome.longestVoteTrack]++;
+  });
+
+  return report;
+}
+
+// A report as a few lines of text
+export function formatReport(report: SimulationReport): string {
+  const percent = (count: number) => `${report.games === 0 ? 0 : ((count / report.games) * 100).toFixed(1)}%`;
+  const reasons = (Object.keys(report.reasons) as GameEndReason[])
+    .filter(reason => report.reasons[reason] > 0)
+    .map(reason => `${reason} ${percent(report.reasons[reason])}`);
+  const voteTracks = report.voteTrackReached.map((count, length) => `${length}: ${percent(count)}`);
+
+  return [
+    `${report.playerCount} players, ${report.games} games`,
+    `  Wins: resistance ${percent(report.wins.resistance)}, spies ${percent(report.wins.spy)}`,
+    `  Ended by: ${reasons.join(', ')}`,
+    `  Missions played: ${report.averageMissions.toFixed(2)} on average`,
+    `  Rejected teams: ${report.averageRejectedTeams.toFixed(2)} per game; longest vote track ${voteTracks.join(', ')}`,
+  ].join('\n');
+}
+
+function summarizeGame(game: GameState): GameOutcome {
+  const ending = game.gameLog.find(entry => entry.type === 'game-end');
+  if (!ending?.data) {
+    throw new Error('Simulated game ended without a result');
+  }
+
+  const proposals = Object.values(game.proposals);
+  const rejectedTeams = proposals.flat().filter(proposal => !proposal.approved).length;
+  // Teams are rejected in a row until one is approved, so a mission's vote track peaks at its rejections
+  const longestVoteTrack = Math.max(0, ...proposals.map(missionProposals => missionProposals.filter(p => !p.approved).length));
+
+  return {
+    winner: ending.data.winner,
+    reason: ending.data.reason,
+    missionsPlayed: game.missionHistory.length,
+    rejectedTeams,
+    longestVoteTrack,
+  };
+}
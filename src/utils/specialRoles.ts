@@ -0,0 +1,100 @@
+import { PlayerRole, SpecialRole, Team } from '../types/game';
+
+// Optional Avalon roles layered over the base game. Each special role takes the place of a
+// plain resistance member or spy and changes what its holder learns when roles are dealt.
+
+export interface SpecialRoleInfo {
+  team: Team;
+  name: string;
+  symbol: string; // Short label for the game board
+  description: string;
+  requires: SpecialRole[]; // Roles that must also be in play for this one to make sense
+}
+
+export const SPECIAL_ROLES: Record<SpecialRole, SpecialRoleInfo> = {
+  merlin: {
+    team: 'resistance',
+    name: 'Merlin',
+    symbol: 'M',
+    description: 'Knows the spies, except Mordred. Must stay hidden from the Assassin.',
+    requires: ['assassin'],
+  },
+  percival: {
+    team: 'resistance',
+    name: 'Percival',
+    symbol: 'P',
+    description: 'Knows who Merlin is, but cannot tell Merlin and Morgana apart.',
+    requires: ['merlin'],
+  },
+  assassin: {
+    team: 'spy',
+    name: 'Assassin',
+    symbol: 'A',
+    description: 'If the resistance wins three missions, gets one guess at Merlin to steal the win.',
+    requires: ['merlin'],
+  },
+  morgana: {
+    team: 'spy',
+    name: 'Morgana',
+    symbol: 'Mg',
+    description: 'Appears as Merlin to Percival.',
+    requires: ['percival'],
+  },
+  mordred: {
+    team: 'spy',
+    name: 'Mordred',
+    symbol: 'Md',
+    description: 'Hidden from Merlin.',
+    requires: [],
+  },
+  oberon: {
+    team: 'spy',
+    name: 'Oberon',
+    symbol: 'O',
+    description: 'Unknown to the other spies, and does not know them either.',
+    requires: [],
+  },
+};
+
+// Special roles in the order they are listed to players
+export const SPECIAL_ROLE_ORDER: SpecialRole[] = ['merlin', 'percival', 'assassin', 'morgana', 'mordred', 'oberon'];
+
+export function isSpecialRole(value: unknown): value is SpecialRole {
+  return typeof value === 'string' && value in SPECIAL_ROLES;
+}
+
+// The side a role plays for
+export function getRoleTeam(role: PlayerRole): Team {
+  return role === 'resistance' || role === 'spy' ? role : SPECIAL_ROLES[role].team;
+}
+
+export function isSpyRole(role: PlayerRole): boolean {
+  return getRoleTeam(role) === 'spy';
+}
+
+// Display name for a role
+export function getRoleName(role: PlayerRole): string {
+  if (role === 'resistance') return 'Resistance';
+  if (role === 'spy') return 'Spy';
+  return SPECIAL_ROLES[role].name;
+}
+
+// Switch a role on or off, pulling in the roles it requires or dropping the roles that require it
+export function toggleSpecialRole(specialRoles: SpecialRole[], role: SpecialRole): SpecialRole[] {
+  const enabled = new Set(specialRoles);
+  const pending = [role];
+  const enabling = !enabled.has(role);
+
+  while (pending.length > 0) {
+    const next = pending.pop() as SpecialRole;
+    if (enabling && !enabled.has(next)) {
+      enabled.add(next);
+      pending.push(...SPECIAL_ROLES[next].requires);
+    } else if (!enabling && enabled.has(next)) {
+      enabled.delete(next);
+      pending.push(...SPECIAL_ROLE_ORDER.filter(other => SPECIAL_ROLES[other].requires.includes(next)));
+    }
+  }
+
+  return SPECIAL_ROLE_ORDER.filter(other => enabled.has(other));
+}